@@ -2,49 +2,152 @@
 import { google, docs_v1 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
 import { UserError } from 'fastmcp';
-import { TextStyleArgs, ParagraphStyleArgs, hexToRgbColor, NotImplementedError } from './types.js';
+import { TextStyleArgs, ParagraphStyleArgs, TableCellStyleArgs, DocumentStyleArgs, SectionStyleArgs, TableSelector, SectionTarget, ElementQuery, ParagraphTarget, TextFind, TextSearchOptions, EditOperation, EditPosition, EditRange, HeaderFooterVariant, BulletPreset, hexToRgbColor, NotImplementedError } from './types.js';
 
 type Docs = docs_v1.Docs; // Alias for convenience
 
 // --- Constants ---
-const MAX_BATCH_UPDATE_REQUESTS = 50; // Google API limits batch size
+const MAX_BATCH_UPDATE_REQUESTS = 50; // Requests per batchUpdate call when a caller opts in to chunking
 
 // --- Core Helper to Execute Batch Updates ---
-export async function executeBatchUpdate(docs: Docs, documentId: string, requests: docs_v1.Schema$Request[]): Promise<docs_v1.Schema$BatchUpdateDocumentResponse> {
+
+export interface BatchUpdateOptions {
+    // The requests all use indices of the unmodified document: apply them last-to-first
+    sortByIndexDescending?: boolean;
+    // Refuse to apply anything if the document has changed since this revision
+    requiredRevisionId?: string;
+    // Send the requests in chunks instead of one all-or-nothing batchUpdate. Only for requests that
+    // don't depend on each other, like bulk formatting: a failed chunk leaves the earlier ones applied.
+    chunked?: boolean;
+    chunkSize?: number; // Requests per chunk, MAX_BATCH_UPDATE_REQUESTS by default
+}
+
+export interface BatchChunkResult {
+    chunk: number; // 1-based
+    requestCount: number;
+    revisionId?: string; // Revision of the document after the chunk was applied
+}
+
+export type BatchUpdateResult = docs_v1.Schema$BatchUpdateDocumentResponse & { chunks: BatchChunkResult[] };
+
+// The body of a request, e.g. the Schema$InsertTextRequest of { insertText: {...} }
+type RequestBody = NonNullable<docs_v1.Schema$Request[keyof docs_v1.Schema$Request]>;
+
+function getRequestBody(request: docs_v1.Schema$Request): RequestBody | undefined {
+    const bodies: (RequestBody | null | undefined)[] = Object.values(request);
+    return bodies.find(body => body != null) ?? undefined;
+}
+
+/**
+ * Returns the document index a request starts at, or undefined for requests without one
+ * (document style, named range deletion, insertions at the end of a segment, ...).
+ */
+export function getRequestIndex(request: docs_v1.Schema$Request): number | undefined {
+    const body = getRequestBody(request);
+    if (!body) return undefined;
+    if ('location' in body && body.location) return body.location.index ?? undefined;
+    if ('range' in body && body.range) return body.range.startIndex ?? undefined;
+    if ('tableCellLocation' in body && body.tableCellLocation) return body.tableCellLocation.tableStartLocation?.index ?? undefined;
+    if ('tableStartLocation' in body && body.tableStartLocation) return body.tableStartLocation.index ?? undefined;
+    if ('tableRange' in body && body.tableRange) return body.tableRange.tableCellLocation?.tableStartLocation?.index ?? undefined;
+    return undefined;
+}
+
+function getRequestSegmentId(request: docs_v1.Schema$Request): string {
+    const body = getRequestBody(request);
+    if (body && 'location' in body && body.location) return body.location.segmentId || '';
+    if (body && 'range' in body && body.range) return body.range.segmentId || '';
+    return '';
+}
+
+/**
+ * Orders requests whose indices all refer to the unmodified document so they can be applied in
+ * one pass: highest index first, so no request shifts the content a later one points at.
+ * Requests without an index go first; ties keep their given order.
+ * @throws UserError if a deletion overlaps the position of another request, as their result would depend on order
+ */
+export function sortRequestsByIndexDescending(requests: docs_v1.Schema$Request[]): docs_v1.Schema$Request[] {
+    const indexed = requests.map((request, position) => ({ request, position, index: getRequestIndex(request) }));
+
+    indexed.forEach(({ request }) => {
+        const range = request.deleteContentRange?.range;
+        if (!range || range.startIndex == null || range.endIndex == null) return;
+        const conflict = indexed.find(other => other.request !== request
+            && getRequestSegmentId(other.request) === (range.segmentId || '')
+            && other.index !== undefined && other.index > range.startIndex! && other.index < range.endIndex!);
+        if (conflict) {
+            throw new UserError(`Cannot reorder requests: the deletion of ${range.startIndex}-${range.endIndex} overlaps another edit at index ${conflict.index}.`);
+        }
+    });
+
+    return indexed
+        .sort((a, b) => (b.index ?? Infinity) - (a.index ?? Infinity) || a.position - b.position)
+        .map(({ request }) => request);
+}
+
+/**
+ * Executes requests with documents.batchUpdate, in a single call so they apply entirely or not at all.
+ * With `chunked`, they are sent in sequential chunks instead; each chunk after the first requires
+ * the revision the previous one produced, so an edit made by someone else in between fails the
+ * next chunk instead of interleaving with it. Replies from all chunks are concatenated in request order.
+ */
+export async function executeBatchUpdate(docs: Docs, documentId: string, requests: docs_v1.Schema$Request[], options: BatchUpdateOptions = {}): Promise<BatchUpdateResult> {
 if (!requests || requests.length === 0) {
 // console.warn("executeBatchUpdate called with no requests.");
-return {}; // Nothing to do
+return { chunks: [] }; // Nothing to do
 }
 
-    // TODO: Consider splitting large request arrays into multiple batches if needed
-    if (requests.length > MAX_BATCH_UPDATE_REQUESTS) {
-         console.warn(`Attempting batch update with ${requests.length} requests, exceeding typical limits. May fail.`);
+    const ordered = options.sortByIndexDescending ? sortRequestsByIndexDescending(requests) : requests;
+    const chunkSize = options.chunked ? options.chunkSize ?? MAX_BATCH_UPDATE_REQUESTS : ordered.length;
+    const chunks: docs_v1.Schema$Request[][] = [];
+    for (let i = 0; i < ordered.length; i += chunkSize) {
+        chunks.push(ordered.slice(i, i + chunkSize));
     }
 
-    try {
-        const response = await docs.documents.batchUpdate({
-            documentId: documentId,
-            requestBody: { requests },
-        });
-        return response.data;
-    } catch (error: any) {
-        console.error(`Google API batchUpdate Error for doc ${documentId}:`, error.response?.data || error.message);
-        // Translate common API errors to UserErrors
-        if (error.code === 400 && error.message.includes('Invalid requests')) {
-             // Try to extract more specific info if available
-             const details = error.response?.data?.error?.details;
-             let detailMsg = '';
-             if (details && Array.isArray(details)) {
-                 detailMsg = details.map(d => d.description || JSON.stringify(d)).join('; ');
-             }
-            throw new UserError(`Invalid request sent to Google Docs API. Details: ${detailMsg || error.message}`);
+    const result: BatchUpdateResult = { documentId, replies: [], chunks: [] };
+    let revisionId = options.requiredRevisionId;
+
+    for (const [position, chunk] of chunks.entries()) {
+        try {
+            const response = await docs.documents.batchUpdate({
+                documentId: documentId,
+                requestBody: {
+                    requests: chunk,
+                    ...(revisionId ? { writeControl: { requiredRevisionId: revisionId } } : {}),
+                },
+            });
+            revisionId = response.data.writeControl?.requiredRevisionId || undefined;
+            result.replies!.push(...(response.data.replies || []));
+            result.writeControl = response.data.writeControl;
+            result.chunks.push({ chunk: position + 1, requestCount: chunk.length, revisionId });
+            if (chunks.length > 1) {
+                console.error(`Applied chunk ${position + 1}/${chunks.length} (${chunk.length} requests) to doc ${documentId}`);
+            }
+        } catch (error: any) {
+            console.error(`Google API batchUpdate Error for doc ${documentId}:`, error.response?.data || error.message);
+            const progress = position > 0
+                ? ` Chunks 1-${position} of ${chunks.length} (${position * chunkSize} of ${ordered.length} requests) were already applied.`
+                : '';
+            // Translate common API errors to UserErrors
+            if (error.code === 400 && error.message.includes('Invalid requests')) {
+                 // Try to extract more specific info if available
+                 const details = error.response?.data?.error?.details;
+                 let detailMsg = '';
+                 if (details && Array.isArray(details)) {
+                     detailMsg = details.map(d => d.description || JSON.stringify(d)).join('; ');
+                 }
+                throw new UserError(`Invalid request sent to Google Docs API. Details: ${detailMsg || error.message}${progress}`);
+            }
+            if (error.code === 400 && revisionId && /revision/i.test(error.message)) {
+                throw new UserError(`The document was changed by another edit, so the update was stopped (${error.message}).${progress}`);
+            }
+            if (error.code === 404) throw new UserError(`Document not found (ID: ${documentId}). Check the ID.`);
+            if (error.code === 403) throw new UserError(`Permission denied for document (ID: ${documentId}). Ensure the authenticated user has edit access.${progress}`);
+            // Generic internal error for others
+            throw new Error(`Google API Error (${error.code}): ${error.message}${progress}`);
         }
-        if (error.code === 404) throw new UserError(`Document not found (ID: ${documentId}). Check the ID.`);
-        if (error.code === 403) throw new UserError(`Permission denied for document (ID: ${documentId}). Ensure the authenticated user has edit access.`);
-        // Generic internal error for others
-        throw new Error(`Google API Error (${error.code}): ${error.message}`);
     }
-
+    return result;
 }
 
 // --- Text Finding Helper ---
@@ -180,6 +283,661 @@ try {
 }
 }
 
+// --- Text Search Helpers ---
+
+export interface TextMatch {
+    startIndex: number;
+    endIndex: number;
+    text: string;
+    context: { before: string; after: string }; // Text around the match, within the same paragraph
+    namedStyleType?: string; // Named style of the paragraph the match starts in
+}
+
+const SEARCH_CONTEXT_LENGTH = 40;
+
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the global regular expression for a search. Plain text is escaped; whole-word matching
+ * requires the match not to touch another word character on either side. The body is searched as
+ * one string, so the regex is multiline: ^ and $ anchor at paragraph boundaries.
+ */
+export function buildSearchRegex(query: string, options: Partial<TextSearchOptions> = {}): RegExp {
+    let source = options.useRegex ? query : escapeRegExp(query);
+    // Word characters are Unicode letters, digits and underscore, so "caf" is not a whole word in "café".
+    // \p{...} needs the u flag, which is left off otherwise since it rejects escapes like \- in user patterns
+    if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+    const flags = `g${options.caseSensitive === false ? 'i' : ''}m${options.wholeWord ? 'u' : ''}`;
+    try {
+        return new RegExp(source, flags);
+    } catch (error: any) {
+        throw new UserError(`Invalid regular expression "${query}": ${error.message}`);
+    }
+}
+
+/** Collects a paragraph's text with the document index of each character and its styled runs. */
+function collectParagraphText(paragraph: docs_v1.Schema$Paragraph): { text: string; indices: number[]; styledRuns: (docs_v1.Schema$TextStyle | undefined)[] } {
+    let text = '';
+    const indices: number[] = [];
+    const styledRuns: (docs_v1.Schema$TextStyle | undefined)[] = [];
+    paragraph.elements?.forEach(pe => {
+        const content = pe.textRun?.content;
+        if (!content) return;
+        for (let i = 0; i < content.length; i++) indices.push((pe.startIndex ?? 0) + i);
+        text += content;
+        if (content.trim()) styledRuns.push(pe.textRun!.textStyle);
+    });
+    return { text, indices, styledRuns };
+}
+
+interface ScannedMatch {
+    match: TextMatch;
+    found: RegExpExecArray;
+    crosses?: 'cell' | 'element'; // Set when the match spans a table cell boundary or a non-text element such as an image
+}
+
+function scanContentText(content: docs_v1.Schema$StructuralElement[] | undefined, query: string, options: Partial<TextSearchOptions>): ScannedMatch[] {
+    let fullText = '';
+    const indices: number[] = [];
+    const namedStyles: (string | undefined)[] = [];
+    // Table cell of each character: 0 outside tables, otherwise a number unique to the cell
+    const cells: number[] = [];
+    let cellCount = 0;
+    const collect = (elements: docs_v1.Schema$StructuralElement[] | undefined, cell: number) => (elements || []).forEach(element => {
+        if (element.paragraph) {
+            const collected = collectParagraphText(element.paragraph);
+            fullText += collected.text;
+            indices.push(...collected.indices);
+            namedStyles.push(...collected.indices.map(() => element.paragraph!.paragraphStyle?.namedStyleType || undefined));
+            cells.push(...collected.indices.map(() => cell));
+        }
+        element.table?.tableRows?.forEach(row => row.tableCells?.forEach(tableCell => collect(tableCell.content, ++cellCount)));
+    });
+    collect(content, 0);
+
+    const regex = buildSearchRegex(query, options);
+    const scanned: ScannedMatch[] = [];
+    let found: RegExpExecArray | null;
+    while ((found = regex.exec(fullText)) !== null) {
+        if (found[0].length === 0) {
+            regex.lastIndex++;
+            continue;
+        }
+        const end = found.index + found[0].length;
+        const before = fullText.slice(Math.max(0, found.index - SEARCH_CONTEXT_LENGTH), found.index);
+        const after = fullText.slice(end, end + SEARCH_CONTEXT_LENGTH);
+        const match: TextMatch = {
+            startIndex: indices[found.index],
+            endIndex: indices[end - 1] + 1,
+            text: found[0],
+            context: { before: before.slice(before.lastIndexOf('\n') + 1), after: after.split('\n')[0] },
+        };
+        if (namedStyles[found.index]) match.namedStyleType = namedStyles[found.index];
+        const entry: ScannedMatch = { match, found };
+        if (cells[found.index] !== cells[end - 1]) entry.crosses = 'cell';
+        else if (match.endIndex - match.startIndex !== found[0].length) entry.crosses = 'element';
+        scanned.push(entry);
+    }
+    return scanned;
+}
+
+/**
+ * Finds every match of a search in body content, table cells included, in document order.
+ * Zero-length regex matches are skipped.
+ */
+export function searchContentText(content: docs_v1.Schema$StructuralElement[] | undefined, query: string, options: Partial<TextSearchOptions> = {}): TextMatch[] {
+    return scanContentText(content, query, options).map(scanned => scanned.match);
+}
+
+/** Fetches the document body and returns every match of a search. */
+export async function searchDocumentText(docs: Docs, documentId: string, query: string, options: Partial<TextSearchOptions> = {}): Promise<TextMatch[]> {
+    const res = await docs.documents.get({
+        documentId,
+        fields: 'body(content(paragraph(paragraphStyle(namedStyleType),elements(startIndex,endIndex,textRun(content))),table,startIndex,endIndex))',
+    });
+    return searchContentText(res.data.body?.content, query, options);
+}
+
+/**
+ * Resolves a text find target to the matches it selects: the requested instance, or every match
+ * when allMatches is set.
+ * @throws UserError when nothing matches
+ */
+export async function resolveTextFindTargets(docs: Docs, documentId: string, target: Omit<TextFind, 'allMatches'> & { allMatches?: boolean }): Promise<TextMatch[]> {
+    const matches = await searchDocumentText(docs, documentId, target.textToFind, target);
+    if (target.allMatches) {
+        if (matches.length === 0) throw new UserError(`Could not find "${target.textToFind}" in the document.`);
+        return matches;
+    }
+    const instance = target.matchInstance || 1;
+    const match = matches[instance - 1];
+    if (!match) {
+        throw new UserError(`Could not find instance ${instance} of text "${target.textToFind}" (found ${matches.length}).`);
+    }
+    return [match];
+}
+
+// --- Text Replacement Helpers ---
+
+export interface TextReplacement extends TextMatch {
+    matchNumber: number; // 1-based position among the matches eligible for replacement
+    replacement: string;
+}
+
+export interface ReplacementSelection {
+    matchInstances?: number[]; // Only replace these match numbers
+    maxReplacements?: number;
+    excludeNamedStyleTypes?: string[]; // Skip matches in paragraphs with these named styles, e.g. TITLE
+}
+
+/**
+ * Expands $$, $&, $1..$99 and $<name> in a replacement template, as String.prototype.replace does.
+ * Unknown references are kept literally.
+ */
+export function expandReplacement(template: string, found: RegExpExecArray): string {
+    return template.replace(/\$(\$|&|(\d\d?)|<([^>]*)>)/g, (token, kind: string, digits: string | undefined, name: string | undefined) => {
+        if (kind === '$') return '$';
+        if (kind === '&') return found[0];
+        if (digits) {
+            const group = parseInt(digits, 10);
+            if (group > 0 && group < found.length) return found[group] ?? '';
+            // "$12" with fewer than 12 groups means group 1 followed by a literal "2"
+            const single = parseInt(digits[0], 10);
+            if (digits.length === 2 && single > 0 && single < found.length) return (found[single] ?? '') + digits[1];
+            return token;
+        }
+        if (name !== undefined && found.groups) return found.groups[name] ?? '';
+        return token;
+    });
+}
+
+/**
+ * Finds the matches to replace and computes each replacement. Matches in excluded paragraph
+ * styles are dropped first; the remaining ones are numbered from 1 for matchInstances and
+ * maxReplacements. In regex mode the replacement may use $1, $<name> and $&.
+ * @returns The selected replacements and the number of eligible matches
+ */
+export function planTextReplacements(
+    content: docs_v1.Schema$StructuralElement[] | undefined,
+    find: string,
+    replaceWith: string,
+    options: Partial<TextSearchOptions> & ReplacementSelection = {}
+): { replacements: TextReplacement[]; totalMatches: number } {
+    const eligible = scanContentText(content, find, options)
+        .filter(scanned => !options.excludeNamedStyleTypes?.includes(scanned.match.namedStyleType || 'NORMAL_TEXT'));
+
+    let replacements: TextReplacement[] = eligible.map((scanned, position) => ({
+        ...scanned.match,
+        matchNumber: position + 1,
+        replacement: options.useRegex ? expandReplacement(replaceWith, scanned.found) : replaceWith,
+    }));
+    if (options.matchInstances) replacements = replacements.filter(r => options.matchInstances!.includes(r.matchNumber));
+    if (options.maxReplacements !== undefined) replacements = replacements.slice(0, options.maxReplacements);
+
+    replacements.forEach(r => {
+        const crosses = eligible[r.matchNumber - 1].crosses;
+        if (crosses === 'cell') {
+            throw new UserError(`Match ${r.matchNumber} ("${r.text}") spans a table cell boundary and cannot be replaced.`);
+        }
+        if (crosses === 'element') {
+            throw new UserError(`Match ${r.matchNumber} ("${r.text}") spans an image, footnote reference or other non-text element and cannot be replaced.`);
+        }
+    });
+    return { replacements, totalMatches: eligible.length };
+}
+
+/**
+ * Builds the requests that apply replacements, last match first so earlier indices stay valid.
+ * The new text is inserted after the first matched character before the match is deleted, so it
+ * takes on the formatting of the matched text rather than of the text before it.
+ */
+export function buildTextReplacementRequests(replacements: TextReplacement[], style?: TextStyleArgs): docs_v1.Schema$Request[] {
+    const requests: docs_v1.Schema$Request[] = [];
+    [...replacements].sort((a, b) => b.startIndex - a.startIndex).forEach(({ startIndex, endIndex, replacement }) => {
+        const length = replacement.length;
+        if (length === 0) {
+            requests.push({ deleteContentRange: { range: { startIndex, endIndex } } });
+            return;
+        }
+        requests.push({ insertText: { location: { index: startIndex + 1 }, text: replacement } });
+        if (endIndex > startIndex + 1) {
+            requests.push({ deleteContentRange: { range: { startIndex: startIndex + 1 + length, endIndex: endIndex + length } } });
+        }
+        requests.push({ deleteContentRange: { range: { startIndex, endIndex: startIndex + 1 } } });
+        const styleRequest = style ? buildUpdateTextStyleRequest(startIndex, startIndex + length, style) : null;
+        if (styleRequest) requests.push(styleRequest.request);
+    });
+    return requests;
+}
+
+// --- Edit Plan Helpers ---
+
+// Each element of an empty table is a single character: table start, row starts, cell starts,
+// the newline of each cell's paragraph and the table end. insertTable also adds a newline before it.
+function getInsertedTableLength(rows: number, columns: number): number {
+    return 1 + 1 + rows * (1 + 2 * columns) + 1;
+}
+
+// Each shift's indices refer to the document as it was when that shift was applied, after all earlier shifts
+type EditShift =
+    | { kind: 'insert'; at: number; length: number; operation: number }
+    | { kind: 'delete'; startIndex: number; endIndex: number; operation: number };
+
+/**
+ * Maps an index of the original document to the document after the given shifts, applying them in order.
+ * The end of a range stays in front of text inserted exactly at it; a start moves past it.
+ * @throws UserError if the index lies inside text an earlier operation deleted
+ */
+function rebaseIndex(index: number, shifts: EditShift[], isEnd: boolean, operation: number): number {
+    let rebased = index;
+    for (const shift of shifts) {
+        if (shift.kind === 'insert') {
+            if (isEnd ? rebased > shift.at : rebased >= shift.at) rebased += shift.length;
+        } else if (rebased >= shift.endIndex) {
+            rebased -= shift.endIndex - shift.startIndex;
+        } else if (rebased > shift.startIndex) {
+            throw new UserError(`Operation ${operation} targets text deleted by operation ${shift.operation}.`);
+        }
+    }
+    return rebased;
+}
+
+function resolveEditPosition(content: docs_v1.Schema$StructuralElement[], at: EditPosition, operation: number): number {
+    if ('index' in at) return at.index;
+    if ('endOfDocument' in at) return (content[content.length - 1]?.endIndex ?? 2) - 1;
+    const match = searchContentText(content, at.textToFind, at)[(at.matchInstance || 1) - 1];
+    if (!match) {
+        throw new UserError(`Operation ${operation}: could not find instance ${at.matchInstance || 1} of text "${at.textToFind}".`);
+    }
+    return at.position === 'before' ? match.startIndex : match.endIndex;
+}
+
+function resolveEditRanges(content: docs_v1.Schema$StructuralElement[], target: EditRange, operation: number): { startIndex: number; endIndex: number }[] {
+    if (!('textToFind' in target)) return [{ startIndex: target.startIndex, endIndex: target.endIndex }];
+    const matches = searchContentText(content, target.textToFind, target);
+    const selected = target.allMatches ? matches : matches.slice((target.matchInstance || 1) - 1, target.matchInstance || 1);
+    if (selected.length === 0) {
+        throw new UserError(`Operation ${operation}: could not find ${target.allMatches ? '' : `instance ${target.matchInstance || 1} of `}text "${target.textToFind}".`);
+    }
+    return selected;
+}
+
+/**
+ * Turns an ordered list of edit operations into one list of requests. Every position and text
+ * match is resolved against `content`, the snapshot taken before the first operation, then rebased
+ * over the insertions and deletions of the operations before it.
+ * @returns The requests, in operation order, and a one-line summary per operation
+ */
+export function buildEditRequests(content: docs_v1.Schema$StructuralElement[], operations: EditOperation[]): { requests: docs_v1.Schema$Request[]; summaries: string[] } {
+    const requests: docs_v1.Schema$Request[] = [];
+    const summaries: string[] = [];
+    const shifts: EditShift[] = [];
+
+    operations.forEach((op, position) => {
+        const operation = position + 1;
+        const rebaseRange = (range: { startIndex: number; endIndex: number }) => ({
+            startIndex: rebaseIndex(range.startIndex, shifts, false, operation),
+            endIndex: rebaseIndex(range.endIndex, shifts, true, operation),
+        });
+
+        switch (op.type) {
+            case 'insertText': {
+                const original = resolveEditPosition(content, op.at, operation);
+                const index = rebaseIndex(original, shifts, false, operation);
+                requests.push({ insertText: { location: { index }, text: op.text } });
+                const styleRequest = op.style ? buildUpdateTextStyleRequest(index, index + op.text.length, op.style) : null;
+                if (styleRequest) requests.push(styleRequest.request);
+                shifts.push({ kind: 'insert', at: index, length: op.text.length, operation });
+                summaries.push(`${operation}. Inserted ${op.text.length} character(s) at ${index}${styleRequest ? ` with ${styleRequest.fields.join(', ')}` : ''}`);
+                break;
+            }
+            case 'deleteText': {
+                const ranges = resolveEditRanges(content, op.target, operation);
+                // Delete from the last range so the earlier ones keep their rebased indices
+                const rebased = ranges.map(rebaseRange).sort((a, b) => b.startIndex - a.startIndex);
+                rebased.forEach(range => {
+                    if (range.endIndex <= range.startIndex) throw new UserError(`Operation ${operation}: the range to delete is empty.`);
+                    requests.push({ deleteContentRange: { range } });
+                });
+                rebased.forEach(range => shifts.push({ kind: 'delete', startIndex: range.startIndex, endIndex: range.endIndex, operation }));
+                summaries.push(`${operation}. Deleted ${rebased.map(r => `${r.startIndex}-${r.endIndex}`).join(', ')}`);
+                break;
+            }
+            case 'textStyle':
+            case 'paragraphStyle': {
+                const ranges = resolveEditRanges(content, op.target, operation).map(rebaseRange);
+                let fields: string[] = [];
+                ranges.forEach(({ startIndex, endIndex }) => {
+                    const built = op.type === 'textStyle'
+                        ? buildUpdateTextStyleRequest(startIndex, endIndex, op.style)
+                        : buildUpdateParagraphStyleRequest(startIndex, endIndex, op.style);
+                    if (!built) throw new UserError(`Operation ${operation}: no valid style options were provided.`);
+                    requests.push(built.request);
+                    fields = built.fields;
+                });
+                summaries.push(`${operation}. Applied ${op.type === 'textStyle' ? 'text' : 'paragraph'} style (${fields.join(', ')}) to ${ranges.map(r => `${r.startIndex}-${r.endIndex}`).join(', ')}`);
+                break;
+            }
+            case 'pageBreak':
+            case 'table':
+            case 'image': {
+                const original = resolveEditPosition(content, op.at, operation);
+                const index = rebaseIndex(original, shifts, false, operation);
+                if (op.type === 'pageBreak') {
+                    // A page break is inserted followed by a newline
+                    requests.push({ insertPageBreak: { location: { index } } });
+                    shifts.push({ kind: 'insert', at: index, length: 2, operation });
+                    summaries.push(`${operation}. Inserted a page break at ${index}`);
+                } else if (op.type === 'table') {
+                    requests.push({ insertTable: { rows: op.rows, columns: op.columns, location: { index } } });
+                    shifts.push({ kind: 'insert', at: index, length: getInsertedTableLength(op.rows, op.columns), operation });
+                    summaries.push(`${operation}. Inserted a ${op.rows}x${op.columns} table at ${index}`);
+                } else {
+                    requests.push(buildInsertInlineImageRequest(op.imageUrl, index, op.width, op.height));
+                    shifts.push({ kind: 'insert', at: index, length: 1, operation });
+                    summaries.push(`${operation}. Inserted an image at ${index}`);
+                }
+                break;
+            }
+        }
+    });
+    return { requests, summaries };
+}
+
+// --- Named Range Helpers ---
+
+export interface NamedRangeInfo {
+    name: string;
+    namedRangeId: string;
+    ranges: { startIndex: number; endIndex: number; segmentId?: string }[]; // segmentId is set for headers, footers and footnotes
+}
+
+/** Lists a document's named ranges, ordered by where they start. Names are not unique in Google Docs. */
+export function collectNamedRanges(doc: docs_v1.Schema$Document): NamedRangeInfo[] {
+    const collected: NamedRangeInfo[] = [];
+    Object.values(doc.namedRanges || {}).forEach(group => group.namedRanges?.forEach(namedRange => {
+        collected.push({
+            name: namedRange.name || group.name || '',
+            namedRangeId: namedRange.namedRangeId || '',
+            ranges: (namedRange.ranges || [])
+                .map(range => ({
+                    startIndex: range.startIndex ?? 0,
+                    endIndex: range.endIndex ?? 0,
+                    ...(range.segmentId ? { segmentId: range.segmentId } : {}),
+                }))
+                .sort((a, b) => a.startIndex - b.startIndex),
+        });
+    }));
+    return collected.sort((a, b) => (a.ranges[0]?.startIndex ?? 0) - (b.ranges[0]?.startIndex ?? 0));
+}
+
+/**
+ * Finds the single named range with the given name.
+ * @throws UserError if there is none, or if several named ranges share the name
+ */
+export function findNamedRange(doc: docs_v1.Schema$Document, name: string): NamedRangeInfo {
+    const all = collectNamedRanges(doc);
+    const matching = all.filter(namedRange => namedRange.name === name);
+    if (matching.length === 0) {
+        const names = [...new Set(all.map(namedRange => namedRange.name))];
+        throw new UserError(`Named range "${name}" not found.${names.length ? ` Available: ${names.map(n => `"${n}"`).join(', ')}.` : ' The document has no named ranges.'}`);
+    }
+    if (matching.length > 1) {
+        throw new UserError(`${matching.length} named ranges are called "${name}" (IDs: ${matching.map(m => m.namedRangeId).join(', ')}). Delete the duplicates first.`);
+    }
+    return matching[0];
+}
+
+/** Fetches the document's named ranges and finds the one with the given name. */
+export async function getNamedRange(docs: Docs, documentId: string, name: string): Promise<NamedRangeInfo> {
+    const res = await docs.documents.get({ documentId, fields: 'namedRanges' });
+    return findNamedRange(res.data, name);
+}
+
+/**
+ * Resolves a named range to its ranges in the document body, for tools that only edit the body.
+ * @throws UserError if any part of the range is in a header, footer or footnote
+ */
+export async function getNamedRangeBodyRanges(docs: Docs, documentId: string, name: string): Promise<{ startIndex: number; endIndex: number }[]> {
+    const namedRange = await getNamedRange(docs, documentId, name);
+    if (namedRange.ranges.some(range => range.segmentId)) {
+        throw new UserError(`Named range "${name}" is not in the document body.`);
+    }
+    return namedRange.ranges.map(({ startIndex, endIndex }) => ({ startIndex, endIndex }));
+}
+
+/** Resolves a named range to the index at its start or end, for use in place of a raw index. */
+export async function resolveNamedRangeIndex(docs: Docs, documentId: string, name: string, position: 'start' | 'end' = 'start'): Promise<number> {
+    const ranges = await getNamedRangeBodyRanges(docs, documentId, name);
+    return position === 'start' ? ranges[0].startIndex : ranges[ranges.length - 1].endIndex;
+}
+
+/** Returns the text between two indices of a segment's content, table cells included. */
+export function extractRangeText(content: docs_v1.Schema$StructuralElement[] | undefined, startIndex: number, endIndex: number): string {
+    let text = '';
+    const collect = (elements: docs_v1.Schema$StructuralElement[] | undefined) => (elements || []).forEach(element => {
+        if ((element.endIndex ?? Infinity) <= startIndex || (element.startIndex ?? 0) >= endIndex) return;
+        if (element.paragraph) {
+            const collected = collectParagraphText(element.paragraph);
+            collected.indices.forEach((index, i) => {
+                if (index >= startIndex && index < endIndex) text += collected.text[i];
+            });
+        }
+        element.table?.tableRows?.forEach(row => row.tableCells?.forEach(cell => collect(cell.content)));
+    });
+    collect(content);
+    return text;
+}
+
+/**
+ * Builds the requests that replace the text of a named range and recreate the range around the
+ * new text, since deleting all of a named range's content also removes the named range.
+ */
+export function buildReplaceNamedRangeContentRequests(namedRange: NamedRangeInfo, text: string): docs_v1.Schema$Request[] {
+    if (namedRange.ranges.length !== 1) {
+        throw new UserError(`Named range "${namedRange.name}" spans ${namedRange.ranges.length} separate ranges; only single ranges can be replaced.`);
+    }
+    const { startIndex, endIndex, segmentId } = namedRange.ranges[0];
+    const segment = segmentId ? { segmentId } : {};
+    return [
+        { deleteNamedRange: { namedRangeId: namedRange.namedRangeId } },
+        { deleteContentRange: { range: { startIndex, endIndex, ...segment } } },
+        { insertText: { location: { index: startIndex, ...segment }, text } },
+        { createNamedRange: { name: namedRange.name, range: { startIndex, endIndex: startIndex + text.length, ...segment } } },
+    ];
+}
+
+// --- Header, Footer & Footnote Helpers ---
+
+export type HeaderFooterKind = 'header' | 'footer';
+
+// The documentStyle field holding each header/footer ID, and the setting that turns a variant on
+const HEADER_FOOTER_SLOTS: Record<HeaderFooterKind, Record<HeaderFooterVariant, keyof docs_v1.Schema$DocumentStyle>> = {
+    header: { default: 'defaultHeaderId', firstPage: 'firstPageHeaderId', evenPage: 'evenPageHeaderId' },
+    footer: { default: 'defaultFooterId', firstPage: 'firstPageFooterId', evenPage: 'evenPageFooterId' },
+};
+const HEADER_FOOTER_VARIANT_SETTINGS: Partial<Record<HeaderFooterVariant, keyof docs_v1.Schema$DocumentStyle>> = {
+    firstPage: 'useFirstPageHeaderFooter',
+    evenPage: 'useEvenPageHeaderFooter',
+};
+
+export interface HeaderFooterInfo {
+    kind: HeaderFooterKind;
+    variant: HeaderFooterVariant;
+    segmentId: string;
+    text: string;
+}
+
+export interface FootnoteInfo {
+    footnoteId: string;
+    number: string;
+    text: string;
+}
+
+/** Describes a header or footer for messages, e.g. "first page footer". */
+export function describeHeaderFooter(kind: HeaderFooterKind, variant: HeaderFooterVariant): string {
+    return `${variant === 'firstPage' ? 'first page ' : variant === 'evenPage' ? 'even page ' : ''}${kind}`;
+}
+
+/** Returns the content of a body (no segmentId), header, footer or footnote segment. */
+export function getSegmentContent(doc: docs_v1.Schema$Document, segmentId?: string | null): docs_v1.Schema$StructuralElement[] | undefined {
+    if (!segmentId) return doc.body?.content;
+    return (doc.headers?.[segmentId] || doc.footers?.[segmentId] || doc.footnotes?.[segmentId])?.content;
+}
+
+/** Returns the ID of a document's header or footer, if it has one. */
+export function getHeaderFooterId(doc: docs_v1.Schema$Document, kind: HeaderFooterKind, variant: HeaderFooterVariant): string | undefined {
+    return (doc.documentStyle?.[HEADER_FOOTER_SLOTS[kind][variant]] as string | null | undefined) || undefined;
+}
+
+/** Lists the document's headers and footers with their text, headers first. */
+export function listHeadersFooters(doc: docs_v1.Schema$Document): HeaderFooterInfo[] {
+    const found: HeaderFooterInfo[] = [];
+    (['header', 'footer'] as const).forEach(kind => (['default', 'firstPage', 'evenPage'] as const).forEach(variant => {
+        const segmentId = getHeaderFooterId(doc, kind, variant);
+        if (!segmentId) return;
+        found.push({ kind, variant, segmentId, text: extractTextFromContent(getSegmentContent(doc, segmentId)).trim() });
+    }));
+    return found;
+}
+
+/** Lists the footnotes referenced from the body, in reference order, with their text. */
+export function collectFootnotes(doc: docs_v1.Schema$Document): FootnoteInfo[] {
+    const footnotes: FootnoteInfo[] = [];
+    const collect = (elements: docs_v1.Schema$StructuralElement[] | undefined) => (elements || []).forEach(element => {
+        element.paragraph?.elements?.forEach(pe => {
+            const footnoteId = pe.footnoteReference?.footnoteId;
+            if (!footnoteId || footnotes.some(f => f.footnoteId === footnoteId)) return;
+            footnotes.push({
+                footnoteId,
+                number: pe.footnoteReference!.footnoteNumber || String(footnotes.length + 1),
+                text: extractTextFromContent(doc.footnotes?.[footnoteId]?.content).trim(),
+            });
+        });
+        element.table?.tableRows?.forEach(row => row.tableCells?.forEach(cell => collect(cell.content)));
+    });
+    collect(doc.body?.content);
+    return footnotes;
+}
+
+/**
+ * Writes the text of newly created footnotes. A new footnote holds a single empty paragraph, so the
+ * text goes in front of its newline.
+ * @throws UserError if a footnote ID is missing, e.g. because the API did not return it
+ */
+export async function fillFootnotes(docs: Docs, documentId: string, footnotes: { footnoteId?: string | null; text: string }[]): Promise<void> {
+    if (footnotes.length === 0) return;
+    if (footnotes.some(footnote => !footnote.footnoteId)) {
+        throw new UserError("Google Docs did not return the new footnote's ID.");
+    }
+    const res = await docs.documents.get({ documentId, fields: 'footnotes' });
+    const requests: docs_v1.Schema$Request[] = footnotes.map(({ footnoteId, text }) => {
+        const content = res.data.footnotes?.[footnoteId!]?.content;
+        const index = (content?.[content.length - 1]?.endIndex ?? 1) - 1;
+        return { insertText: { location: { segmentId: footnoteId, index }, text } };
+    });
+    await executeBatchUpdate(docs, documentId, requests);
+}
+
+/**
+ * Builds the requests that create a header or footer. createHeader and createFooter only make the
+ * default ones; Google Docs adds the first page and even page variants when their document setting
+ * is turned on.
+ */
+export function buildCreateHeaderFooterRequests(kind: HeaderFooterKind, variant: HeaderFooterVariant): docs_v1.Schema$Request[] {
+    const setting = HEADER_FOOTER_VARIANT_SETTINGS[variant];
+    if (setting) {
+        return [{ updateDocumentStyle: { documentStyle: { [setting]: true }, fields: setting } }];
+    }
+    return [kind === 'header' ? { createHeader: { type: 'DEFAULT' } } : { createFooter: { type: 'DEFAULT' } }];
+}
+
+/**
+ * Creates a header or footer, optionally with text.
+ * @returns The segment ID of the new header or footer
+ * @throws UserError if it already exists
+ */
+export async function createHeaderFooter(docs: Docs, documentId: string, kind: HeaderFooterKind, variant: HeaderFooterVariant, text?: string): Promise<string> {
+    const label = describeHeaderFooter(kind, variant);
+    const before = await docs.documents.get({ documentId, fields: 'documentStyle' });
+    const existing = getHeaderFooterId(before.data, kind, variant);
+    if (existing) {
+        throw new UserError(`The document already has a ${label} (ID: ${existing}). Use replaceHeaderFooterContent to change its text.`);
+    }
+
+    const result = await executeBatchUpdate(docs, documentId, buildCreateHeaderFooterRequests(kind, variant));
+    const reply = result.replies?.[0];
+    let segmentId = (kind === 'header' ? reply?.createHeader?.headerId : reply?.createFooter?.footerId) || undefined;
+    if (variant !== 'default') {
+        const after = await docs.documents.get({ documentId, fields: 'documentStyle' });
+        segmentId = getHeaderFooterId(after.data, kind, variant);
+    }
+    if (!segmentId) {
+        throw new UserError(`Google Docs did not create a ${label}.`);
+    }
+
+    if (text) {
+        await executeBatchUpdate(docs, documentId, [{ insertText: { location: { segmentId, index: 0 }, text } }]);
+    }
+    return segmentId;
+}
+
+/**
+ * Deletes a header or footer. Deleting a first page or even page variant leaves its document
+ * setting on, so those pages then have no header or footer at all.
+ * @returns The segment ID of the deleted header or footer
+ */
+export async function deleteHeaderFooter(docs: Docs, documentId: string, kind: HeaderFooterKind, variant: HeaderFooterVariant): Promise<string> {
+    const res = await docs.documents.get({ documentId, fields: 'documentStyle' });
+    const segmentId = getHeaderFooterId(res.data, kind, variant);
+    if (!segmentId) {
+        throw new UserError(`The document has no ${describeHeaderFooter(kind, variant)}.`);
+    }
+    await executeBatchUpdate(docs, documentId, [kind === 'header' ? { deleteHeader: { headerId: segmentId } } : { deleteFooter: { footerId: segmentId } }]);
+    return segmentId;
+}
+
+/**
+ * Builds the requests that replace all text of a header, footer or footnote segment. The final
+ * newline of a segment cannot be deleted, so the new text goes in front of it.
+ */
+export function buildReplaceSegmentTextRequests(segmentId: string, content: docs_v1.Schema$StructuralElement[] | undefined, text: string): docs_v1.Schema$Request[] {
+    const startIndex = content?.[0]?.startIndex ?? 0;
+    const endIndex = (content?.[content.length - 1]?.endIndex ?? startIndex + 1) - 1;
+    const requests: docs_v1.Schema$Request[] = [];
+    if (endIndex > startIndex) {
+        requests.push({ deleteContentRange: { range: { segmentId, startIndex, endIndex } } });
+    }
+    if (text) {
+        requests.push({ insertText: { location: { segmentId, index: startIndex }, text } });
+    }
+    return requests;
+}
+
+/**
+ * Parses a date given by the user. A plain YYYY-MM-DD date is that day in local time; Date would
+ * read it as UTC midnight, which is the day before in time zones west of UTC.
+ * @throws UserError if the text is not a date
+ */
+export function parseDateText(text: string): Date {
+    const ymd = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const date = ymd ? new Date(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])) : new Date(text);
+    if (Number.isNaN(date.getTime())) {
+        throw new UserError(`Invalid date: ${text}`);
+    }
+    return date;
+}
+
+/** Formats a date for insertion as text: ISO (2024-03-05), short (3/5/2024) or long (March 5, 2024). */
+export function formatDateText(date: Date, format: 'iso' | 'short' | 'long'): string {
+    if (format === 'iso') {
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    }
+    return date.toLocaleDateString('en-US', format === 'long' ? { year: 'numeric', month: 'long', day: 'numeric' } : undefined);
+}
+
 // --- Paragraph Boundary Helper ---
 // Enhanced version to handle document structural elements more robustly
 export async function getParagraphRange(docs: Docs, documentId: string, indexWithin: number): Promise<{ startIndex: number; endIndex: number } | null> {
@@ -250,12 +1008,743 @@ try {
     
     return paragraphRange;
 
-} catch (error: any) {
-    console.error(`Error getting paragraph range for index ${indexWithin} in doc ${documentId}: ${error.message || 'Unknown error'}`);
-    if (error.code === 404) throw new UserError(`Document not found while finding paragraph (ID: ${documentId}).`);
-    if (error.code === 403) throw new UserError(`Permission denied while accessing doc ${documentId}.`);
-    throw new Error(`Failed to find paragraph: ${error.message || 'Unknown error'}`);
+} catch (error: any) {
+    console.error(`Error getting paragraph range for index ${indexWithin} in doc ${documentId}: ${error.message || 'Unknown error'}`);
+    if (error.code === 404) throw new UserError(`Document not found while finding paragraph (ID: ${documentId}).`);
+    if (error.code === 403) throw new UserError(`Permission denied while accessing doc ${documentId}.`);
+    throw new Error(`Failed to find paragraph: ${error.message || 'Unknown error'}`);
+}
+}
+
+/**
+ * Resolves a ParagraphTarget (range, text to find, index within a paragraph, or named range) to a document range.
+ * Text and index targets expand to the boundaries of the containing paragraph; a named range spans
+ * from its start to its end, so every paragraph it overlaps is targeted; ranges are returned as given.
+ */
+export async function resolveParagraphTarget(docs: Docs, documentId: string, target: ParagraphTarget): Promise<{ startIndex: number; endIndex: number }> {
+    if ('textToFind' in target) {
+        console.log(`Finding text "${target.textToFind}" (instance ${target.matchInstance || 1})`);
+        const [textRange] = await resolveTextFindTargets(docs, documentId, target);
+        const paragraphRange = await getParagraphRange(docs, documentId, textRange.startIndex);
+        if (!paragraphRange) {
+            throw new UserError(`Found the text but could not determine the paragraph boundaries.`);
+        }
+        return paragraphRange;
+    }
+
+    if ('indexWithinParagraph' in target) {
+        const paragraphRange = await getParagraphRange(docs, documentId, target.indexWithinParagraph);
+        if (!paragraphRange) {
+            throw new UserError(`Could not find paragraph containing index ${target.indexWithinParagraph}.`);
+        }
+        return paragraphRange;
+    }
+
+    if ('namedRange' in target) {
+        const ranges = await getNamedRangeBodyRanges(docs, documentId, target.namedRange);
+        return { startIndex: ranges[0].startIndex, endIndex: ranges[ranges.length - 1].endIndex };
+    }
+
+    if (target.endIndex <= target.startIndex) {
+        throw new UserError(`Invalid paragraph range: end index (${target.endIndex}) must be greater than start index (${target.startIndex}).`);
+    }
+    return { startIndex: target.startIndex, endIndex: target.endIndex };
+}
+
+// --- Table Helpers ---
+
+export interface LocatedTable {
+    element: docs_v1.Schema$StructuralElement; // The body element holding the table
+    table: docs_v1.Schema$Table;
+    tableNumber: number; // 1-based ordinal of the table in the body
+    startIndex: number;
+    endIndex: number;
+}
+
+export interface TableCellRange {
+    tableStartIndex: number;
+    rowIndex: number;
+    columnIndex: number;
+    startIndex: number; // Start of the first paragraph inside the cell
+    endIndex: number;   // End of the last paragraph inside the cell (includes its trailing newline)
+}
+
+// Fields needed to resolve any TableSelector (headings require paragraph styles and text)
+export const TABLE_LOOKUP_FIELDS = 'body(content(startIndex,endIndex,paragraph(paragraphStyle(namedStyleType),elements(textRun(content))),table))';
+
+/**
+ * Concatenates the text of all paragraphs in a list of structural elements (e.g. a table cell's content).
+ */
+export function extractTextFromContent(content: docs_v1.Schema$StructuralElement[] | undefined): string {
+    let text = '';
+    (content || []).forEach(element => {
+        element.paragraph?.elements?.forEach(pe => {
+            if (pe.textRun?.content) text += pe.textRun.content;
+        });
+    });
+    return text;
+}
+
+function isHeadingParagraph(paragraph: docs_v1.Schema$Paragraph): boolean {
+    const styleType = paragraph.paragraphStyle?.namedStyleType || '';
+    return styleType.startsWith('HEADING_') || styleType === 'TITLE' || styleType === 'SUBTITLE';
+}
+
+export function describeTableSelector(selector: TableSelector): string {
+    if ('tableStartIndex' in selector) return `table starting at index ${selector.tableStartIndex}`;
+    if ('tableNumber' in selector) return `table #${selector.tableNumber}`;
+    if ('afterHeading' in selector) return `table after heading "${selector.afterHeading}"`;
+    return `table with header text "${selector.headerText}"`;
+}
+
+/**
+ * Finds a table in the document body using a TableSelector.
+ * @param content - The body.content array of the document
+ * @param selector - Start index, ordinal, preceding heading text, or header row text
+ * @returns The located table with its ordinal and indices
+ */
+export function findTable(content: docs_v1.Schema$StructuralElement[], selector: TableSelector): LocatedTable {
+    const tables: LocatedTable[] = [];
+    let match: LocatedTable | undefined;
+    let headingSeen = false;
+
+    for (const element of content) {
+        if (element.paragraph && 'afterHeading' in selector && !headingSeen && isHeadingParagraph(element.paragraph)) {
+            const headingText = extractTextFromContent([element]).trim().toLowerCase();
+            headingSeen = headingText.includes(selector.afterHeading.trim().toLowerCase());
+            continue;
+        }
+        if (!element.table || element.startIndex == null || element.endIndex == null) continue;
+
+        const located: LocatedTable = {
+            element,
+            table: element.table,
+            tableNumber: tables.length + 1,
+            startIndex: element.startIndex,
+            endIndex: element.endIndex,
+        };
+        tables.push(located);
+
+        if ('tableStartIndex' in selector && located.startIndex === selector.tableStartIndex) match = located;
+        else if ('tableNumber' in selector && located.tableNumber === selector.tableNumber) match = located;
+        else if ('afterHeading' in selector && headingSeen) match = located;
+        else if ('headerText' in selector) {
+            const wanted = selector.headerText.trim().toLowerCase();
+            const headerCells = element.table.tableRows?.[0]?.tableCells || [];
+            if (headerCells.some(cell => extractTextFromContent(cell.content).toLowerCase().includes(wanted))) match = located;
+        }
+        if (match) return match;
+    }
+
+    const tableStarts = tables.map(t => t.startIndex);
+    throw new UserError(`Could not find ${describeTableSelector(selector)}. The document has ${tables.length} table(s)${tableStarts.length > 0 ? `, starting at: ${tableStarts.join(', ')}` : ''}.`);
+}
+
+/**
+ * Locates a table cell and returns the range of its content.
+ * Walks table.tableRows[].tableCells[] to resolve the indices.
+ * @param content - The body.content array of the document
+ * @param selector - Which table to look in
+ * @param rowIndex - Row index (0-based)
+ * @param columnIndex - Column index (0-based)
+ * @returns The cell's content range
+ */
+export function findTableCellRange(
+    content: docs_v1.Schema$StructuralElement[],
+    selector: TableSelector,
+    rowIndex: number,
+    columnIndex: number
+): TableCellRange {
+    const located = findTable(content, selector);
+
+    const rows = located.table.tableRows || [];
+    const row = rows[rowIndex];
+    if (!row) {
+        throw new UserError(`Row index ${rowIndex} is out of range. The table has ${rows.length} row(s).`);
+    }
+
+    const cells = row.tableCells || [];
+    const cell = cells[columnIndex];
+    if (!cell) {
+        throw new UserError(`Column index ${columnIndex} is out of range. Row ${rowIndex} has ${cells.length} cell(s).`);
+    }
+
+    const cellContent = cell.content || [];
+    const firstElement = cellContent[0];
+    const lastElement = cellContent[cellContent.length - 1];
+    if (firstElement?.startIndex == null || lastElement?.endIndex == null) {
+        throw new Error(`Could not determine content range for cell (${rowIndex}, ${columnIndex}).`);
+    }
+
+    return {
+        tableStartIndex: located.startIndex,
+        rowIndex,
+        columnIndex,
+        startIndex: firstElement.startIndex,
+        endIndex: lastElement.endIndex,
+    };
+}
+
+/**
+ * Returns every top-level table in the document body, in document order.
+ */
+export function listTables(content: docs_v1.Schema$StructuralElement[]): LocatedTable[] {
+    const tables: LocatedTable[] = [];
+    content.forEach(element => {
+        if (!element.table || element.startIndex == null || element.endIndex == null) return;
+        tables.push({
+            element,
+            table: element.table,
+            tableNumber: tables.length + 1,
+            startIndex: element.startIndex,
+            endIndex: element.endIndex,
+        });
+    });
+    return tables;
+}
+
+export interface TableCellData {
+    text: string; // Paragraphs joined with \n, without the cell's trailing newline
+    startIndex: number;
+    endIndex: number;
+    rowSpan: number;
+    columnSpan: number;
+}
+
+export interface TableData {
+    tableNumber: number;
+    startIndex: number;
+    endIndex: number;
+    rows: number;
+    columns: number;
+    cells: TableCellData[][];
+}
+
+/**
+ * Converts a located table into rows of cells with their text and content ranges.
+ */
+export function extractTableData(located: LocatedTable): TableData {
+    const cells = (located.table.tableRows || []).map(row =>
+        (row.tableCells || []).map(cell => {
+            const cellContent = cell.content || [];
+            return {
+                text: extractTextFromContent(cellContent).replace(/\n$/, ''),
+                startIndex: cellContent[0]?.startIndex ?? cell.startIndex ?? 0,
+                endIndex: cellContent[cellContent.length - 1]?.endIndex ?? cell.endIndex ?? 0,
+                rowSpan: cell.tableCellStyle?.rowSpan ?? 1,
+                columnSpan: cell.tableCellStyle?.columnSpan ?? 1,
+            };
+        })
+    );
+    return {
+        tableNumber: located.tableNumber,
+        startIndex: located.startIndex,
+        endIndex: located.endIndex,
+        rows: located.table.rows ?? cells.length,
+        columns: located.table.columns ?? Math.max(0, ...cells.map(row => row.length)),
+        cells,
+    };
+}
+
+/**
+ * Serializes rows of cell text as CSV, quoting fields that contain commas, quotes or newlines.
+ */
+export function toCsv(rows: string[][]): string {
+    return rows.map(row => row.map(field =>
+        /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+    ).join(',')).join('\n');
+}
+
+/**
+ * Builds the TableCellLocation used by the table structure requests (insertTableRow, mergeTableCells, etc.).
+ * Validates the row and column against the table's current dimensions.
+ * @param located - The table as returned by findTable/getTable
+ * @param rowIndex - Row index (0-based)
+ * @param columnIndex - Column index (0-based)
+ */
+export function buildTableCellLocation(located: LocatedTable, rowIndex: number, columnIndex: number): docs_v1.Schema$TableCellLocation {
+    const rows = located.table.rows ?? located.table.tableRows?.length ?? 0;
+    const columns = located.table.columns ?? located.table.tableRows?.[0]?.tableCells?.length ?? 0;
+    if (rowIndex < 0 || rowIndex >= rows) {
+        throw new UserError(`Row index ${rowIndex} is out of range. The table has ${rows} row(s).`);
+    }
+    if (columnIndex < 0 || columnIndex >= columns) {
+        throw new UserError(`Column index ${columnIndex} is out of range. The table has ${columns} column(s).`);
+    }
+    return {
+        tableStartLocation: { index: located.startIndex },
+        rowIndex,
+        columnIndex,
+    };
+}
+
+/**
+ * Fetches the document and locates a table using a TableSelector.
+ * @param docs - Google Docs API client
+ * @param documentId - The document ID
+ * @param selector - Which table to find
+ * @returns The located table
+ */
+export async function getTable(docs: Docs, documentId: string, selector: TableSelector): Promise<LocatedTable> {
+try {
+    const res = await docs.documents.get({ documentId, fields: TABLE_LOOKUP_FIELDS });
+    return findTable(res.data.body?.content || [], selector);
+} catch (error: any) {
+    if (error instanceof UserError) throw error;
+    console.error(`Error locating ${describeTableSelector(selector)} in doc ${documentId}: ${error.message || 'Unknown error'}`);
+    if (error.code === 404) throw new UserError(`Document not found while locating table (ID: ${documentId}).`);
+    if (error.code === 403) throw new UserError(`Permission denied while accessing doc ${documentId}.`);
+    throw new Error(`Failed to locate table: ${error.message || 'Unknown error'}`);
+}
+}
+
+/**
+ * Fetches the document and resolves the content range of a table cell.
+ * @param docs - Google Docs API client
+ * @param documentId - The document ID
+ * @param selector - Which table to look in
+ * @param rowIndex - Row index (0-based)
+ * @param columnIndex - Column index (0-based)
+ * @returns The cell's content range
+ */
+export async function getTableCellRange(
+    docs: Docs,
+    documentId: string,
+    selector: TableSelector,
+    rowIndex: number,
+    columnIndex: number
+): Promise<TableCellRange> {
+try {
+    const res = await docs.documents.get({ documentId, fields: TABLE_LOOKUP_FIELDS });
+    return findTableCellRange(res.data.body?.content || [], selector, rowIndex, columnIndex);
+} catch (error: any) {
+    if (error instanceof UserError) throw error;
+    console.error(`Error locating table cell (${rowIndex}, ${columnIndex}) in doc ${documentId}: ${error.message || 'Unknown error'}`);
+    if (error.code === 404) throw new UserError(`Document not found while locating table cell (ID: ${documentId}).`);
+    if (error.code === 403) throw new UserError(`Permission denied while accessing doc ${documentId}.`);
+    throw new Error(`Failed to locate table cell: ${error.message || 'Unknown error'}`);
+}
+}
+
+/**
+ * Parses CSV text into rows of cell strings. Supports quoted fields with embedded commas,
+ * newlines and doubled quotes ("").
+ */
+export function parseCsv(csv: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < csv.length; i++) {
+        const char = csv[i];
+        if (inQuotes) {
+            if (char === '"' && csv[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field); field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && csv[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            rows.push(row); row = [];
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    if (inQuotes) {
+        throw new UserError("Invalid CSV: unterminated quoted field.");
+    }
+    return rows;
+}
+
+/**
+ * Builds the requests that fill an (empty) table with data. Cells are processed in
+ * descending index order so each insertion leaves the indices of the remaining cells valid.
+ * @param table - The table as returned by documents.get
+ * @param data - Cell text by row and column; missing cells are left empty
+ * @param boldHeaderRow - If true, bolds the text of the first row
+ * @returns The insertText/updateTextStyle requests
+ */
+export function buildTableFillRequests(table: docs_v1.Schema$Table, data: string[][], boldHeaderRow: boolean = false): docs_v1.Schema$Request[] {
+    const cells: { index: number; text: string; bold: boolean }[] = [];
+    (table.tableRows || []).forEach((row, rowIndex) => {
+        (row.tableCells || []).forEach((cell, columnIndex) => {
+            const text = data[rowIndex]?.[columnIndex];
+            const index = cell.content?.[0]?.startIndex;
+            if (!text || index == null) return;
+            cells.push({ index, text, bold: boldHeaderRow && rowIndex === 0 });
+        });
+    });
+
+    const requests: docs_v1.Schema$Request[] = [];
+    cells.sort((a, b) => b.index - a.index).forEach(cell => {
+        requests.push({ insertText: { location: { index: cell.index }, text: cell.text } });
+        if (cell.bold) {
+            requests.push(buildUpdateTextStyleRequest(cell.index, cell.index + cell.text.length, { bold: true })!.request);
+        }
+    });
+    return requests;
+}
+
+// --- Outline Helpers ---
+
+export const OUTLINE_FIELDS = 'revisionId,body(content(startIndex,endIndex,paragraph(paragraphStyle(namedStyleType,headingId),bullet(listId),elements(startIndex,endIndex,textRun(content),inlineObjectElement(inlineObjectId))),table))';
+
+export interface OutlineNode {
+    level: string; // TITLE or HEADING_1..HEADING_6
+    text: string;
+    headingId?: string;
+    startIndex: number;
+    endIndex: number;
+    sectionEndIndex: number; // Exclusive end of the section: the next heading of equal or higher level, or the end of the body
+    counts: { paragraphs: number; tables: number; images: number; lists: number }; // Within the whole section, subsections included
+    children: OutlineNode[];
+}
+
+/**
+ * Returns the outline rank of a named paragraph style: 0 for TITLE, 1-6 for HEADING_1..HEADING_6,
+ * or null for body text (SUBTITLE is treated as body text, as it does not open a section).
+ */
+export function getHeadingRank(namedStyleType: string | null | undefined): number | null {
+    if (namedStyleType === 'TITLE') return 0;
+    const match = namedStyleType?.match(/^HEADING_([1-6])$/);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+function countSectionContent(content: docs_v1.Schema$StructuralElement[]): OutlineNode['counts'] {
+    const counts = { paragraphs: 0, tables: 0, images: 0 };
+    const listIds = new Set<string>();
+    const visit = (elements: docs_v1.Schema$StructuralElement[] | undefined) => {
+        (elements || []).forEach(element => {
+            if (element.paragraph) {
+                const text = element.paragraph.elements?.map(pe => pe.textRun?.content || '').join('') || '';
+                if (text.trim()) counts.paragraphs++;
+                counts.images += element.paragraph.elements?.filter(pe => pe.inlineObjectElement).length || 0;
+                if (element.paragraph.bullet?.listId) listIds.add(element.paragraph.bullet.listId);
+            } else if (element.table) {
+                counts.tables++;
+                element.table.tableRows?.forEach(row => row.tableCells?.forEach(cell => visit(cell.content)));
+            }
+        });
+    };
+    visit(content);
+    return { ...counts, lists: listIds.size };
+}
+
+/**
+ * Builds the heading tree of a document body. Each node's section runs up to the next heading of
+ * equal or higher level; counts cover that whole span, heading paragraph excluded.
+ * @param content - The body.content array, fetched with at least OUTLINE_FIELDS
+ */
+export function buildDocumentOutline(content: docs_v1.Schema$StructuralElement[]): OutlineNode[] {
+    const bodyEndIndex = content[content.length - 1]?.endIndex ?? 1;
+    const headings: { node: OutlineNode; rank: number; position: number }[] = [];
+
+    content.forEach((element, position) => {
+        const rank = getHeadingRank(element.paragraph?.paragraphStyle?.namedStyleType);
+        if (rank === null || element.startIndex == null || element.endIndex == null) return;
+        headings.push({
+            rank,
+            position,
+            node: {
+                level: element.paragraph!.paragraphStyle!.namedStyleType!,
+                text: extractTextFromContent([element]).trim(),
+                headingId: element.paragraph!.paragraphStyle!.headingId || undefined,
+                startIndex: element.startIndex,
+                endIndex: element.endIndex,
+                sectionEndIndex: bodyEndIndex,
+                counts: { paragraphs: 0, tables: 0, images: 0, lists: 0 },
+                children: [],
+            },
+        });
+    });
+
+    const roots: OutlineNode[] = [];
+    const stack: typeof headings = [];
+    headings.forEach((heading, i) => {
+        const next = headings.slice(i + 1).find(other => other.rank <= heading.rank);
+        const endPosition = next ? next.position : content.length;
+        if (next) heading.node.sectionEndIndex = next.node.startIndex;
+        heading.node.counts = countSectionContent(content.slice(heading.position + 1, endPosition));
+
+        while (stack.length > 0 && stack[stack.length - 1].rank >= heading.rank) stack.pop();
+        if (stack.length > 0) stack[stack.length - 1].node.children.push(heading.node);
+        else roots.push(heading.node);
+        stack.push(heading);
+    });
+    return roots;
+}
+
+// --- Section Helpers ---
+
+export interface LocatedSection {
+    heading: OutlineNode;
+    startIndex: number; // Start of the heading paragraph
+    contentStartIndex: number; // First index after the heading paragraph
+    endIndex: number; // Exclusive end: the next heading of equal or higher level, or the end of the body
+    bodyEndIndex: number;
+}
+
+/** Lists every heading of an outline in document order. */
+export function flattenOutline(nodes: OutlineNode[]): OutlineNode[] {
+    return nodes.flatMap(node => [node, ...flattenOutline(node.children)]);
+}
+
+/**
+ * Finds a section by the text of its heading. Occurrences are searched for in `content`, so the
+ * match is exact; occurrences outside heading paragraphs are skipped and `matchInstance` counts
+ * matching headings, not occurrences.
+ * @param content - The body.content array, fetched with at least OUTLINE_FIELDS
+ */
+export function findSection(content: docs_v1.Schema$StructuralElement[], target: SectionTarget): LocatedSection {
+    const headings = flattenOutline(buildDocumentOutline(content));
+    const bodyEndIndex = content[content.length - 1]?.endIndex ?? 1;
+    const matchInstance = target.matchInstance || 1;
+    const matched = new Set<number>();
+
+    for (const textRange of searchContentText(content, target.headingText)) {
+        const heading = headings.find(h => textRange.startIndex >= h.startIndex && textRange.startIndex < h.endIndex);
+        if (!heading || matched.has(heading.startIndex)) continue;
+        matched.add(heading.startIndex);
+        if (matched.size === matchInstance) {
+            return { heading, startIndex: heading.startIndex, contentStartIndex: heading.endIndex, endIndex: heading.sectionEndIndex, bodyEndIndex };
+        }
+    }
+
+    const instanceText = matchInstance > 1 ? ` (match ${matchInstance}; found ${matched.size})` : '';
+    throw new UserError(`Could not find a heading containing "${target.headingText}"${instanceText}.`);
+}
+
+/**
+ * Builds the requests that delete whole paragraphs from startIndex up to endIndex.
+ * The final newline of the body cannot be deleted, so a span reaching the end of the body stops
+ * one short of it and the empty paragraph left behind is reset to plain, unbulleted text.
+ */
+export function buildSpanDeleteRequests(startIndex: number, endIndex: number, bodyEndIndex: number): docs_v1.Schema$Request[] {
+    if (endIndex < bodyEndIndex) {
+        return endIndex > startIndex ? [{ deleteContentRange: { range: { startIndex, endIndex } } }] : [];
+    }
+    const requests: docs_v1.Schema$Request[] = [];
+    if (bodyEndIndex - 1 > startIndex) {
+        requests.push({ deleteContentRange: { range: { startIndex, endIndex: bodyEndIndex - 1 } } });
+    }
+    const remaining = { startIndex, endIndex: startIndex + 1 };
+    requests.push(
+        { updateParagraphStyle: { range: remaining, paragraphStyle: { namedStyleType: 'NORMAL_TEXT' }, fields: 'namedStyleType' } },
+        { deleteParagraphBullets: { range: remaining } },
+    );
+    return requests;
+}
+
+/**
+ * Prepares an insertion point after the last paragraph of the body. Unless the body already ends
+ * with an empty paragraph, a newline is added so existing text keeps its own paragraph; the new
+ * empty paragraph is reset to plain, unbulleted text so it does not inherit a heading or list.
+ * @returns The preparatory requests and the index at which to insert content
+ */
+export function buildAppendPointRequests(content: docs_v1.Schema$StructuralElement[]): { requests: docs_v1.Schema$Request[]; insertAt: number } {
+    const lastElement = content[content.length - 1];
+    const endIndex = lastElement?.endIndex ?? 2;
+    if (lastElement?.startIndex == null || endIndex - lastElement.startIndex <= 1) {
+        return { requests: [], insertAt: endIndex - 1 };
+    }
+    return {
+        requests: [
+            { insertText: { location: { index: endIndex - 1 }, text: '\n' } },
+            { updateParagraphStyle: { range: { startIndex: endIndex, endIndex: endIndex + 1 }, paragraphStyle: { namedStyleType: 'NORMAL_TEXT' }, fields: 'namedStyleType' } },
+            { deleteParagraphBullets: { range: { startIndex: endIndex, endIndex: endIndex + 1 } } },
+        ],
+        insertAt: endIndex,
+    };
+}
+
+// --- Element Query Helpers ---
+
+export type ElementType = 'paragraph' | 'heading' | 'list' | 'table' | 'image';
+
+export interface ElementMatch {
+    type: ElementType;
+    startIndex: number;
+    endIndex: number;
+    namedStyleType?: string;
+    listId?: string;
+    nestingLevel?: number;
+    inTable?: boolean;
+    match?: { startIndex: number; endIndex: number; text: string }; // First text or regex match, in document indices
+    snippet: string;
+}
+
+const SNIPPET_LENGTH = 80;
+
+/** Converts an API color to lowercase #rrggbb, or undefined when unset. */
+export function colorToHex(color: docs_v1.Schema$OptionalColor | undefined): string | undefined {
+    const rgb = color?.color?.rgbColor;
+    if (!rgb) return undefined;
+    return '#' + [rgb.red, rgb.green, rgb.blue].map(c => Math.round((c || 0) * 255).toString(16).padStart(2, '0')).join('');
+}
+
+function textStyleMatches(textStyle: docs_v1.Schema$TextStyle | undefined, criteria: NonNullable<ElementQuery['textStyle']>): boolean {
+    const style = textStyle || {};
+    const sameColor = (actual: docs_v1.Schema$OptionalColor | undefined, wanted: string) =>
+        colorToHex(actual) === colorToHex({ color: { rgbColor: hexToRgbColor(wanted) || undefined } });
+
+    if (criteria.bold !== undefined && !!style.bold !== criteria.bold) return false;
+    if (criteria.italic !== undefined && !!style.italic !== criteria.italic) return false;
+    if (criteria.underline !== undefined && !!style.underline !== criteria.underline) return false;
+    if (criteria.strikethrough !== undefined && !!style.strikethrough !== criteria.strikethrough) return false;
+    if (criteria.fontSize !== undefined && style.fontSize?.magnitude !== criteria.fontSize) return false;
+    if (criteria.fontFamily !== undefined && style.weightedFontFamily?.fontFamily?.toLowerCase() !== criteria.fontFamily.toLowerCase()) return false;
+    if (criteria.foregroundColor !== undefined && !sameColor(style.foregroundColor, criteria.foregroundColor)) return false;
+    if (criteria.backgroundColor !== undefined && !sameColor(style.backgroundColor, criteria.backgroundColor)) return false;
+    return true;
+}
+
+function buildSnippet(text: string, offset = 0, length = 0): string {
+    const flat = text.replace(/\s+/g, ' ');
+    if (flat.trim().length <= SNIPPET_LENGTH) return flat.trim();
+    const start = Math.max(0, Math.min(offset - Math.floor((SNIPPET_LENGTH - length) / 2), flat.length - SNIPPET_LENGTH));
+    return `${start > 0 ? '…' : ''}${flat.slice(start, start + SNIPPET_LENGTH).trim()}${start + SNIPPET_LENGTH < flat.length ? '…' : ''}`;
+}
+
+interface QueryCandidate {
+    type: ElementType;
+    startIndex: number;
+    endIndex: number;
+    text: string;
+    // Document index of each character of `text`, for mapping matches back to the document
+    indices: number[];
+    styledRuns: (docs_v1.Schema$TextStyle | undefined)[];
+    paragraph?: docs_v1.Schema$Paragraph;
+    inTable: boolean;
+}
+
+function collectQueryCandidates(
+    content: docs_v1.Schema$StructuralElement[] | undefined,
+    doc: docs_v1.Schema$Document,
+    query: ElementQuery,
+    inTable: boolean,
+    candidates: QueryCandidate[]
+): QueryCandidate[] {
+    const elementType = query.elementType || 'paragraph';
+    (content || []).forEach(element => {
+        if (element.startIndex == null || element.endIndex == null) return;
+
+        if (element.table) {
+            const cellContents = (element.table.tableRows || []).flatMap(row => (row.tableCells || []).map(cell => cell.content || []));
+            if (elementType === 'table') {
+                const text: string[] = [];
+                const indices: number[] = [];
+                const styledRuns: QueryCandidate['styledRuns'] = [];
+                cellContents.flat().forEach(cellElement => {
+                    if (!cellElement.paragraph) return;
+                    const collected = collectParagraphText(cellElement.paragraph);
+                    text.push(collected.text);
+                    indices.push(...collected.indices);
+                    styledRuns.push(...collected.styledRuns);
+                });
+                candidates.push({ type: 'table', startIndex: element.startIndex, endIndex: element.endIndex, text: text.join(''), indices, styledRuns, inTable });
+            } else if (query.includeTableCells !== false) {
+                cellContents.forEach(cellContent => collectQueryCandidates(cellContent, doc, query, true, candidates));
+            }
+            return;
+        }
+
+        const paragraph = element.paragraph;
+        if (!paragraph) return;
+        if (elementType === 'image') {
+            paragraph.elements?.forEach(pe => {
+                if (!pe.inlineObjectElement || pe.startIndex == null) return;
+                const embedded = doc.inlineObjects?.[pe.inlineObjectElement.inlineObjectId || '']?.inlineObjectProperties?.embeddedObject;
+                const text = [embedded?.title, embedded?.description].filter(Boolean).join(' ');
+                candidates.push({
+                    type: 'image', startIndex: pe.startIndex, endIndex: pe.endIndex ?? pe.startIndex + 1, text,
+                    indices: [], styledRuns: [pe.inlineObjectElement.textStyle], paragraph, inTable,
+                });
+            });
+            return;
+        }
+
+        const isHeading = getHeadingRank(paragraph.paragraphStyle?.namedStyleType) !== null;
+        const type: ElementType = isHeading ? 'heading' : paragraph.bullet ? 'list' : 'paragraph';
+        if (elementType !== 'paragraph' && elementType !== type) return;
+        candidates.push({ type, startIndex: element.startIndex, endIndex: element.endIndex, ...collectParagraphText(paragraph), paragraph, inTable });
+    });
+    return candidates;
+}
+
+/**
+ * Finds the elements of a document that satisfy every criterion of a query, in document order.
+ * Text and regex criteria are matched against the element text (for images, their title and
+ * alt text); style criteria look at the containing paragraph's named style and the text runs.
+ * @param doc - The document, fetched with at least body and inlineObjects
+ */
+export function findElements(doc: docs_v1.Schema$Document, query: ElementQuery): ElementMatch[] {
+    const flags = query.caseSensitive ? '' : 'i';
+    const patterns = [
+        ...(query.text ? [new RegExp(escapeRegExp(query.text), flags)] : []),
+        ...(query.regex ? [new RegExp(query.regex, flags)] : []),
+    ];
+    const styleCriteria = query.textStyle && Object.values(query.textStyle).some(v => v !== undefined) ? query.textStyle : undefined;
+
+    const matches: ElementMatch[] = [];
+    collectQueryCandidates(doc.body?.content, doc, query, false, []).forEach(candidate => {
+        // Leave the paragraph's newline out of matching, so "$" anchors at the end of the text
+        const text = candidate.text.replace(/\n$/, '');
+        const found = patterns.map(pattern => pattern.exec(text));
+        if (found.some(result => result === null)) return;
+
+        const namedStyleType = candidate.paragraph?.paragraphStyle?.namedStyleType || undefined;
+        if (query.namedStyleTypes && !(namedStyleType && (query.namedStyleTypes as string[]).includes(namedStyleType))) return;
+
+        if (styleCriteria) {
+            const runs = candidate.styledRuns;
+            const styleOk = query.textStyleMatch === 'all'
+                ? runs.length > 0 && runs.every(run => textStyleMatches(run, styleCriteria))
+                : runs.some(run => textStyleMatches(run, styleCriteria));
+            if (!styleOk) return;
+        }
+
+        // With both text and regex criteria, report whichever match comes first in the element
+        const first = (found as RegExpExecArray[]).reduce<RegExpExecArray | null>((earliest, result) => earliest && earliest.index <= result.index ? earliest : result, null);
+        const result: ElementMatch = {
+            type: candidate.type,
+            startIndex: candidate.startIndex,
+            endIndex: candidate.endIndex,
+            snippet: buildSnippet(text, first?.index, first?.[0].length),
+        };
+        if (namedStyleType) result.namedStyleType = namedStyleType;
+        if (candidate.paragraph?.bullet) {
+            result.listId = candidate.paragraph.bullet.listId || undefined;
+            result.nestingLevel = candidate.paragraph.bullet.nestingLevel || 0;
+        }
+        if (candidate.inTable) result.inTable = true;
+        if (first && first[0].length > 0 && candidate.type !== 'image') {
+            const startIndex = candidate.indices[first.index];
+            result.match = { startIndex, endIndex: candidate.indices[first.index + first[0].length - 1] + 1, text: first[0] };
+        }
+        matches.push(result);
+    });
+    return matches;
 }
+
+/**
+ * Finds paragraphs by named style and character formatting, e.g. every HEADING_1..HEADING_3
+ * for a table of contents or every bold paragraph for consistent formatting.
+ */
+export async function findParagraphsMatchingStyle(
+docs: Docs,
+documentId: string,
+styleCriteria: Pick<ElementQuery, 'namedStyleTypes' | 'textStyle' | 'textStyleMatch' | 'includeTableCells'>
+): Promise<ElementMatch[]> {
+    const res = await docs.documents.get({ documentId, fields: 'body,inlineObjects' });
+    return findElements(res.data, { ...styleCriteria, elementType: 'paragraph', caseSensitive: false });
 }
 
 // --- Style Request Builders ---
@@ -360,6 +1849,63 @@ style: ParagraphStyleArgs
         console.log(`Setting keepWithNext to ${style.keepWithNext}`);
     }
 
+    if (style.keepLinesTogether !== undefined) {
+        paragraphStyle.keepLinesTogether = style.keepLinesTogether;
+        fieldsToUpdate.push('keepLinesTogether');
+        console.log(`Setting keepLinesTogether to ${style.keepLinesTogether}`);
+    }
+
+    if (style.avoidWidowAndOrphan !== undefined) {
+        paragraphStyle.avoidWidowAndOrphan = style.avoidWidowAndOrphan;
+        fieldsToUpdate.push('avoidWidowAndOrphan');
+        console.log(`Setting avoidWidowAndOrphan to ${style.avoidWidowAndOrphan}`);
+    }
+
+    // Process line spacing, first-line indent and direction
+    if (style.lineSpacing !== undefined) {
+        paragraphStyle.lineSpacing = style.lineSpacing;
+        fieldsToUpdate.push('lineSpacing');
+        console.log(`Setting line spacing to ${style.lineSpacing}%`);
+    }
+
+    if (style.indentFirstLine !== undefined) {
+        paragraphStyle.indentFirstLine = { magnitude: style.indentFirstLine, unit: 'PT' };
+        fieldsToUpdate.push('indentFirstLine');
+        console.log(`Setting first line indent to ${style.indentFirstLine}pt`);
+    }
+
+    if (style.direction !== undefined) {
+        paragraphStyle.direction = style.direction;
+        fieldsToUpdate.push('direction');
+        console.log(`Setting direction to ${style.direction}`);
+    }
+
+    // Process shading and borders
+    if (style.shadingColor !== undefined) {
+        const rgbColor = hexToRgbColor(style.shadingColor);
+        if (!rgbColor) throw new UserError(`Invalid shading hex color format: ${style.shadingColor}`);
+        paragraphStyle.shading = { backgroundColor: { color: { rgbColor } } };
+        fieldsToUpdate.push('shading.backgroundColor');
+        console.log(`Setting shading to ${style.shadingColor}`);
+    }
+
+    const borderFields = ['borderTop', 'borderBottom', 'borderLeft', 'borderRight', 'borderBetween'] as const;
+    borderFields.forEach(field => {
+        const border = style[field];
+        if (border === undefined) return;
+        // A border is replaced as a whole, so fill in defaults for whatever was not specified
+        const rgbColor = hexToRgbColor(border.color ?? '#000000');
+        if (!rgbColor) throw new UserError(`Invalid ${field} hex color format: ${border.color}`);
+        paragraphStyle[field] = {
+            color: { color: { rgbColor } },
+            width: { magnitude: border.width ?? 1, unit: 'PT' },
+            dashStyle: border.dashStyle ?? 'SOLID',
+            padding: { magnitude: border.padding ?? 1, unit: 'PT' },
+        };
+        fieldsToUpdate.push(field);
+        console.log(`Setting ${field} to ${JSON.stringify(border)}`);
+    });
+
     // Verify we have styles to apply
     if (fieldsToUpdate.length === 0) {
         console.warn("No paragraph styling options were provided");
@@ -379,6 +1925,201 @@ style: ParagraphStyleArgs
     return { request, fields: fieldsToUpdate };
 }
 
+export interface TableCellSpan {
+    rowIndex: number;
+    columnIndex: number;
+    rowSpan: number;
+    columnSpan: number;
+}
+
+/**
+ * Builds an updateTableCellStyle request.
+ * @param tableStartIndex - Start index of the table element
+ * @param span - The cells to style, or null to style every cell in the table
+ * @param style - The cell styling to apply
+ */
+export function buildUpdateTableCellStyleRequest(
+tableStartIndex: number,
+span: TableCellSpan | null,
+style: TableCellStyleArgs
+): { request: docs_v1.Schema$Request, fields: string[] } | null {
+    const tableCellStyle: docs_v1.Schema$TableCellStyle = {};
+    const fieldsToUpdate: string[] = [];
+
+    if (style.backgroundColor !== undefined) {
+        const rgbColor = hexToRgbColor(style.backgroundColor);
+        if (!rgbColor) throw new UserError(`Invalid cell background hex color format: ${style.backgroundColor}`);
+        tableCellStyle.backgroundColor = { color: { rgbColor } }; fieldsToUpdate.push('backgroundColor');
+    }
+
+    // A border is replaced as a whole, so fill in defaults for whatever was not specified
+    if (style.borderColor !== undefined || style.borderWidth !== undefined || style.borderDashStyle !== undefined) {
+        const rgbColor = hexToRgbColor(style.borderColor ?? '#000000');
+        if (!rgbColor) throw new UserError(`Invalid border hex color format: ${style.borderColor}`);
+        const border: docs_v1.Schema$TableCellBorder = {
+            color: { color: { rgbColor } },
+            width: { magnitude: style.borderWidth ?? 1, unit: 'PT' },
+            dashStyle: style.borderDashStyle ?? 'SOLID',
+        };
+        const borderFields = { top: 'borderTop', bottom: 'borderBottom', left: 'borderLeft', right: 'borderRight' } as const;
+        (style.borders ?? ['top', 'bottom', 'left', 'right']).forEach(side => {
+            tableCellStyle[borderFields[side]] = border;
+            fieldsToUpdate.push(borderFields[side]);
+        });
+    }
+
+    if (style.padding !== undefined) {
+        const padding = { magnitude: style.padding, unit: 'PT' };
+        tableCellStyle.paddingTop = padding;
+        tableCellStyle.paddingBottom = padding;
+        tableCellStyle.paddingLeft = padding;
+        tableCellStyle.paddingRight = padding;
+        fieldsToUpdate.push('paddingTop', 'paddingBottom', 'paddingLeft', 'paddingRight');
+    }
+
+    if (style.contentAlignment !== undefined) {
+        tableCellStyle.contentAlignment = style.contentAlignment; fieldsToUpdate.push('contentAlignment');
+    }
+
+    if (fieldsToUpdate.length === 0) return null; // No styles to apply
+
+    const request: docs_v1.Schema$Request = {
+        updateTableCellStyle: {
+            tableCellStyle,
+            fields: fieldsToUpdate.join(','),
+            ...(span
+                ? { tableRange: { tableCellLocation: { tableStartLocation: { index: tableStartIndex }, rowIndex: span.rowIndex, columnIndex: span.columnIndex }, rowSpan: span.rowSpan, columnSpan: span.columnSpan } }
+                : { tableStartLocation: { index: tableStartIndex } }),
+        }
+    };
+    return { request, fields: fieldsToUpdate };
+}
+
+// --- Document & Section Style Helpers ---
+
+export type LengthUnit = 'pt' | 'cm' | 'mm' | 'in';
+
+const POINTS_PER_UNIT: Record<LengthUnit, number> = { pt: 1, in: 72, cm: 72 / 2.54, mm: 72 / 25.4 };
+
+// Portrait page sizes in points
+export const PAGE_SIZES: Record<NonNullable<DocumentStyleArgs['pageSize']>, { width: number; height: number }> = {
+    LETTER: { width: 612, height: 792 },
+    LEGAL: { width: 612, height: 1008 },
+    TABLOID: { width: 792, height: 1224 },
+    A3: { width: 841.89, height: 1190.55 },
+    A4: { width: 595.28, height: 841.89 },
+    A5: { width: 419.53, height: 595.28 },
+};
+
+/** Converts a length to points, rounded to hundredths. */
+export function toPoints(value: number, unit: LengthUnit = 'pt'): number {
+    return Math.round(value * POINTS_PER_UNIT[unit] * 100) / 100;
+}
+
+/** Copies the margin, header/footer and page numbering options shared by document and section styles. */
+function applyPageLayoutFields(
+    target: docs_v1.Schema$DocumentStyle & docs_v1.Schema$SectionStyle,
+    style: SectionStyleArgs | DocumentStyleArgs,
+    fields: string[]
+): void {
+    const margins = {
+        marginTop: style.marginTop ?? style.margins,
+        marginBottom: style.marginBottom ?? style.margins,
+        marginLeft: style.marginLeft ?? style.margins,
+        marginRight: style.marginRight ?? style.margins,
+        marginHeader: style.marginHeader,
+        marginFooter: style.marginFooter,
+    };
+    (Object.keys(margins) as (keyof typeof margins)[]).forEach(field => {
+        if (margins[field] === undefined) return;
+        target[field] = { magnitude: toPoints(margins[field]!, style.unit), unit: 'PT' };
+        fields.push(field);
+    });
+    if (style.useFirstPageHeaderFooter !== undefined) { target.useFirstPageHeaderFooter = style.useFirstPageHeaderFooter; fields.push('useFirstPageHeaderFooter'); }
+    if (style.pageNumberStart !== undefined) { target.pageNumberStart = style.pageNumberStart; fields.push('pageNumberStart'); }
+}
+
+/**
+ * Builds an updateDocumentStyle request for page size, orientation, margins, background and
+ * header/footer settings.
+ * @param currentPageSize - The document's page size in points, needed to turn it when only orientation is given
+ */
+export function buildUpdateDocumentStyleRequest(
+style: DocumentStyleArgs,
+currentPageSize?: { width: number; height: number }
+): { request: docs_v1.Schema$Request, fields: string[] } | null {
+    const documentStyle: docs_v1.Schema$DocumentStyle = {};
+    const fieldsToUpdate: string[] = [];
+
+    if (style.pageSize !== undefined || style.pageWidth !== undefined || style.pageHeight !== undefined || style.orientation !== undefined) {
+        const base = style.pageSize ? PAGE_SIZES[style.pageSize] : currentPageSize;
+        let width = style.pageWidth !== undefined ? toPoints(style.pageWidth, style.unit) : base?.width;
+        let height = style.pageHeight !== undefined ? toPoints(style.pageHeight, style.unit) : base?.height;
+        if (width === undefined || height === undefined) {
+            throw new UserError("Provide pageSize, or both pageWidth and pageHeight.");
+        }
+        if ((style.orientation === 'LANDSCAPE' && width < height) || (style.orientation === 'PORTRAIT' && width > height)) {
+            [width, height] = [height, width];
+        }
+        documentStyle.pageSize = { width: { magnitude: width, unit: 'PT' }, height: { magnitude: height, unit: 'PT' } };
+        fieldsToUpdate.push('pageSize');
+    }
+    applyPageLayoutFields(documentStyle, style, fieldsToUpdate);
+    if (style.useEvenPageHeaderFooter !== undefined) { documentStyle.useEvenPageHeaderFooter = style.useEvenPageHeaderFooter; fieldsToUpdate.push('useEvenPageHeaderFooter'); }
+    if (style.backgroundColor !== undefined) {
+        const rgbColor = hexToRgbColor(style.backgroundColor);
+        if (!rgbColor) throw new UserError(`Invalid background hex color format: ${style.backgroundColor}`);
+        documentStyle.background = { color: { color: { rgbColor } } }; fieldsToUpdate.push('background');
+    }
+
+    if (fieldsToUpdate.length === 0) return null; // No styles to apply
+
+    const request: docs_v1.Schema$Request = {
+        updateDocumentStyle: {
+            documentStyle,
+            fields: fieldsToUpdate.join(','),
+        }
+    };
+    return { request, fields: fieldsToUpdate };
+}
+
+/**
+ * Builds an updateSectionStyle request for columns, margins and header/footer settings.
+ * The style applies to every section overlapping the range.
+ */
+export function buildUpdateSectionStyleRequest(
+startIndex: number,
+endIndex: number,
+style: SectionStyleArgs
+): { request: docs_v1.Schema$Request, fields: string[] } | null {
+    const sectionStyle: docs_v1.Schema$SectionStyle = {};
+    const fieldsToUpdate: string[] = [];
+
+    if (style.columnCount !== undefined) {
+        // Each column but the last is followed by the spacing; Google Docs defaults to half an inch
+        const spacing = style.columnSpacing !== undefined ? toPoints(style.columnSpacing, style.unit) : 36;
+        sectionStyle.columnProperties = Array.from({ length: style.columnCount }, (_, i) =>
+            i < style.columnCount! - 1 ? { paddingEnd: { magnitude: spacing, unit: 'PT' } } : {});
+        fieldsToUpdate.push('columnProperties');
+    }
+    if (style.columnSeparator !== undefined) {
+        sectionStyle.columnSeparatorStyle = style.columnSeparator ? 'BETWEEN_EACH_COLUMN' : 'NONE';
+        fieldsToUpdate.push('columnSeparatorStyle');
+    }
+    applyPageLayoutFields(sectionStyle, style, fieldsToUpdate);
+
+    if (fieldsToUpdate.length === 0) return null; // No styles to apply
+
+    const request: docs_v1.Schema$Request = {
+        updateSectionStyle: {
+            range: { startIndex, endIndex },
+            sectionStyle,
+            fields: fieldsToUpdate.join(','),
+        }
+    };
+    return { request, fields: fieldsToUpdate };
+}
+
 // --- Specific Feature Helpers ---
 
 export async function createTable(docs: Docs, documentId: string, rows: number, columns: number, index: number): Promise<docs_v1.Schema$BatchUpdateDocumentResponse> {
@@ -395,6 +2136,63 @@ columns: columns,
 return executeBatchUpdate(docs, documentId, [request]);
 }
 
+/**
+ * Returns the index of a cell's empty paragraph in a freshly inserted table. After the table start
+ * and the first row start, each row adds 1 and each cell 2 (its start and its newline).
+ */
+export function getEmptyTableCellIndex(tableStartIndex: number, columns: number, rowIndex: number, columnIndex: number): number {
+    return tableStartIndex + 3 + rowIndex * (2 * columns + 1) + 2 * columnIndex;
+}
+
+/**
+ * Builds the requests that insert a table sized to fit the data and fill it. insertTable always puts
+ * a newline before the table, so the table starts at index + 1 and every cell index can be computed up front.
+ * @returns The requests and the start index and dimensions of the new table
+ */
+export function buildTableWithDataRequests(
+    data: string[][],
+    index: number,
+    boldHeaderRow: boolean = false
+): { requests: docs_v1.Schema$Request[]; tableStartIndex: number; rows: number; columns: number } {
+    const rows = data.length;
+    const columns = Math.max(0, ...data.map(row => row.length));
+    if (rows < 1 || columns < 1) {
+        throw new UserError("Table must have at least 1 row and 1 column.");
+    }
+    const tableStartIndex = index + 1;
+    const emptyTable: docs_v1.Schema$Table = {
+        tableRows: Array.from({ length: rows }, (_, r) => ({
+            tableCells: Array.from({ length: columns }, (_, c) => ({ content: [{ startIndex: getEmptyTableCellIndex(tableStartIndex, columns, r, c) }] })),
+        })),
+    };
+    const requests: docs_v1.Schema$Request[] = [
+        { insertTable: { location: { index }, rows, columns } },
+        ...buildTableFillRequests(emptyTable, data, boldHeaderRow),
+    ];
+    return { requests, tableStartIndex, rows, columns };
+}
+
+/**
+ * Inserts a table sized to fit the data and fills every cell in a single batch.
+ * @param docs - Google Docs API client
+ * @param documentId - The document ID
+ * @param data - Cell text by row and column (ragged rows are padded with empty cells)
+ * @param index - Position where the table should be inserted (1-based)
+ * @param boldHeaderRow - If true, bolds the first row
+ * @returns The start index and dimensions of the new table
+ */
+export async function createTableWithData(
+    docs: Docs,
+    documentId: string,
+    data: string[][],
+    index: number,
+    boldHeaderRow: boolean = false
+): Promise<{ tableStartIndex: number; rows: number; columns: number }> {
+    const { requests, ...table } = buildTableWithDataRequests(data, index, boldHeaderRow);
+    await executeBatchUpdate(docs, documentId, requests);
+    return table;
+}
+
 export async function insertText(docs: Docs, documentId: string, text: string, index: number): Promise<docs_v1.Schema$BatchUpdateDocumentResponse> {
     if (!text) return {}; // Nothing to insert
     const request: docs_v1.Schema$Request = {
@@ -408,19 +2206,157 @@ return executeBatchUpdate(docs, documentId, [request]);
 
 // --- Complex / Stubbed Helpers ---
 
-export async function findParagraphsMatchingStyle(
-docs: Docs,
-documentId: string,
-styleCriteria: any // Define a proper type for criteria (e.g., { fontFamily: 'Arial', bold: true })
-): Promise<{ startIndex: number; endIndex: number }[]> {
-// TODO: Implement logic
-// 1. Get document content with paragraph elements and their styles.
-// 2. Iterate through paragraphs.
-// 3. For each paragraph, check if its computed style matches the criteria.
-// 4. Return ranges of matching paragraphs.
-console.warn("findParagraphsMatchingStyle is not implemented.");
-throw new NotImplementedError("Finding paragraphs by style criteria is not yet implemented.");
-// return [];
+// A well-formed roman numeral in lower case, so words like "mid." or "civil." are not taken for markers
+const ROMAN_NUMERAL_SOURCE = '(?=[ivxlcdm])m{0,3}(?:cm|cd|d?c{0,3})(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})';
+
+// Matches a leading list marker: bullets (-, *, +, •, ◦, ▪), numbers (1. 1)), letters (a. a)), roman numerals (iv. IV.) and (a)
+const LIST_MARKER_REGEX = new RegExp(`^([ \\t]*)(?:([-*+•◦▪‣])|(\\d{1,3}[.)]|[a-zA-Z][.)]|(?:${ROMAN_NUMERAL_SOURCE}|${ROMAN_NUMERAL_SOURCE.toUpperCase()})[.)]|\\([a-zA-Z0-9]{1,3}\\)))[ \\t]+`);
+
+export interface DetectedListRun {
+    startIndex: number;
+    endIndex: number;
+    numbered: boolean;
+    bulletPreset?: BulletPreset; // Overrides the default preset chosen from `numbered`
+    items: { startIndex: number; prefixLength: number; nestingLevel: number }[];
+}
+
+/**
+ * Finds runs of consecutive top-level paragraphs that start with plain-text list markers.
+ * Nesting levels are ranked from the distinct leading indentation widths in each run (a tab counts as 4 spaces).
+ * @param content - The body.content array of the document
+ * @param startIndex - Optional: only consider paragraphs overlapping this range
+ * @param endIndex - Optional: only consider paragraphs overlapping this range
+ */
+export function detectListRuns(content: docs_v1.Schema$StructuralElement[], startIndex?: number, endIndex?: number): DetectedListRun[] {
+    const runs: DetectedListRun[] = [];
+    let current: (DetectedListRun & { indents: number[] }) | null = null;
+
+    const closeRun = () => {
+        if (!current) return;
+        const levels = [...new Set(current.indents)].sort((a, b) => a - b);
+        current.items.forEach((item, i) => { item.nestingLevel = Math.min(levels.indexOf(current!.indents[i]), 8); });
+        runs.push({ startIndex: current.startIndex, endIndex: current.endIndex, numbered: current.numbered, items: current.items });
+        current = null;
+    };
+
+    for (const element of content) {
+        const paragraph = element.paragraph;
+        const inRange = element.startIndex != null && element.endIndex != null
+            && (startIndex === undefined || element.endIndex > startIndex)
+            && (endIndex === undefined || element.startIndex < endIndex);
+        const match = paragraph && !paragraph.bullet && inRange ? LIST_MARKER_REGEX.exec(extractTextFromContent([element])) : null;
+
+        if (!match) {
+            closeRun();
+            continue;
+        }
+
+        const indent = match[1].replace(/\t/g, '    ').length;
+        if (!current) {
+            current = { startIndex: element.startIndex!, endIndex: element.endIndex!, numbered: !match[2], items: [], indents: [] };
+        }
+        current.endIndex = element.endIndex!;
+        current.items.push({ startIndex: element.startIndex!, prefixLength: match[0].length, nestingLevel: 0 });
+        current.indents.push(indent);
+    }
+    closeRun();
+    return runs;
+}
+
+/**
+ * Builds the requests that turn detected list runs into real lists. Runs are processed last-to-first
+ * so earlier indices stay valid. Each marker is replaced with one tab per nesting level, which
+ * createParagraphBullets converts into the nesting level and then removes.
+ */
+export function buildListFormattingRequests(runs: DetectedListRun[]): docs_v1.Schema$Request[] {
+    const requests: docs_v1.Schema$Request[] = [];
+    [...runs].sort((a, b) => b.startIndex - a.startIndex).forEach(run => {
+        let lengthChange = 0;
+        [...run.items].sort((a, b) => b.startIndex - a.startIndex).forEach(item => {
+            if (item.prefixLength > 0) {
+                requests.push({ deleteContentRange: { range: { startIndex: item.startIndex, endIndex: item.startIndex + item.prefixLength } } });
+            }
+            if (item.nestingLevel > 0) {
+                requests.push({ insertText: { location: { index: item.startIndex }, text: '\t'.repeat(item.nestingLevel) } });
+            }
+            lengthChange += item.nestingLevel - item.prefixLength;
+        });
+        requests.push({
+            createParagraphBullets: {
+                range: { startIndex: run.startIndex, endIndex: run.endIndex + lengthChange },
+                bulletPreset: run.bulletPreset ?? (run.numbered ? 'NUMBERED_DECIMAL_ALPHA_ROMAN' : 'BULLET_DISC_CIRCLE_SQUARE'),
+            }
+        });
+    });
+    return requests;
+}
+
+/**
+ * Returns true if the given nesting level of the list (the top level by default) uses a numbered glyph
+ * (decimal, alpha, roman) rather than a bullet symbol.
+ */
+export function isNumberedList(list: docs_v1.Schema$List | undefined, nestingLevel: number = 0): boolean {
+    const glyphType = list?.listProperties?.nestingLevels?.[nestingLevel]?.glyphType;
+    return !!glyphType && glyphType !== 'GLYPH_TYPE_UNSPECIFIED' && glyphType !== 'NONE';
+}
+
+/**
+ * Builds the requests that change the nesting level of list items. The Docs API has no request for this,
+ * so the whole contiguous run of the list is re-created: its bullets are removed, each paragraph gets one
+ * leading tab per desired level, and createParagraphBullets turns the tabs back into nesting levels.
+ * @param content - The body.content array of the document
+ * @param lists - The document's lists map (used to keep bulleted vs numbered)
+ * @param range - Paragraphs overlapping this range are re-nested
+ * @param change - Either an absolute nestingLevel or a relative levelChange
+ * @param bulletPreset - Optional preset for the re-created list
+ */
+export function buildListNestingRequests(
+    content: docs_v1.Schema$StructuralElement[],
+    lists: { [listId: string]: docs_v1.Schema$List } | undefined,
+    range: { startIndex: number; endIndex: number },
+    change: { nestingLevel?: number; levelChange?: number },
+    bulletPreset?: BulletPreset
+): { requests: docs_v1.Schema$Request[]; paragraphsChanged: number } {
+    const isTarget = (element: docs_v1.Schema$StructuralElement) =>
+        !!element.paragraph?.bullet && element.startIndex! < range.endIndex && element.endIndex! > range.startIndex;
+
+    const targetPositions = content.map((element, i) => isTarget(element) ? i : -1).filter(i => i >= 0);
+    if (targetPositions.length === 0) {
+        throw new UserError(`No list items found in range ${range.startIndex}-${range.endIndex}.`);
+    }
+    const listIds = new Set(targetPositions.map(i => content[i].paragraph!.bullet!.listId));
+    if (listIds.size > 1) {
+        throw new UserError("The target range spans more than one list. Adjust one list at a time.");
+    }
+    const listId = [...listIds][0];
+
+    // Expand to the contiguous run of the same list so re-creating it does not split the list
+    const sameList = (i: number) => content[i]?.paragraph?.bullet?.listId === listId;
+    let first = targetPositions[0];
+    let last = targetPositions[targetPositions.length - 1];
+    while (first > 0 && sameList(first - 1)) first--;
+    while (last < content.length - 1 && sameList(last + 1)) last++;
+
+    const run = content.slice(first, last + 1);
+    const items = run.map(element => {
+        const current = element.paragraph!.bullet!.nestingLevel ?? 0;
+        const desired = isTarget(element) ? (change.nestingLevel ?? current + (change.levelChange ?? 0)) : current;
+        return { startIndex: element.startIndex!, prefixLength: 0, nestingLevel: Math.max(0, Math.min(desired, 8)) };
+    });
+
+    const runRange = { startIndex: run[0].startIndex!, endIndex: run[run.length - 1].endIndex! };
+    const requests: docs_v1.Schema$Request[] = [
+        { deleteParagraphBullets: { range: runRange } },
+        // deleteParagraphBullets keeps the visual indent as direct formatting; clear it so the list indents apply
+        { updateParagraphStyle: { range: runRange, paragraphStyle: {}, fields: 'indentStart,indentFirstLine' } },
+        ...buildListFormattingRequests([{
+            ...runRange,
+            numbered: isNumberedList(listId ? lists?.[listId] : undefined),
+            bulletPreset,
+            items,
+        }]),
+    ];
+    return { requests, paragraphsChanged: targetPositions.length };
 }
 
 export async function detectAndFormatLists(
@@ -428,18 +2364,22 @@ docs: Docs,
 documentId: string,
 startIndex?: number,
 endIndex?: number
-): Promise<docs_v1.Schema$BatchUpdateDocumentResponse> {
-// TODO: Implement complex logic
-// 1. Get document content (paragraphs, text runs) in the specified range (or whole doc).
-// 2. Iterate through paragraphs.
-// 3. Identify sequences of paragraphs starting with list-like markers (e.g., "-", "*", "1.", "a)").
-// 4. Determine nesting levels based on indentation or marker patterns.
-// 5. Generate CreateParagraphBulletsRequests for the identified sequences.
-// 6. Potentially delete the original marker text.
-// 7. Execute the batch update.
-console.warn("detectAndFormatLists is not implemented.");
-throw new NotImplementedError("Automatic list detection and formatting is not yet implemented.");
-// return {};
+): Promise<{ listsCreated: number; paragraphsConverted: number }> {
+    const res = await docs.documents.get({
+        documentId,
+        fields: 'body(content(startIndex,endIndex,paragraph(bullet,elements(textRun(content)))))',
+    });
+
+    const runs = detectListRuns(res.data.body?.content || [], startIndex, endIndex);
+    if (runs.length === 0) {
+        return { listsCreated: 0, paragraphsConverted: 0 };
+    }
+
+    await executeBatchUpdate(docs, documentId, buildListFormattingRequests(runs));
+    return {
+        listsCreated: runs.length,
+        paragraphsConverted: runs.reduce((total, run) => total + run.items.length, 0),
+    };
 }
 
 export async function addCommentHelper(docs: Docs, documentId: string, text: string, startIndex: number, endIndex: number): Promise<void> {
@@ -490,6 +2430,14 @@ export async function insertInlineImage(
     width?: number,
     height?: number
 ): Promise<docs_v1.Schema$BatchUpdateDocumentResponse> {
+    return executeBatchUpdate(docs, documentId, [buildInsertInlineImageRequest(imageUrl, index, width, height)]);
+}
+
+/**
+ * Builds an insertInlineImage request, validating the URL first.
+ * The size is only set when both width and height are given.
+ */
+export function buildInsertInlineImageRequest(imageUrl: string, index: number, width?: number, height?: number): docs_v1.Schema$Request {
     // Validate URL format
     try {
         new URL(imageUrl);
@@ -497,8 +2445,7 @@ export async function insertInlineImage(
         throw new UserError(`Invalid image URL format: ${imageUrl}`);
     }
 
-    // Build the insertInlineImage request
-    const request: docs_v1.Schema$Request = {
+    return {
         insertInlineImage: {
             location: { index },
             uri: imageUrl,
@@ -510,8 +2457,6 @@ export async function insertInlineImage(
             })
         }
     };
-
-    return executeBatchUpdate(docs, documentId, [request]);
 }
 
 /**
@@ -596,4 +2541,149 @@ export async function uploadImageToDrive(
     }
 
     return webContentLink;
-}
\ No newline at end of file
+}
+// --- Document Export Helpers ---
+
+export const DOCUMENT_EXPORT_FORMATS = {
+    pdf: { mimeType: 'application/pdf', extension: '.pdf' },
+    docx: { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: '.docx' },
+    odt: { mimeType: 'application/vnd.oasis.opendocument.text', extension: '.odt' },
+    rtf: { mimeType: 'application/rtf', extension: '.rtf' },
+    epub: { mimeType: 'application/epub+zip', extension: '.epub' },
+    txt: { mimeType: 'text/plain', extension: '.txt' },
+    html: { mimeType: 'application/zip', extension: '.zip' }, // Zipped HTML with images
+} as const;
+
+export type DocumentExportFormat = keyof typeof DOCUMENT_EXPORT_FORMATS;
+
+/**
+ * Exports a Google Doc through Drive files.export.
+ * @returns The file contents, its MIME type and a file name built from the document title
+ */
+export async function exportDocumentFile(
+    drive: any, // drive_v3.Drive type
+    documentId: string,
+    format: DocumentExportFormat
+): Promise<{ data: Buffer; mimeType: string; fileName: string }> {
+    const { mimeType, extension } = DOCUMENT_EXPORT_FORMATS[format];
+
+    const fileInfo = await drive.files.get({ fileId: documentId, fields: 'name,mimeType' });
+    if (fileInfo.data.mimeType !== 'application/vnd.google-apps.document') {
+        throw new UserError(`File ${documentId} is not a Google Document (type: ${fileInfo.data.mimeType}).`);
+    }
+
+    const response = await drive.files.export(
+        { fileId: documentId, mimeType },
+        { responseType: 'arraybuffer' }
+    );
+
+    // Keep the title readable but safe to use as a file name on any platform
+    const baseName = (fileInfo.data.name || documentId).replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim() || documentId;
+    return { data: Buffer.from(response.data as ArrayBuffer), mimeType, fileName: `${baseName}${extension}` };
+}
+
+/**
+ * Writes an exported file to disk. If `localPath` is an existing directory (or ends with a path
+ * separator), the file is written inside it using `fileName`; missing parent directories are created.
+ * @returns The absolute path written
+ */
+export async function writeExportedFile(localPath: string, fileName: string, data: Buffer): Promise<string> {
+    const fs = await import('fs');
+    const path = await import('path');
+
+    if (!path.isAbsolute(localPath)) {
+        throw new UserError(`localPath must be an absolute path: ${localPath}`);
+    }
+    const isDirectory = /[\\/]$/.test(localPath) || (fs.existsSync(localPath) && fs.statSync(localPath).isDirectory());
+    const targetPath = isDirectory ? path.join(localPath, fileName) : localPath;
+
+    await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.promises.writeFile(targetPath, data);
+    return targetPath;
+}
+
+/**
+ * Uploads an exported file to Drive as a regular (non-converted) file.
+ * @returns The new file's ID, name and view link
+ */
+export async function uploadExportedFile(
+    drive: any, // drive_v3.Drive type
+    fileName: string,
+    mimeType: string,
+    data: Buffer,
+    parentFolderId?: string
+): Promise<{ id: string; name: string; webViewLink?: string }> {
+    const { Readable } = await import('stream');
+
+    const fileMetadata: any = { name: fileName, mimeType };
+    if (parentFolderId) {
+        fileMetadata.parents = [parentFolderId];
+    }
+
+    const response = await drive.files.create({
+        requestBody: fileMetadata,
+        media: { mimeType, body: Readable.from(data) },
+        fields: 'id,name,webViewLink',
+    });
+    if (!response.data.id) {
+        throw new Error('Failed to upload exported file to Drive - no file ID returned');
+    }
+    return { id: response.data.id, name: response.data.name || fileName, webViewLink: response.data.webViewLink || undefined };
+}
+
+// --- Document Import Helpers ---
+
+const IMPORT_MIME_TYPES: { [extension: string]: string } = {
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.doc': 'application/msword',
+    '.odt': 'application/vnd.oasis.opendocument.text',
+    '.rtf': 'application/rtf',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.markdown': 'text/markdown',
+};
+
+/**
+ * Uploads a local file to Drive and converts it to a Google Doc.
+ * @param title - Name for the new document; defaults to the file name without its extension
+ * @returns The new document's ID, name and view link
+ */
+export async function importDocumentFile(
+    drive: any, // drive_v3.Drive type
+    localFilePath: string,
+    title?: string,
+    parentFolderId?: string
+): Promise<{ id: string; name: string; webViewLink?: string }> {
+    const fs = await import('fs');
+    const path = await import('path');
+
+    if (!fs.existsSync(localFilePath)) {
+        throw new UserError(`File not found: ${localFilePath}`);
+    }
+
+    const ext = path.extname(localFilePath).toLowerCase();
+    const mimeType = IMPORT_MIME_TYPES[ext];
+    if (!mimeType) {
+        throw new UserError(`Unsupported file type "${ext || 'none'}". Supported: ${Object.keys(IMPORT_MIME_TYPES).join(', ')}`);
+    }
+
+    const fileMetadata: any = {
+        name: title || path.basename(localFilePath, path.extname(localFilePath)),
+        mimeType: 'application/vnd.google-apps.document', // Target type makes Drive convert the upload
+    };
+    if (parentFolderId) {
+        fileMetadata.parents = [parentFolderId];
+    }
+
+    const response = await drive.files.create({
+        requestBody: fileMetadata,
+        media: { mimeType, body: fs.createReadStream(localFilePath) },
+        fields: 'id,name,webViewLink',
+    });
+    if (!response.data.id) {
+        throw new Error('Failed to import file - no file ID returned');
+    }
+    return { id: response.data.id, name: response.data.name || fileMetadata.name, webViewLink: response.data.webViewLink || undefined };
+}
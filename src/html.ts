@@ -0,0 +1,468 @@
+// src/html.ts
+import { docs_v1 } from 'googleapis';
+import { TextStyleArgs, ParagraphStyleArgs, validateHexColor } from './types.js';
+import { MarkdownBlock, MarkdownInline, CODE_FONT_FAMILY, insertBlocks, isMonospace } from './markdown.js';
+import { isNumberedList, getHeadingRank, colorToHex } from './googleDocsApiHelpers.js';
+
+type Docs = docs_v1.Docs;
+
+// --- HTML Import ---
+
+// Comments, doctype/processing instructions, tags (with attributes) and text
+const TOKEN_REGEX = /<!--[\s\S]*?-->|<[!?][^>]*>|<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|([^<]+|<)/g;
+const ATTRIBUTE_REGEX = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title', 'template', 'noscript']);
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'meta', 'link', 'input', 'col', 'wbr', 'source', 'area', 'base']);
+const PARAGRAPH_TAGS = new Set(['p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'figure', 'figcaption', 'dl', 'dt', 'dd', 'address', 'center']);
+const INLINE_TAG_STYLES: Record<string, TextStyleArgs> = {
+    b: { bold: true }, strong: { bold: true },
+    i: { italic: true }, em: { italic: true }, cite: { italic: true }, var: { italic: true },
+    u: { underline: true }, ins: { underline: true },
+    s: { strikethrough: true }, strike: { strikethrough: true }, del: { strikethrough: true },
+    code: { fontFamily: CODE_FONT_FAMILY }, kbd: { fontFamily: CODE_FONT_FAMILY }, samp: { fontFamily: CODE_FONT_FAMILY }, tt: { fontFamily: CODE_FONT_FAMILY },
+};
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0',
+    ndash: '–', mdash: '—', hellip: '…', bull: '•', middot: '·',
+    lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    copy: '©', reg: '®', trade: '™', euro: '€', pound: '£', deg: '°',
+};
+
+export function decodeHtmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(ATTRIBUTE_REGEX)) {
+        attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+function cssColorToHex(value: string): string | undefined {
+    const color = value.trim();
+    if (validateHexColor(color) && color.startsWith('#')) return color;
+    const rgb = color.match(/^rgba?\(\s*(\d{1,3})\s*,\s*(\d{1,3})\s*,\s*(\d{1,3})\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+    if (!rgb || (rgb[4] !== undefined && parseFloat(rgb[4]) === 0)) return undefined;
+    return '#' + rgb.slice(1, 4).map(n => Math.min(255, parseInt(n, 10)).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Reads the text-related declarations of an inline `style` attribute. Unsupported properties are ignored.
+ */
+export function parseCssTextStyle(css: string): TextStyleArgs {
+    const style: TextStyleArgs = {};
+    css.split(';').forEach(declaration => {
+        const separator = declaration.indexOf(':');
+        if (separator < 0) return;
+        const property = declaration.slice(0, separator).trim().toLowerCase();
+        const value = declaration.slice(separator + 1).replace(/!important/i, '').trim();
+        const lowerValue = value.toLowerCase();
+
+        switch (property) {
+            case 'font-weight':
+                if (/^(bold|bolder|[6-9]00)$/.test(lowerValue)) style.bold = true;
+                else if (/^(normal|lighter|[1-5]00)$/.test(lowerValue)) style.bold = false;
+                break;
+            case 'font-style':
+                style.italic = lowerValue === 'italic' || lowerValue === 'oblique';
+                break;
+            case 'text-decoration':
+            case 'text-decoration-line':
+                if (lowerValue.includes('underline')) style.underline = true;
+                if (lowerValue.includes('line-through')) style.strikethrough = true;
+                if (lowerValue === 'none') { style.underline = false; style.strikethrough = false; }
+                break;
+            case 'color': {
+                const hex = cssColorToHex(value);
+                if (hex) style.foregroundColor = hex;
+                break;
+            }
+            case 'background-color':
+            case 'background': {
+                const hex = cssColorToHex(value);
+                if (hex) style.backgroundColor = hex;
+                break;
+            }
+            case 'font-family': {
+                const family = value.split(',')[0].trim().replace(/^["']|["']$/g, '');
+                if (family) style.fontFamily = family;
+                break;
+            }
+            case 'font-size': {
+                const size = lowerValue.match(/^([\d.]+)(pt|px)$/);
+                if (size) style.fontSize = Math.round(parseFloat(size[1]) * (size[2] === 'px' ? 0.75 : 1) * 2) / 2;
+                break;
+            }
+        }
+    });
+    return style;
+}
+
+/**
+ * Converts a subset of HTML into the block model used by insertMarkdown: headings, paragraphs,
+ * nested ul/ol lists, tables, blockquotes, pre blocks and inline formatting (b/i/u/s/code/a tags and
+ * text styles from `style` attributes). Whitespace is collapsed as a browser would; images, scripts
+ * and unsupported elements are dropped.
+ */
+export function parseHtmlBlocks(html: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    // Inline styles currently open; `start` is the offset within the inline that is being filled and
+    // `rangeIndex` where its range goes in that inline's styles, ahead of the ranges of nested tags
+    const openStyles: { tag: string; style: TextStyleArgs; start: number; rangeIndex: number }[] = [];
+    const lists: boolean[] = []; // ordered flag of each open ul/ol
+    let current: Extract<MarkdownBlock, { type: 'paragraph' | 'listItem' }> | null = null;
+    let heading: ParagraphStyleArgs['namedStyleType'];
+    let quoteDepth = 0;
+    let table: MarkdownInline[][] | null = null;
+    let cell: MarkdownInline | null = null;
+    let pre = null as string | null; // Widened: it is assigned inside the tag handlers
+    let skipTag: string | null = null;
+
+    const activeInline = (): MarkdownInline | null => cell ?? current?.inline ?? null;
+
+    const startInline = () => openStyles.forEach(s => { s.start = 0; s.rangeIndex = 0; });
+
+    // Outer styles are applied before inner ones so e.g. bold inside a font-weight:normal wrapper wins
+    const closeStyle = (inline: MarkdownInline, open: typeof openStyles[number]) => {
+        if (inline.text.length > open.start) {
+            inline.styles.splice(open.rangeIndex, 0, { start: open.start, end: inline.text.length, style: open.style });
+        }
+    };
+
+    const finishInline = (inline: MarkdownInline) => {
+        [...openStyles].reverse().forEach(open => closeStyle(inline, open));
+        inline.text = inline.text.trimEnd();
+        inline.styles = inline.styles
+            .map(s => ({ ...s, end: Math.min(s.end, inline.text.length) }))
+            .filter(s => s.start < s.end);
+        startInline();
+    };
+
+    const flushBlock = () => {
+        if (!current) return;
+        finishInline(current.inline);
+        if (current.inline.text) blocks.push(current);
+        current = null;
+    };
+
+    const appendText = (text: string) => {
+        const active = activeInline();
+        if (!active || !active.text || active.text.endsWith(' ')) text = text.replace(/^ /, '');
+        if (!text) return;
+        if (active) {
+            active.text += text;
+        } else if (!table) {
+            current = { type: 'paragraph', inline: { text, styles: [] }, namedStyleType: heading, quote: quoteDepth > 0 || undefined };
+            startInline();
+        }
+    };
+
+    const openTag = (tag: string, attributes: Record<string, string>) => {
+        if (/^h[1-6]$/.test(tag)) {
+            flushBlock();
+            heading = `HEADING_${tag[1]}` as ParagraphStyleArgs['namedStyleType'];
+        } else if (PARAGRAPH_TAGS.has(tag) || tag === 'hr') {
+            flushBlock();
+        } else if (tag === 'blockquote') {
+            flushBlock();
+            quoteDepth++;
+        } else if (tag === 'br') {
+            if (pre !== null) pre += '\n';
+            else if (cell || current?.type === 'listItem') appendText(' ');
+            else flushBlock();
+        } else if (tag === 'ul' || tag === 'ol') {
+            flushBlock();
+            lists.push(tag === 'ol');
+        } else if (tag === 'li') {
+            flushBlock();
+            current = { type: 'listItem', inline: { text: '', styles: [] }, ordered: lists[lists.length - 1] ?? false, nestingLevel: Math.min(Math.max(lists.length - 1, 0), 8) };
+            startInline();
+        } else if (tag === 'pre') {
+            flushBlock();
+            pre = '';
+        } else if (tag === 'table' && !table) {
+            flushBlock();
+            table = [];
+        } else if (tag === 'tr' && table) {
+            table.push([]);
+        } else if ((tag === 'td' || tag === 'th') && table) {
+            if (table.length === 0) table.push([]);
+            cell = { text: '', styles: [] };
+            table[table.length - 1].push(cell);
+            startInline();
+        }
+
+        if (VOID_TAGS.has(tag)) return;
+        const style: TextStyleArgs = { ...INLINE_TAG_STYLES[tag] };
+        if (tag === 'a' && attributes.href && /^(https?:|mailto:)/i.test(attributes.href)) style.linkUrl = attributes.href;
+        if (tag === 'font' && attributes.color) {
+            const hex = cssColorToHex(attributes.color);
+            if (hex) style.foregroundColor = hex;
+        }
+        if (attributes.style) Object.assign(style, parseCssTextStyle(attributes.style));
+        if (Object.keys(style).length > 0) {
+            const active = activeInline();
+            openStyles.push({ tag, style, start: active?.text.length ?? 0, rangeIndex: active?.styles.length ?? 0 });
+        }
+    };
+
+    const closeTag = (tag: string) => {
+        const position = openStyles.map(s => s.tag).lastIndexOf(tag);
+        if (position >= 0) {
+            const [closed] = openStyles.splice(position, 1);
+            const active = activeInline();
+            if (active) closeStyle(active, closed);
+        }
+
+        if (/^h[1-6]$/.test(tag)) {
+            flushBlock();
+            heading = undefined;
+        } else if (PARAGRAPH_TAGS.has(tag) || tag === 'li') {
+            flushBlock();
+        } else if (tag === 'blockquote') {
+            flushBlock();
+            quoteDepth = Math.max(0, quoteDepth - 1);
+        } else if (tag === 'ul' || tag === 'ol') {
+            flushBlock();
+            lists.pop();
+        } else if (tag === 'pre' && pre !== null) {
+            const lines = pre.replace(/^\n/, '').replace(/\n$/, '').split('\n');
+            lines.forEach(line => blocks.push({ type: 'paragraph', inline: { text: line, styles: [] }, code: true }));
+            pre = null;
+        } else if ((tag === 'td' || tag === 'th') && cell) {
+            finishInline(cell);
+            cell = null;
+        } else if (tag === 'table' && table) {
+            if (cell) finishInline(cell);
+            cell = null;
+            const rows = table.filter(row => row.length > 0);
+            if (rows.length > 0) blocks.push({ type: 'table', rows });
+            table = null;
+        }
+    };
+
+    for (const match of html.matchAll(TOKEN_REGEX)) {
+        const [token, closing, rawTag, rawAttributes, selfClosing, text] = match;
+        const tag = rawTag?.toLowerCase();
+
+        if (skipTag) {
+            if (tag === skipTag && closing) skipTag = null;
+            continue;
+        }
+        if (text !== undefined) {
+            const decoded = decodeHtmlEntities(text);
+            if (pre !== null) pre += decoded;
+            else appendText(decoded.replace(/[ \t\r\n\f]+/g, ' '));
+            continue;
+        }
+        if (!tag || token.startsWith('<!') || token.startsWith('<?')) continue;
+
+        if (closing) {
+            closeTag(tag);
+        } else if (SKIPPED_TAGS.has(tag) && !selfClosing) {
+            skipTag = tag;
+        } else {
+            openTag(tag, parseAttributes(rawAttributes || ''));
+        }
+    }
+    flushBlock();
+    if (table) closeTag('table');
+    return blocks;
+}
+
+/**
+ * Inserts HTML as formatted content in one batchUpdate. See insertBlocks for where it lands.
+ * @returns The number of blocks inserted
+ */
+export async function insertHtml(docs: Docs, documentId: string, html: string, index?: number): Promise<number> {
+    return insertBlocks(docs, documentId, parseHtmlBlocks(html), index);
+}
+
+// --- HTML Export ---
+
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function convertTextRunToHtml(content: string, textStyle: docs_v1.Schema$TextStyle | undefined): string {
+    let html = escapeHtml(content).replace(/\v/g, '<br>');
+    if (!content.trim() || !textStyle) return html;
+
+    const css: string[] = [];
+    const foreground = colorToHex(textStyle.foregroundColor);
+    const background = colorToHex(textStyle.backgroundColor);
+    // Links carry the default link color; leave it to the reader's stylesheet
+    if (foreground && !textStyle.link) css.push(`color: ${foreground}`);
+    if (background) css.push(`background-color: ${background}`);
+    if (textStyle.fontSize?.magnitude) css.push(`font-size: ${textStyle.fontSize.magnitude}pt`);
+    const fontFamily = textStyle.weightedFontFamily?.fontFamily;
+    if (fontFamily && !isMonospace(textStyle)) css.push(`font-family: '${escapeHtml(fontFamily)}'`);
+    if (css.length > 0) html = `<span style="${css.join('; ')}">${html}</span>`;
+
+    if (isMonospace(textStyle)) html = `<code>${html}</code>`;
+    if (textStyle.strikethrough) html = `<s>${html}</s>`;
+    if (textStyle.underline && !textStyle.link) html = `<u>${html}</u>`;
+    if (textStyle.italic) html = `<em>${html}</em>`;
+    if (textStyle.bold) html = `<strong>${html}</strong>`;
+    if (textStyle.link?.url) html = `<a href="${escapeHtml(textStyle.link.url)}">${html}</a>`;
+    return html;
+}
+
+function convertParagraphElementsToHtml(
+    elements: docs_v1.Schema$ParagraphElement[] | undefined,
+    doc: docs_v1.Schema$Document,
+    footnoteNumbers: Map<string, string>
+): string {
+    return (elements || []).map(element => {
+        if (element.textRun) {
+            return convertTextRunToHtml((element.textRun.content || '').replace(/\n$/, ''), element.textRun.textStyle);
+        }
+        if (element.inlineObjectElement?.inlineObjectId) {
+            const embedded = doc.inlineObjects?.[element.inlineObjectElement.inlineObjectId]?.inlineObjectProperties?.embeddedObject;
+            const uri = embedded?.imageProperties?.contentUri || embedded?.imageProperties?.sourceUri;
+            if (!uri) return '';
+            const width = embedded?.size?.width?.magnitude;
+            return `<img src="${escapeHtml(uri)}" alt="${escapeHtml(embedded?.description || embedded?.title || '')}"${width ? ` width="${Math.round(width * 4 / 3)}"` : ''}>`;
+        }
+        if (element.footnoteReference?.footnoteId) {
+            const number = element.footnoteReference.footnoteNumber || String(footnoteNumbers.size + 1);
+            footnoteNumbers.set(element.footnoteReference.footnoteId, number);
+            return `<sup id="fnref-${number}"><a href="#fn-${number}">${number}</a></sup>`;
+        }
+        if (element.horizontalRule) return '<hr>';
+        return '';
+    }).join('');
+}
+
+function convertTableToHtml(table: docs_v1.Schema$Table, doc: docs_v1.Schema$Document, footnoteNumbers: Map<string, string>): string {
+    const rows = (table.tableRows || []).map(row => {
+        const cellTag = row.tableRowStyle?.tableHeader ? 'th' : 'td';
+        const cells = (row.tableCells || []).map(cell => {
+            const content = (cell.content || [])
+                .map(element => element.paragraph ? convertParagraphElementsToHtml(element.paragraph.elements, doc, footnoteNumbers) : '')
+                .filter(html => html.trim())
+                .join('<br>');
+            const span = (cell.tableCellStyle?.rowSpan || 1) > 1 ? ` rowspan="${cell.tableCellStyle!.rowSpan}"` : '';
+            const colspan = (cell.tableCellStyle?.columnSpan || 1) > 1 ? ` colspan="${cell.tableCellStyle!.columnSpan}"` : '';
+            return `<${cellTag}${span}${colspan}>${content}</${cellTag}>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+    });
+    return ['<table>', ...rows, '</table>'].join('\n');
+}
+
+/**
+ * Converts a Google Docs document (as returned by documents.get with all fields) to an HTML fragment.
+ * Headings, paragraphs (with alignment), nested ul/ol lists (from the document's `lists` map), tables,
+ * code blocks, inline styles, links, images and footnotes are kept; direct text colors, sizes and
+ * fonts become inline `style` attributes.
+ */
+export function convertDocsJsonToHtml(doc: docs_v1.Schema$Document): string {
+    const content = doc.body?.content || [];
+    const footnoteNumbers = new Map<string, string>();
+    const parts: string[] = [];
+    // Open lists, outermost first; `liOpen` tracks whether an item at that level still needs closing
+    const openLists: { listId: string; tag: 'ul' | 'ol'; liOpen: boolean }[] = [];
+    let codeLines: string[] = [];
+
+    const closeLists = (depth: number) => {
+        while (openLists.length > depth) {
+            const list = openLists.pop()!;
+            parts.push(`${list.liOpen ? '</li>' : ''}</${list.tag}>`);
+        }
+    };
+    const flushCode = () => {
+        if (codeLines.length === 0) return;
+        parts.push(`<pre><code>${codeLines.join('\n')}</code></pre>`);
+        codeLines = [];
+    };
+
+    content.forEach((element, position) => {
+        const paragraph = element.paragraph;
+        const isCode = !!paragraph && !paragraph.bullet
+            && (paragraph.elements || []).some(e => e.textRun?.content?.trim())
+            && (paragraph.elements || []).filter(e => e.textRun?.content !== '\n').every(e => e.textRun && isMonospace(e.textRun.textStyle));
+        if (!isCode) flushCode();
+        if (!paragraph?.bullet) closeLists(0);
+
+        if (element.table) {
+            parts.push(convertTableToHtml(element.table, doc, footnoteNumbers));
+            return;
+        }
+        if (element.sectionBreak) {
+            if (position > 0) parts.push('<hr>');
+            return;
+        }
+        if (!paragraph) return;
+
+        if (isCode) {
+            codeLines.push(escapeHtml((paragraph.elements || []).map(e => e.textRun?.content || '').join('').replace(/\n$/, '')));
+            return;
+        }
+
+        const html = convertParagraphElementsToHtml(paragraph.elements, doc, footnoteNumbers);
+        if (!html.trim()) return;
+
+        if (paragraph.bullet) {
+            const listId = paragraph.bullet.listId || '';
+            const level = Math.min(paragraph.bullet.nestingLevel || 0, 8);
+            if (openLists.length > 0 && openLists[0].listId !== listId) closeLists(0);
+            closeLists(level + 1);
+            if (openLists.length === level + 1 && openLists[level].liOpen) {
+                parts.push('</li>');
+                openLists[level].liOpen = false;
+            }
+            while (openLists.length < level + 1) {
+                const tag = isNumberedList(doc.lists?.[listId], openLists.length) ? 'ol' : 'ul';
+                parts.push(`<${tag}>`);
+                openLists.push({ listId, tag, liOpen: false });
+            }
+            parts.push(`<li>${html}`);
+            openLists[level].liOpen = true;
+            return;
+        }
+
+        const style = paragraph.paragraphStyle;
+        const namedStyleType = style?.namedStyleType;
+        const headingRank = getHeadingRank(namedStyleType);
+        // TITLE shares the top level with HEADING_1; SUBTITLE reads best as a second-level heading
+        const headingLevel = namedStyleType === 'SUBTITLE' ? 2 : headingRank === null ? 0 : Math.max(headingRank, 1);
+        const alignment = style?.alignment === 'CENTER' ? 'center' : style?.alignment === 'END' ? 'right' : style?.alignment === 'JUSTIFIED' ? 'justify' : null;
+        const alignAttribute = alignment ? ` style="text-align: ${alignment}"` : '';
+
+        if (headingLevel > 0) {
+            parts.push(`<h${headingLevel}${alignAttribute}>${html}</h${headingLevel}>`);
+        } else if (html === '<hr>') {
+            parts.push(html);
+        } else if ((style?.indentStart?.magnitude || 0) > 0 && (style?.indentFirstLine?.magnitude || 0) > 0) {
+            parts.push(`<blockquote><p${alignAttribute}>${html}</p></blockquote>`);
+        } else {
+            parts.push(`<p${alignAttribute}>${html}</p>`);
+        }
+    });
+    flushCode();
+    closeLists(0);
+
+    if (footnoteNumbers.size > 0) {
+        parts.push('<div class="footnotes">');
+        footnoteNumbers.forEach((number, footnoteId) => {
+            const footnoteHtml = (doc.footnotes?.[footnoteId]?.content || [])
+                .map(element => element.paragraph ? convertParagraphElementsToHtml(element.paragraph.elements, doc, new Map()).trim() : '')
+                .filter(Boolean)
+                .join(' ');
+            parts.push(`<p id="fn-${number}"><sup>${number}</sup> ${footnoteHtml}</p>`);
+        });
+        parts.push('</div>');
+    }
+
+    return parts.join('\n');
+}
@@ -0,0 +1,861 @@
+// src/markdown.ts
+import { docs_v1 } from 'googleapis';
+import { UserError } from 'fastmcp';
+import { TextStyleArgs, ParagraphStyleArgs } from './types.js';
+import { buildUpdateTextStyleRequest, buildListFormattingRequests, DetectedListRun, executeBatchUpdate, BatchUpdateOptions, getParagraphRange, isNumberedList, getHeadingRank, buildAppendPointRequests, buildInsertInlineImageRequest, fillFootnotes, getEmptyTableCellIndex } from './googleDocsApiHelpers.js';
+
+type Docs = docs_v1.Docs;
+
+// --- Constants ---
+export const CODE_FONT_FAMILY = 'Courier New';
+const BLOCKQUOTE_INDENT_PT = 36;
+
+// --- Markdown Model ---
+
+/** An image or footnote reference placed in front of `offset`. Each takes up one index in the document, but none in `text`. */
+export type MarkdownInlineObject =
+    | { kind: 'image'; offset: number; uri: string }
+    | { kind: 'footnote'; offset: number; text: string };
+
+/** Plain text with the character-level styles parsed from inline markdown. Offsets are relative to `text`. */
+export interface MarkdownInline {
+    text: string;
+    styles: { start: number; end: number; style: TextStyleArgs }[];
+    objects?: MarkdownInlineObject[];
+}
+
+/** A block of content to insert. Also produced by the HTML importer (see html.ts). */
+export type MarkdownBlock =
+    | { type: 'paragraph'; inline: MarkdownInline; namedStyleType?: ParagraphStyleArgs['namedStyleType']; quote?: boolean; code?: boolean }
+    | { type: 'listItem'; inline: MarkdownInline; ordered: boolean; nestingLevel: number }
+    | { type: 'table'; rows: MarkdownInline[][] };
+
+const HEADING_REGEX = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const HORIZONTAL_RULE_REGEX = /^[ \t]*([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM_REGEX = /^([ \t]*)([-*+]|\d{1,9}[.)])[ \t]+(.*)$/;
+const FENCE_REGEX = /^[ \t]*(```|~~~)/;
+const BLOCKQUOTE_REGEX = /^[ \t]*>[ \t]?(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const FOOTNOTE_DEFINITION_REGEX = /^\[\^([^\]\s]+)\]:[ \t]*(.*)$/;
+
+// --- Inline Parsing ---
+
+/**
+ * Parses inline markdown (bold, italic, strikethrough, <u>underline</u>, code spans, links, images,
+ * footnote references and backslash escapes) into plain text plus the text styles and inline objects
+ * to add. Unmatched delimiters and references to undefined footnotes are kept as literal text.
+ * @param footnotes - Footnote text by label, from the `[^label]: text` definitions
+ */
+export function parseInlineMarkdown(source: string, footnotes: ReadonlyMap<string, string> = new Map()): MarkdownInline {
+    let text = '';
+    const styles: MarkdownInline['styles'] = [];
+    const objects: MarkdownInlineObject[] = [];
+
+    const appendStyled = (inner: string, style: TextStyleArgs) => {
+        const parsed = parseInlineMarkdown(inner, footnotes);
+        const start = text.length;
+        parsed.styles.forEach(s => styles.push({ start: s.start + start, end: s.end + start, style: s.style }));
+        parsed.objects?.forEach(o => objects.push({ ...o, offset: o.offset + start }));
+        text += parsed.text;
+        if (text.length > start) styles.push({ start, end: text.length, style });
+    };
+
+    let i = 0;
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (ch === '\\' && i + 1 < source.length && /[\\`*_{}\[\]()#+\-.!|~<>]/.test(source[i + 1])) {
+            text += source[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (ch === '`') {
+            const close = source.indexOf('`', i + 1);
+            if (close > i + 1) {
+                const start = text.length;
+                text += source.slice(i + 1, close);
+                styles.push({ start, end: text.length, style: { fontFamily: CODE_FONT_FAMILY } });
+                i = close + 1;
+                continue;
+            }
+        }
+
+        if (ch === '!' && source[i + 1] === '[') {
+            const altEnd = source.indexOf('](', i + 2);
+            const uriEnd = altEnd > i ? source.indexOf(')', altEnd + 2) : -1;
+            if (altEnd > i && uriEnd > altEnd + 2) {
+                objects.push({ kind: 'image', offset: text.length, uri: source.slice(altEnd + 2, uriEnd).trim() });
+                i = uriEnd + 1;
+                continue;
+            }
+        }
+
+        if (ch === '[' && source[i + 1] === '^') {
+            const labelEnd = source.indexOf(']', i + 2);
+            const footnote = labelEnd > i + 2 ? footnotes.get(source.slice(i + 2, labelEnd)) : undefined;
+            if (footnote !== undefined) {
+                objects.push({ kind: 'footnote', offset: text.length, text: footnote });
+                i = labelEnd + 1;
+                continue;
+            }
+        }
+
+        if (ch === '<' && source.startsWith('<u>', i)) {
+            const close = source.indexOf('</u>', i + 3);
+            if (close > i + 3) {
+                appendStyled(source.slice(i + 3, close), { underline: true });
+                i = close + 4;
+                continue;
+            }
+        }
+
+        if (ch === '[') {
+            const labelEnd = source.indexOf('](', i + 1);
+            const urlEnd = labelEnd > i ? source.indexOf(')', labelEnd + 2) : -1;
+            if (labelEnd > i + 1 && urlEnd > labelEnd + 2) {
+                appendStyled(source.slice(i + 1, labelEnd), { linkUrl: source.slice(labelEnd + 2, urlEnd).trim() });
+                i = urlEnd + 1;
+                continue;
+            }
+        }
+
+        // Longest delimiter first so ***both*** is not read as ** + *
+        const delimiters: [string, TextStyleArgs][] = [
+            ['***', { bold: true, italic: true }], ['___', { bold: true, italic: true }],
+            ['**', { bold: true }], ['__', { bold: true }], ['~~', { strikethrough: true }],
+            ['*', { italic: true }], ['_', { italic: true }],
+        ];
+        const match = delimiters.find(([delimiter]) => source.startsWith(delimiter, i));
+        if (match) {
+            const [delimiter, style] = match;
+            // Underscores inside words (snake_case) are literal
+            const intraword = delimiter[0] === '_' && i > 0 && /\w/.test(source[i - 1]);
+            const close = intraword ? -1 : source.indexOf(delimiter, i + delimiter.length + 1);
+            if (close > 0 && !/\s/.test(source[i + delimiter.length])) {
+                appendStyled(source.slice(i + delimiter.length, close), style);
+                i = close + delimiter.length;
+                continue;
+            }
+            text += delimiter;
+            i += delimiter.length;
+            continue;
+        }
+
+        text += ch;
+        i++;
+    }
+    return objects.length > 0 ? { text, styles, objects } : { text, styles };
+}
+
+// --- Block Parsing ---
+
+function splitTableRow(line: string): string[] {
+    let trimmed = line.trim();
+    if (trimmed.startsWith('|')) trimmed = trimmed.slice(1);
+    if (trimmed.endsWith('|') && !trimmed.endsWith('\\|')) trimmed = trimmed.slice(0, -1);
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Removes the `[^label]: text` footnote definitions outside code blocks.
+ * @returns The remaining lines and the plain text of each footnote by label
+ */
+function extractFootnoteDefinitions(lines: string[]): { lines: string[]; footnotes: Map<string, string> } {
+    const footnotes = new Map<string, string>();
+    let fence: string | null = null;
+    const remaining = lines.filter(line => {
+        const fenceMatch = line.match(FENCE_REGEX);
+        if (fenceMatch && (fence === null || line.trim().startsWith(fence))) fence = fence === null ? fenceMatch[1] : null;
+        const definition = fence === null ? line.match(FOOTNOTE_DEFINITION_REGEX) : null;
+        if (!definition) return true;
+        footnotes.set(definition[1], parseInlineMarkdown(definition[2].trim()).text);
+        return false;
+    });
+    return { lines: remaining, footnotes };
+}
+
+/**
+ * Splits markdown into headings, paragraphs, list items, code blocks, blockquotes and tables.
+ * Consecutive text lines are joined into one paragraph; horizontal rules are dropped.
+ * Footnote definitions become the text of the footnotes referenced inline; their own formatting is not kept.
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+    const { lines, footnotes } = extractFootnoteDefinitions(markdown.replace(/\r\n?/g, '\n').split('\n'));
+    const parseInline = (source: string) => parseInlineMarkdown(source, footnotes);
+    const blocks: MarkdownBlock[] = [];
+    let paragraphLines: string[] = [];
+    let listIndents: number[] = [];
+
+    const flushParagraph = () => {
+        if (paragraphLines.length === 0) return;
+        blocks.push({ type: 'paragraph', inline: parseInline(paragraphLines.join(' ')) });
+        paragraphLines = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            flushParagraph();
+            continue;
+        }
+
+        const fence = line.match(FENCE_REGEX);
+        if (fence) {
+            flushParagraph();
+            listIndents = [];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                blocks.push({ type: 'paragraph', inline: { text: lines[i], styles: [] }, code: true });
+                i++;
+            }
+            continue;
+        }
+
+        const heading = line.match(HEADING_REGEX);
+        if (heading) {
+            flushParagraph();
+            listIndents = [];
+            blocks.push({
+                type: 'paragraph',
+                inline: parseInline(heading[2]),
+                namedStyleType: `HEADING_${heading[1].length}` as ParagraphStyleArgs['namedStyleType'],
+            });
+            continue;
+        }
+
+        if (HORIZONTAL_RULE_REGEX.test(line)) {
+            flushParagraph();
+            listIndents = [];
+            continue;
+        }
+
+        const listItem = line.match(LIST_ITEM_REGEX);
+        if (listItem) {
+            flushParagraph();
+            // Nesting follows the indentation stack of the current list; a tab counts as 4 spaces
+            const indent = listItem[1].replace(/\t/g, '    ').length;
+            while (listIndents.length > 0 && indent < listIndents[listIndents.length - 1]) listIndents.pop();
+            if (listIndents.length === 0 || indent > listIndents[listIndents.length - 1]) listIndents.push(indent);
+            blocks.push({
+                type: 'listItem',
+                inline: parseInline(listItem[3]),
+                ordered: /\d/.test(listItem[2]),
+                nestingLevel: Math.min(listIndents.length - 1, 8),
+            });
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_SEPARATOR_REGEX.test(lines[i + 1])) {
+            flushParagraph();
+            listIndents = [];
+            const rows = [splitTableRow(line)];
+            i += 2;
+            while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+                rows.push(splitTableRow(lines[i]));
+                i++;
+            }
+            i--;
+            blocks.push({ type: 'table', rows: rows.map(row => row.map(parseInline)) });
+            continue;
+        }
+
+        const quote = line.match(BLOCKQUOTE_REGEX);
+        if (quote) {
+            flushParagraph();
+            listIndents = [];
+            const quoteLines = [quote[1]];
+            while (i + 1 < lines.length && BLOCKQUOTE_REGEX.test(lines[i + 1]) && lines[i + 1].replace(/^[ \t]*>/, '').trim()) {
+                quoteLines.push(lines[++i].match(BLOCKQUOTE_REGEX)![1]);
+            }
+            blocks.push({ type: 'paragraph', inline: parseInline(quoteLines.join(' ')), quote: true });
+            continue;
+        }
+
+        // Indented continuation of a list item
+        const previous = blocks[blocks.length - 1];
+        if (paragraphLines.length === 0 && previous?.type === 'listItem' && /^[ \t]/.test(line) && i > 0 && lines[i - 1].trim()) {
+            const continuation = parseInline(line.trim());
+            const offset = previous.inline.text.length + 1;
+            previous.inline.text += ' ' + continuation.text;
+            continuation.styles.forEach(s => previous.inline.styles.push({ start: s.start + offset, end: s.end + offset, style: s.style }));
+            continuation.objects?.forEach(o => (previous.inline.objects ??= []).push({ ...o, offset: o.offset + offset }));
+            continue;
+        }
+
+        listIndents = [];
+        paragraphLines.push(line.trim());
+    }
+    flushParagraph();
+    return blocks;
+}
+
+/** Turns plain text into one unstyled paragraph block per line, so it can go through the same writer. */
+export function plainTextToBlocks(text: string): MarkdownBlock[] {
+    return text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n')
+        .map(line => ({ type: 'paragraph' as const, inline: { text: line, styles: [] } }));
+}
+
+// --- Request Building ---
+
+function buildTextStyleRequests(inline: MarkdownInline, offset: number): docs_v1.Schema$Request[] {
+    return inline.styles
+        .map(s => buildUpdateTextStyleRequest(offset + s.start, offset + s.end, s.style)?.request)
+        .filter((request): request is docs_v1.Schema$Request => !!request);
+}
+
+/**
+ * Builds the requests that add inline objects once their text is in place, last first so each
+ * insertion only shifts content that is already complete. Footnote text is collected in `footnotes`
+ * in the order of the createFootnote requests, as it can only be written once the footnotes exist.
+ */
+function buildInlineObjectRequests(objects: { index: number; object: MarkdownInlineObject }[], footnotes: string[]): docs_v1.Schema$Request[] {
+    return [...objects].sort((a, b) => b.index - a.index).map(({ index, object }) => {
+        if (object.kind === 'image') return buildInsertInlineImageRequest(object.uri, index);
+        footnotes.push(object.text);
+        return { createFootnote: { location: { index } } };
+    });
+}
+
+/**
+ * Builds the requests for a run of non-table blocks inserted as one piece of text at `index`.
+ * @param trailingNewline - False when a table follows: insertTable supplies the final newline
+ * @param footnotes - Collects the text of the footnotes created, see buildInlineObjectRequests
+ */
+function buildTextSegmentRequests(blocks: MarkdownBlock[], index: number, trailingNewline: boolean, footnotes: string[]): docs_v1.Schema$Request[] {
+    const styleRequests: docs_v1.Schema$Request[] = [];
+    const runs: DetectedListRun[] = [];
+    const objects: { index: number; object: MarkdownInlineObject }[] = [];
+    let text = '';
+
+    blocks.forEach((block, position) => {
+        if (block.type === 'table') return;
+        const start = index + text.length;
+        text += block.inline.text + (position < blocks.length - 1 || trailingNewline ? '\n' : '');
+        const end = index + text.length;
+        styleRequests.push(...buildTextStyleRequests(block.inline, start));
+        block.inline.objects?.forEach(object => objects.push({ index: start + object.offset, object }));
+
+        if (block.type === 'listItem') {
+            const run = runs[runs.length - 1];
+            const previous = blocks[position - 1];
+            const continuesRun = run && previous?.type === 'listItem' && (block.nestingLevel > 0 || run.numbered === block.ordered);
+            if (continuesRun) {
+                run.endIndex = end;
+                run.items.push({ startIndex: start, prefixLength: 0, nestingLevel: block.nestingLevel });
+            } else {
+                runs.push({ startIndex: start, endIndex: end, numbered: block.ordered, items: [{ startIndex: start, prefixLength: 0, nestingLevel: block.nestingLevel }] });
+            }
+            return;
+        }
+        if (end === start) return;
+        if (block.namedStyleType) {
+            styleRequests.push({ updateParagraphStyle: { range: { startIndex: start, endIndex: end }, paragraphStyle: { namedStyleType: block.namedStyleType }, fields: 'namedStyleType' } });
+        }
+        if (block.quote) {
+            styleRequests.push({
+                updateParagraphStyle: {
+                    range: { startIndex: start, endIndex: end },
+                    paragraphStyle: { indentStart: { magnitude: BLOCKQUOTE_INDENT_PT, unit: 'PT' }, indentFirstLine: { magnitude: BLOCKQUOTE_INDENT_PT, unit: 'PT' } },
+                    fields: 'indentStart,indentFirstLine',
+                }
+            });
+        }
+        if (block.code && block.inline.text) {
+            styleRequests.push(buildUpdateTextStyleRequest(start, start + block.inline.text.length, { fontFamily: CODE_FONT_FAMILY })!.request);
+        }
+    });
+
+    if (!text) return [];
+    const range = { startIndex: index, endIndex: index + text.length };
+    return [
+        { insertText: { location: { index }, text } },
+        // Reset the inherited style of the paragraph the text lands in; headings override it below
+        { updateParagraphStyle: { range, paragraphStyle: { namedStyleType: 'NORMAL_TEXT' }, fields: 'namedStyleType' } },
+        ...styleRequests,
+        // List tabs shift later text, so bullets come after every other style in the segment
+        ...buildListFormattingRequests(runs),
+        ...buildInlineObjectRequests(objects, footnotes),
+    ];
+}
+
+/**
+ * Builds the requests for a table inserted at `index`. insertTable adds a newline before the table,
+ * so the table starts at index + 1; cell positions of the new, empty table are computed from its
+ * shape and filled in descending order. The first row is treated as the header and bolded.
+ */
+function buildTableRequests(rows: MarkdownInline[][], index: number, footnotes: string[]): docs_v1.Schema$Request[] {
+    const columns = Math.max(...rows.map(row => row.length));
+    const tableStart = index + 1;
+    const requests: docs_v1.Schema$Request[] = [{ insertTable: { rows: rows.length, columns, location: { index } } }];
+
+    for (let r = rows.length - 1; r >= 0; r--) {
+        for (let c = columns - 1; c >= 0; c--) {
+            const cell = rows[r][c];
+            if (!cell?.text && !cell?.objects) continue;
+            const cellIndex = getEmptyTableCellIndex(tableStart, columns, r, c);
+            if (cell.text) {
+                requests.push({ insertText: { location: { index: cellIndex }, text: cell.text } });
+                if (r === 0) {
+                    requests.push(buildUpdateTextStyleRequest(cellIndex, cellIndex + cell.text.length, { bold: true })!.request);
+                }
+                requests.push(...buildTextStyleRequests(cell, cellIndex));
+            }
+            requests.push(...buildInlineObjectRequests((cell.objects || []).map(object => ({ index: cellIndex + object.offset, object })), footnotes));
+        }
+    }
+    return requests;
+}
+
+/**
+ * Converts parsed blocks into a single list of batchUpdate requests that insert the formatted content at `index`.
+ * `index` should be the start of a paragraph; the content is inserted in front of that paragraph.
+ * Blocks are emitted last-to-first at the same index so every request can use indices computed
+ * up front: each insertion only shifts content that has already been fully styled.
+ * @returns The requests, the number of blocks converted and the text of each footnote the requests
+ * create, in request order (see executeBlockRequests)
+ */
+export function buildBlockRequests(blocks: MarkdownBlock[], index: number): { requests: docs_v1.Schema$Request[]; blockCount: number; footnotes: string[] } {
+    if (blocks.length === 0) {
+        throw new UserError("There is no content to insert.");
+    }
+
+    // Group consecutive non-table blocks into text segments
+    const segments: MarkdownBlock[][] = [];
+    blocks.forEach(block => {
+        const last = segments[segments.length - 1];
+        if (block.type !== 'table' && last && last[0].type !== 'table') {
+            last.push(block);
+        } else {
+            segments.push([block]);
+        }
+    });
+
+    const requests: docs_v1.Schema$Request[] = [];
+    const footnotes: string[] = [];
+    for (let s = segments.length - 1; s >= 0; s--) {
+        const segment = segments[s];
+        if (segment[0].type === 'table') {
+            requests.push(...buildTableRequests(segment[0].rows, index, footnotes));
+        } else {
+            const followedByTable = segments[s + 1]?.[0].type === 'table';
+            requests.push(...buildTextSegmentRequests(segment, index, !followedByTable, footnotes));
+        }
+    }
+    return { requests, blockCount: blocks.length, footnotes };
+}
+
+/**
+ * Sends the requests built by buildBlockRequests (possibly with others around them) in one
+ * batchUpdate, then writes the text of the footnotes they created. Footnote IDs only exist once the
+ * footnotes do, so that text needs a second batchUpdate.
+ */
+export async function executeBlockRequests(docs: Docs, documentId: string, requests: docs_v1.Schema$Request[], footnotes: string[], options: BatchUpdateOptions = {}): Promise<void> {
+    const result = await executeBatchUpdate(docs, documentId, requests, options);
+    if (footnotes.length === 0) return;
+    const footnoteIds = requests.flatMap((request, position) => request.createFootnote ? [result.replies?.[position]?.createFootnote?.footnoteId] : []);
+    await fillFootnotes(docs, documentId, footnotes.map((text, position) => ({ footnoteId: footnoteIds[position], text })));
+}
+
+/**
+ * Converts markdown into the batchUpdate requests that insert it as formatted content at `index`.
+ * @returns The requests, the number of blocks converted and the footnote text, see buildBlockRequests
+ */
+export function buildMarkdownRequests(markdown: string, index: number): { requests: docs_v1.Schema$Request[]; blockCount: number; footnotes: string[] } {
+    return buildBlockRequests(parseMarkdownBlocks(markdown), index);
+}
+
+/**
+ * Inserts parsed blocks as formatted content in one batchUpdate, plus one for the text of any footnotes.
+ * With an index inside a paragraph, the paragraph is split first so the content starts on its own line.
+ * Without an index, the content is appended after the last paragraph of the body.
+ * @returns The number of blocks inserted
+ */
+export async function insertBlocks(docs: Docs, documentId: string, blocks: MarkdownBlock[], index?: number): Promise<number> {
+    const prefix: docs_v1.Schema$Request[] = [];
+    let insertAt: number;
+    let revisionId: string | undefined;
+
+    if (index === undefined) {
+        const res = await docs.documents.get({ documentId, fields: 'revisionId,body(content(startIndex,endIndex))' });
+        const appendPoint = buildAppendPointRequests(res.data.body?.content || []);
+        prefix.push(...appendPoint.requests);
+        insertAt = appendPoint.insertAt;
+        revisionId = res.data.revisionId || undefined;
+    } else {
+        const paragraphRange = await getParagraphRange(docs, documentId, index);
+        if (!paragraphRange) {
+            throw new UserError(`Could not find a paragraph containing index ${index}.`);
+        }
+        insertAt = index;
+        if (paragraphRange.startIndex !== index) {
+            prefix.push({ insertText: { location: { index }, text: '\n' } });
+            insertAt++;
+        }
+    }
+
+    const { requests, blockCount, footnotes } = buildBlockRequests(blocks, insertAt);
+    await executeBlockRequests(docs, documentId, [...prefix, ...requests], footnotes, { requiredRevisionId: revisionId });
+    return blockCount;
+}
+
+/**
+ * Inserts markdown as formatted content. See insertBlocks for where it lands.
+ * @returns The number of markdown blocks inserted
+ */
+export async function insertMarkdown(docs: Docs, documentId: string, markdown: string, index?: number): Promise<number> {
+    return insertBlocks(docs, documentId, parseMarkdownBlocks(markdown), index);
+}
+
+// --- Markdown Export ---
+
+const MONOSPACE_FONT_REGEX = /^(courier new|courier|consolas|roboto mono|source code pro|inconsolata|monaco|menlo|fira code|fira mono|ubuntu mono|jetbrains mono|space mono|monospace)$/i;
+const LIST_INDENT = '    ';
+
+/** A converted body element before blocks are joined; list items and code lines are joined without blank lines. */
+type ExportItem = { kind: 'block' | 'code'; text: string } | { kind: 'listItem'; text: string; listId: string } | { kind: 'empty' };
+
+export function isMonospace(textStyle: docs_v1.Schema$TextStyle | undefined): boolean {
+    const fontFamily = textStyle?.weightedFontFamily?.fontFamily;
+    return !!fontFamily && MONOSPACE_FONT_REGEX.test(fontFamily);
+}
+
+/**
+ * Escapes characters the inline parser would read as formatting, including literal <u> tags.
+ * Underscores between word characters are left alone since they are never treated as emphasis.
+ */
+function escapeMarkdownText(text: string): string {
+    return text.replace(/[\\`*~\[\]]/g, '\\$&').replace(/(^|[^\w\\])_/g, '$1\\_').replace(/<(?=\/?u>)/g, '\\<');
+}
+
+/**
+ * Converts a text run to markdown. Leading/trailing whitespace and newlines stay outside the
+ * delimiters so styled runs never produce `**text\n**`.
+ */
+function convertTextRunToMarkdown(content: string, textStyle: docs_v1.Schema$TextStyle | undefined): string {
+    const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    const [, leading, core, trailing] = match;
+    if (!core) return content;
+
+    let text: string;
+    if (isMonospace(textStyle)) {
+        text = `\`${core}\``;
+    } else {
+        text = escapeMarkdownText(core);
+        if (textStyle?.bold && textStyle?.italic) {
+            text = `***${text}***`;
+        } else if (textStyle?.bold) {
+            text = `**${text}**`;
+        } else if (textStyle?.italic) {
+            text = `*${text}*`;
+        }
+        if (textStyle?.strikethrough) text = `~~${text}~~`;
+        // Markdown has no underline; links are underlined by default so skip those
+        if (textStyle?.underline && !textStyle.link) text = `<u>${text}</u>`;
+    }
+    if (textStyle?.link?.url) text = `[${text}](${textStyle.link.url})`;
+    return leading + text + trailing;
+}
+
+/**
+ * Converts the elements of a paragraph to inline markdown. Adjacent runs with the same markdown-relevant
+ * style are merged first so `**a**` + `**b**` becomes `**ab**`.
+ * @param footnoteNumbers - Collects the footnotes referenced, in order, so their definitions can be appended
+ */
+function convertParagraphElementsToMarkdown(
+    elements: docs_v1.Schema$ParagraphElement[] | undefined,
+    doc: docs_v1.Schema$Document,
+    footnoteNumbers: Map<string, string>
+): string {
+    const parts: string[] = [];
+    let pending: { content: string; textStyle?: docs_v1.Schema$TextStyle; key: string } | null = null;
+    const flush = () => {
+        if (pending) parts.push(convertTextRunToMarkdown(pending.content, pending.textStyle));
+        pending = null;
+    };
+
+    (elements || []).forEach(element => {
+        if (element.textRun) {
+            const textStyle = element.textRun.textStyle;
+            const key = JSON.stringify([
+                !!textStyle?.bold, !!textStyle?.italic, !!textStyle?.strikethrough, !!textStyle?.underline,
+                textStyle?.link?.url || '', isMonospace(textStyle),
+            ]);
+            const content = (element.textRun.content || '').replace(/\n$/, '');
+            if (pending && pending.key === key) {
+                pending.content += content;
+            } else {
+                flush();
+                pending = { content, textStyle, key };
+            }
+            return;
+        }
+        flush();
+        if (element.inlineObjectElement?.inlineObjectId) {
+            const embedded = doc.inlineObjects?.[element.inlineObjectElement.inlineObjectId]?.inlineObjectProperties?.embeddedObject;
+            const uri = embedded?.imageProperties?.contentUri || embedded?.imageProperties?.sourceUri;
+            if (uri) parts.push(`![${escapeMarkdownText(embedded?.description || embedded?.title || '')}](${uri})`);
+        } else if (element.footnoteReference?.footnoteId) {
+            const number = element.footnoteReference.footnoteNumber || String(footnoteNumbers.size + 1);
+            footnoteNumbers.set(element.footnoteReference.footnoteId, number);
+            parts.push(`[^${number}]`);
+        } else if (element.horizontalRule) {
+            parts.push('---');
+        }
+    });
+    flush();
+    return parts.join('').replace(/\v/g, '  \n');
+}
+
+function convertTableToMarkdown(table: docs_v1.Schema$Table, doc: docs_v1.Schema$Document, footnoteNumbers: Map<string, string>): string {
+    const rows = (table.tableRows || []).map(row => (row.tableCells || []).map(cell =>
+        (cell.content || [])
+            .map(element => element.paragraph ? convertParagraphElementsToMarkdown(element.paragraph.elements, doc, footnoteNumbers) : '')
+            .filter(text => text.trim())
+            .join(' ')
+            .replace(/\s*\n\s*/g, ' ')
+            .replace(/\|/g, '\\|')
+    ));
+    if (rows.length === 0) return '';
+
+    const columns = Math.max(...rows.map(row => row.length));
+    const formatRow = (cells: string[]) => `| ${Array.from({ length: columns }, (_, c) => cells[c] || '').join(' | ')} |`;
+    return [
+        formatRow(rows[0]),
+        `|${' --- |'.repeat(columns)}`,
+        ...rows.slice(1).map(formatRow),
+    ].join('\n');
+}
+
+/**
+ * Converts a Google Docs document (as returned by documents.get with all fields) to markdown.
+ * Lists use the document's `lists` map to choose ordered vs unordered markers per nesting level,
+ * runs in a monospace font become code spans (whole paragraphs become fenced code blocks),
+ * images become `![](contentUri)` and footnotes become `[^n]` references with definitions at the end.
+ * The output is written so that insertMarkdown reproduces the same structure.
+ */
+export function convertDocsJsonToMarkdown(doc: docs_v1.Schema$Document): string {
+    const content = doc.body?.content;
+    if (!content || content.length === 0) {
+        return 'Document appears to be empty.';
+    }
+
+    const footnoteNumbers = new Map<string, string>();
+    // Per list, the running count of items at each nesting level
+    const listCounters = new Map<string, number[]>();
+    const items: ExportItem[] = [];
+
+    content.forEach((element, position) => {
+        if (element.table) {
+            items.push({ kind: 'block', text: convertTableToMarkdown(element.table, doc, footnoteNumbers) });
+            return;
+        }
+        if (element.sectionBreak) {
+            // Every body starts with a section break; only later ones mark a visible boundary
+            if (position > 0) items.push({ kind: 'block', text: '---' });
+            return;
+        }
+        const paragraph = element.paragraph;
+        if (!paragraph) return;
+
+        const text = convertParagraphElementsToMarkdown(paragraph.elements, doc, footnoteNumbers);
+        if (!text.trim()) {
+            items.push({ kind: 'empty' });
+            return;
+        }
+
+        // A paragraph made up only of monospace text is a line of a code block
+        const visibleElements = (paragraph.elements || []).filter(e => e.textRun?.content !== '\n');
+        if (!paragraph.bullet && visibleElements.every(e => e.textRun && isMonospace(e.textRun.textStyle))) {
+            items.push({ kind: 'code', text: visibleElements.map(e => e.textRun!.content!.replace(/\n$/, '')).join('') });
+            return;
+        }
+
+        if (paragraph.bullet) {
+            const listId = paragraph.bullet.listId || '';
+            const level = paragraph.bullet.nestingLevel || 0;
+            const counters = listCounters.get(listId) || [];
+            counters[level] = (counters[level] || 0) + 1;
+            counters.length = level + 1; // Deeper levels restart after a shallower item
+            listCounters.set(listId, counters);
+            const marker = isNumberedList(doc.lists?.[listId], level) ? `${counters[level]}.` : '-';
+            items.push({ kind: 'listItem', text: `${LIST_INDENT.repeat(level)}${marker} ${text.trim()}`, listId });
+            return;
+        }
+
+        const namedStyleType = paragraph.paragraphStyle?.namedStyleType;
+        const headingRank = getHeadingRank(namedStyleType);
+        // TITLE shares the top level with HEADING_1; SUBTITLE reads best as a second-level heading
+        const headingLevel = namedStyleType === 'SUBTITLE' ? 2 : headingRank === null ? 0 : Math.max(headingRank, 1);
+        if (headingLevel > 0) {
+            items.push({ kind: 'block', text: `${'#'.repeat(Math.min(headingLevel, 6))} ${text.trim()}` });
+            return;
+        }
+
+        let blockText = text.trim();
+        if (blockText !== '---') {
+            // Keep text that looks like block syntax (headings, list markers, quotes) literal
+            blockText = blockText.replace(/^(#{1,6}[ \t]|[-+][ \t]|>)/, '\\$1').replace(/^(\d{1,9})([.)][ \t])/, '$1\\$2');
+        }
+        if ((paragraph.paragraphStyle?.indentStart?.magnitude || 0) > 0 && (paragraph.paragraphStyle?.indentFirstLine?.magnitude || 0) > 0) {
+            blockText = `> ${blockText}`;
+        }
+        items.push({ kind: 'block', text: blockText });
+    });
+
+    // Join: items of one list and code lines stay on consecutive lines, everything else is separated by a blank line
+    const blocks: string[] = [];
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        const previous = items[i - 1];
+        if (item.kind === 'empty') continue;
+        if (item.kind === 'code') {
+            const lines = [item.text];
+            // Empty paragraphs inside a code block are blank code lines
+            while (i + 1 < items.length) {
+                let next = i + 1;
+                while (next < items.length && items[next].kind === 'empty') next++;
+                if (items[next]?.kind !== 'code') break;
+                for (let blank = i + 1; blank < next; blank++) lines.push('');
+                lines.push((items[next] as { text: string }).text);
+                i = next;
+            }
+            blocks.push(['```', ...lines, '```'].join('\n'));
+        } else if (item.kind === 'listItem' && previous?.kind === 'listItem' && previous.listId === item.listId) {
+            blocks[blocks.length - 1] += `\n${item.text}`;
+        } else {
+            blocks.push(item.text);
+        }
+    }
+
+    if (footnoteNumbers.size > 0) {
+        const definitions = [...footnoteNumbers].map(([footnoteId, number]) => {
+            const footnoteText = (doc.footnotes?.[footnoteId]?.content || [])
+                .map(element => element.paragraph ? convertParagraphElementsToMarkdown(element.paragraph.elements, doc, new Map()).trim() : '')
+                .filter(Boolean)
+                .join(' ');
+            return `[^${number}]: ${footnoteText}`;
+        });
+        blocks.push(definitions.join('\n'));
+    }
+
+    return blocks.join('\n\n').trim();
+}
+
+// --- Markdown Fidelity ---
+
+const TEXT_STYLE_LABELS: Record<string, string> = {
+    fontSize: 'font sizes',
+    foregroundColor: 'text colors',
+    backgroundColor: 'highlight colors',
+    weightedFontFamily: 'fonts',
+    baselineOffset: 'superscript or subscript text',
+    smallCaps: 'small caps',
+};
+
+const PARAGRAPH_STYLE_LABELS: Record<string, string> = {
+    alignment: 'paragraph alignment',
+    lineSpacing: 'line spacing',
+    spaceAbove: 'paragraph spacing',
+    spaceBelow: 'paragraph spacing',
+    indentStart: 'indentation',
+    indentEnd: 'indentation',
+    indentFirstLine: 'indentation',
+    direction: 'right-to-left text',
+    shading: 'paragraph shading',
+    keepLinesTogether: 'pagination settings',
+    keepWithNext: 'pagination settings',
+    avoidWidowAndOrphan: 'pagination settings',
+};
+
+// True for style values that change something: not unset, false, empty or a zero length
+function hasStyleValue(value: unknown): boolean {
+    if (value === undefined || value === null || value === false) return false;
+    if (typeof value !== 'object') return true;
+    if ('magnitude' in value || 'unit' in value) return !!(value as docs_v1.Schema$Dimension).magnitude;
+    return Object.keys(value).length > 0;
+}
+
+function describeLostTextStyle(textStyle: docs_v1.Schema$TextStyle | undefined): string | null {
+    if (!textStyle) return null;
+    if (isMonospace(textStyle) && (textStyle.bold || textStyle.italic || textStyle.strikethrough || textStyle.underline)) return 'formatted code';
+    for (const [key, value] of Object.entries(textStyle)) {
+        if (!hasStyleValue(value) || ['bold', 'italic', 'strikethrough', 'underline', 'link'].includes(key)) continue;
+        // Links get a color of their own; code is written back in CODE_FONT_FAMILY
+        if (key === 'foregroundColor' && textStyle.link) continue;
+        if (key === 'weightedFontFamily' && textStyle.weightedFontFamily?.fontFamily === CODE_FONT_FAMILY && (textStyle.weightedFontFamily.weight ?? 400) === 400) continue;
+        if (key === 'baselineOffset' && value === 'NONE') continue;
+        return TEXT_STYLE_LABELS[key] || `text ${key}`;
+    }
+    return null;
+}
+
+function describeLostParagraph(paragraph: docs_v1.Schema$Paragraph, inTable: boolean): string | null {
+    const style = paragraph.paragraphStyle || {};
+    const namedStyleType = style.namedStyleType || 'NORMAL_TEXT';
+    // Markdown headings become HEADING_n; TITLE and SUBTITLE would come back as headings, and table cells hold no headings
+    if (namedStyleType !== 'NORMAL_TEXT' && (inTable || namedStyleType === 'TITLE' || getHeadingRank(namedStyleType) === null)) {
+        return `${namedStyleType} paragraphs`;
+    }
+
+    const isQuote = !paragraph.bullet && hasStyleValue(style.indentStart) && hasStyleValue(style.indentFirstLine);
+    for (const [key, value] of Object.entries(style)) {
+        if (!hasStyleValue(value) || key === 'namedStyleType' || key === 'headingId') continue;
+        if (key === 'direction' && value === 'LEFT_TO_RIGHT') continue;
+        // List items get their indents from the bullets; blockquotes are written back with BLOCKQUOTE_INDENT_PT
+        if ((key === 'indentStart' || key === 'indentFirstLine')
+            && (paragraph.bullet || (isQuote && value.magnitude === BLOCKQUOTE_INDENT_PT && value.unit === 'PT'))) continue;
+        return PARAGRAPH_STYLE_LABELS[key] || (key.startsWith('border') ? 'paragraph borders' : `paragraph ${key}`);
+    }
+
+    for (const element of paragraph.elements || []) {
+        if (element.textRun) {
+            if (element.textRun.content?.includes('\v')) return 'line breaks';
+            const lost = describeLostTextStyle(element.textRun.textStyle);
+            if (lost) return lost;
+        } else if (element.inlineObjectElement) {
+            return 'images';
+        } else if (element.footnoteReference) {
+            return 'footnotes';
+        } else if (element.horizontalRule) {
+            return 'horizontal lines';
+        } else if (element.pageBreak) {
+            return 'page breaks';
+        } else {
+            return 'embedded elements';
+        }
+    }
+    return null;
+}
+
+/**
+ * Checks whether content survives a trip through convertDocsJsonToMarkdown and insertMarkdown
+ * unchanged, apart from empty paragraphs, list glyphs and table styling, which markdown does not record.
+ * @returns A description of the first formatting that would be lost (e.g. "text colors"), or null
+ */
+export function describeFormattingLostInMarkdown(content: docs_v1.Schema$StructuralElement[], inTable: boolean = false): string | null {
+    for (const element of content) {
+        if (element.sectionBreak) return 'section breaks';
+        if (element.tableOfContents) return 'a table of contents';
+        if (element.paragraph) {
+            const lost = describeLostParagraph(element.paragraph, inTable);
+            if (lost) return lost;
+        }
+        if (!element.table) continue;
+        if (inTable) return 'nested tables';
+        for (const [r, row] of (element.table.tableRows || []).entries()) {
+            for (const cell of row.tableCells || []) {
+                const paragraphs = (cell.content || []).filter(e => e.paragraph && e.paragraph.elements?.some(pe => !pe.textRun || pe.textRun.content?.trim()));
+                if (paragraphs.length > 1) return 'table cells with several paragraphs';
+                // The first row is written back as a bold header row
+                if (r === 0 && paragraphs.some(e => e.paragraph!.elements!.some(pe => pe.textRun?.content?.trim() && !pe.textRun.textStyle?.bold))) {
+                    return 'a table whose first row is not bold';
+                }
+                const lost = describeFormattingLostInMarkdown(cell.content || [], true);
+                if (lost) return lost;
+            }
+        }
+    }
+    return null;
+}
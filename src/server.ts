@@ -11,15 +11,35 @@ DocumentIdParameter,
 RangeParameters,
 OptionalRangeParameters,
 TextFindParameter,
+TextSearchOptionsParameter,
+EditOperationParameter,
+NamedRangeNameParameter,
+NamedRangeAnchorParameters,
+HeaderFooterVariantParameter,
+DocumentStyleParameters,
+SectionStyleParameters,
+StylePresetNameParameter,
+StylePresetParameter,
+ThemeParameter,
+ParagraphTargetParameter,
+BulletPresetParameter,
+TableSelectorParameter,
+SectionTargetParameter,
+ElementQueryParameters,
+TableCellStyleParameters,
 TextStyleParameters,
 TextStyleArgs,
 ParagraphStyleParameters,
 ParagraphStyleArgs,
 ApplyTextStyleToolParameters, ApplyTextStyleToolArgs,
 ApplyParagraphStyleToolParameters, ApplyParagraphStyleToolArgs,
-NotImplementedError
+NotImplementedError,
+validateHexColor
 } from './types.js';
 import * as GDocsHelpers from './googleDocsApiHelpers.js';
+import * as MarkdownHelpers from './markdown.js';
+import * as HtmlHelpers from './html.js';
+import * as StylePresetHelpers from './stylePresets.js';
 
 let authClient: OAuth2Client | null = null;
 let googleDocs: docs_v1.Docs | null = null;
@@ -95,166 +115,6 @@ throw new UserError("Google Drive client is not initialized. Authentication migh
 return drive;
 }
 
-// === HELPER FUNCTIONS ===
-
-/**
- * Converts Google Docs JSON structure to Markdown format
- */
-function convertDocsJsonToMarkdown(docData: any): string {
-    let markdown = '';
-    
-    if (!docData.body?.content) {
-        return 'Document appears to be empty.';
-    }
-    
-    docData.body.content.forEach((element: any) => {
-        if (element.paragraph) {
-            markdown += convertParagraphToMarkdown(element.paragraph);
-        } else if (element.table) {
-            markdown += convertTableToMarkdown(element.table);
-        } else if (element.sectionBreak) {
-            markdown += '\n---\n\n'; // Section break as horizontal rule
-        }
-    });
-    
-    return markdown.trim();
-}
-
-/**
- * Converts a paragraph element to markdown
- */
-function convertParagraphToMarkdown(paragraph: any): string {
-    let text = '';
-    let isHeading = false;
-    let headingLevel = 0;
-    let isList = false;
-    let listType = '';
-    
-    // Check paragraph style for headings and lists
-    if (paragraph.paragraphStyle?.namedStyleType) {
-        const styleType = paragraph.paragraphStyle.namedStyleType;
-        if (styleType.startsWith('HEADING_')) {
-            isHeading = true;
-            headingLevel = parseInt(styleType.replace('HEADING_', ''));
-        } else if (styleType === 'TITLE') {
-            isHeading = true;
-            headingLevel = 1;
-        } else if (styleType === 'SUBTITLE') {
-            isHeading = true;
-            headingLevel = 2;
-        }
-    }
-    
-    // Check for bullet lists
-    if (paragraph.bullet) {
-        isList = true;
-        listType = paragraph.bullet.listId ? 'bullet' : 'bullet';
-    }
-    
-    // Process text elements
-    if (paragraph.elements) {
-        paragraph.elements.forEach((element: any) => {
-            if (element.textRun) {
-                text += convertTextRunToMarkdown(element.textRun);
-            }
-        });
-    }
-    
-    // Format based on style
-    if (isHeading && text.trim()) {
-        const hashes = '#'.repeat(Math.min(headingLevel, 6));
-        return `${hashes} ${text.trim()}\n\n`;
-    } else if (isList && text.trim()) {
-        return `- ${text.trim()}\n`;
-    } else if (text.trim()) {
-        return `${text.trim()}\n\n`;
-    }
-    
-    return '\n'; // Empty paragraph
-}
-
-/**
- * Converts a text run to markdown with formatting
- */
-function convertTextRunToMarkdown(textRun: any): string {
-    let text = textRun.content || '';
-    
-    if (textRun.textStyle) {
-        const style = textRun.textStyle;
-        
-        // Apply formatting
-        if (style.bold && style.italic) {
-            text = `***${text}***`;
-        } else if (style.bold) {
-            text = `**${text}**`;
-        } else if (style.italic) {
-            text = `*${text}*`;
-        }
-        
-        if (style.underline && !style.link) {
-            // Markdown doesn't have native underline, use HTML
-            text = `<u>${text}</u>`;
-        }
-        
-        if (style.strikethrough) {
-            text = `~~${text}~~`;
-        }
-        
-        if (style.link?.url) {
-            text = `[${text}](${style.link.url})`;
-        }
-    }
-    
-    return text;
-}
-
-/**
- * Converts a table to markdown format
- */
-function convertTableToMarkdown(table: any): string {
-    if (!table.tableRows || table.tableRows.length === 0) {
-        return '';
-    }
-    
-    let markdown = '\n';
-    let isFirstRow = true;
-    
-    table.tableRows.forEach((row: any) => {
-        if (!row.tableCells) return;
-        
-        let rowText = '|';
-        row.tableCells.forEach((cell: any) => {
-            let cellText = '';
-            if (cell.content) {
-                cell.content.forEach((element: any) => {
-                    if (element.paragraph?.elements) {
-                        element.paragraph.elements.forEach((pe: any) => {
-                            if (pe.textRun?.content) {
-                                cellText += pe.textRun.content.replace(/\n/g, ' ').trim();
-                            }
-                        });
-                    }
-                });
-            }
-            rowText += ` ${cellText} |`;
-        });
-        
-        markdown += rowText + '\n';
-        
-        // Add header separator after first row
-        if (isFirstRow) {
-            let separator = '|';
-            for (let i = 0; i < row.tableCells.length; i++) {
-                separator += ' --- |';
-            }
-            markdown += separator + '\n';
-            isFirstRow = false;
-        }
-    });
-    
-    return markdown + '\n';
-}
-
 // === TOOL DEFINITIONS ===
 
 // --- Foundational Tools ---
@@ -263,18 +123,19 @@ server.addTool({
 name: 'readGoogleDoc',
 description: 'Reads the content of a specific Google Document, optionally returning structured data.',
 parameters: DocumentIdParameter.extend({
-format: z.enum(['text', 'json', 'markdown']).optional().default('text')
-.describe("Output format: 'text' (plain text), 'json' (raw API structure, complex), 'markdown' (experimental conversion)."),
-maxLength: z.number().optional().describe('Maximum character limit for text output. If not specified, returns full document content. Use this to limit very large documents.')
+format: z.enum(['text', 'json', 'markdown', 'html']).optional().default('text')
+.describe("Output format: 'text' (plain text), 'json' (raw API structure, complex), 'markdown' (headings, nested ordered/unordered lists, tables, code, images and footnotes; round-trips through insertMarkdown), 'html' (semantic HTML with headings, lists, tables, links, inline styles and images)."),
+maxLength: z.number().optional().describe('Maximum character limit for text output. If not specified, returns full document content. Use this to limit very large documents.'),
+includeHeadersFooters: z.boolean().optional().describe('Include header and footer text (after the body in text and markdown, as <header>/<footer> in HTML). Defaults to true, except for markdown, whose output then stays ready to insert again. Footnotes are always included.')
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
 log.info(`Reading Google Doc: ${args.documentId}, Format: ${args.format}`);
 
     try {
-        const fields = args.format === 'json' || args.format === 'markdown'
+        const fields = args.format === 'json' || args.format === 'markdown' || args.format === 'html'
             ? '*' // Get everything for structure analysis
-            : 'body(content(paragraph(elements(textRun(content)))))'; // Just text content
+            : 'body(content(paragraph(elements(textRun(content),footnoteReference)),table)),documentStyle,headers,footers,footnotes'; // Text content, headers, footers and footnotes
 
         const res = await docs.documents.get({
             documentId: args.documentId,
@@ -291,8 +152,18 @@ log.info(`Reading Google Doc: ${args.documentId}, Format: ${args.format}`);
             return jsonContent;
         }
 
+        const includeHeadersFooters = args.includeHeadersFooters ?? args.format !== 'markdown';
+        const headersFooters = includeHeadersFooters ? GDocsHelpers.listHeadersFooters(res.data).filter(hf => hf.text) : [];
+        const headerFooterLabel = (hf: GDocsHelpers.HeaderFooterInfo) => {
+            const label = GDocsHelpers.describeHeaderFooter(hf.kind, hf.variant);
+            return `${label[0].toUpperCase()}${label.slice(1)}`;
+        };
+
         if (args.format === 'markdown') {
-            const markdownContent = convertDocsJsonToMarkdown(res.data);
+            let markdownContent = MarkdownHelpers.convertDocsJsonToMarkdown(res.data);
+            if (headersFooters.length > 0) {
+                markdownContent += `\n\n---\n\n${headersFooters.map(hf => `**${headerFooterLabel(hf)}:** ${hf.text.replace(/\n/g, ' / ')}`).join('\n\n')}`;
+            }
             const totalLength = markdownContent.length;
             log.info(`Generated markdown: ${totalLength} characters`);
             
@@ -305,6 +176,24 @@ log.info(`Reading Google Doc: ${args.documentId}, Format: ${args.format}`);
             return markdownContent;
         }
 
+        if (args.format === 'html') {
+            const headerFooterHtml = (hf: GDocsHelpers.HeaderFooterInfo) =>
+                `<${hf.kind} data-variant="${hf.variant}">${hf.text.split('\n').map(line => `<p>${HtmlHelpers.escapeHtml(line)}</p>`).join('')}</${hf.kind}>`;
+            const htmlContent = [
+                ...headersFooters.filter(hf => hf.kind === 'header').map(headerFooterHtml),
+                HtmlHelpers.convertDocsJsonToHtml(res.data),
+                ...headersFooters.filter(hf => hf.kind === 'footer').map(headerFooterHtml),
+            ].join('\n');
+            const totalLength = htmlContent.length;
+            log.info(`Generated HTML: ${totalLength} characters`);
+
+            if (args.maxLength && totalLength > args.maxLength) {
+                return `${htmlContent.substring(0, args.maxLength)}\n\n<!-- HTML truncated to ${args.maxLength} chars of ${totalLength} total. Use maxLength parameter to adjust limit or remove it to get full content. -->`;
+            }
+
+            return htmlContent;
+        }
+
         // Default: Text format - extract all text content
         let textContent = '';
         let elementCount = 0;
@@ -318,6 +207,8 @@ log.info(`Reading Google Doc: ${args.documentId}, Format: ${args.format}`);
                 element.paragraph.elements.forEach(pe => {
                     if (pe.textRun?.content) {
                         textContent += pe.textRun.content;
+                    } else if (pe.footnoteReference) {
+                        textContent += `[${pe.footnoteReference.footnoteNumber}]`;
                     }
                 });
             }
@@ -330,6 +221,8 @@ log.info(`Reading Google Doc: ${args.documentId}, Format: ${args.format}`);
                             cellElement.paragraph?.elements?.forEach(pe => {
                                 if (pe.textRun?.content) {
                                     textContent += pe.textRun.content;
+                                } else if (pe.footnoteReference) {
+                                    textContent += `[${pe.footnoteReference.footnoteNumber}]`;
                                 }
                             });
                         });
@@ -338,6 +231,15 @@ log.info(`Reading Google Doc: ${args.documentId}, Format: ${args.format}`);
             }
         });
 
+        // Headers, footers and footnotes follow the body
+        headersFooters.forEach(hf => {
+            textContent += `\n--- ${headerFooterLabel(hf)} ---\n${hf.text}\n`;
+        });
+        const footnotes = GDocsHelpers.collectFootnotes(res.data);
+        if (footnotes.length > 0) {
+            textContent += `\n--- Footnotes ---\n${footnotes.map(f => `[${f.number}] ${f.text}`).join('\n')}\n`;
+        }
+
         if (!textContent.trim()) return "Document found, but appears empty.";
 
         const totalLength = textContent.length;
@@ -378,12 +280,19 @@ description: 'Appends text to the very end of a specific Google Document.',
 parameters: DocumentIdParameter.extend({
 textToAppend: z.string().min(1).describe('The text to add to the end.'),
 addNewlineIfNeeded: z.boolean().optional().default(true).describe("Automatically add a newline before the appended text if the doc doesn't end with one."),
+markdown: z.boolean().optional().default(false).describe('If true, textToAppend is parsed as markdown (headings, bold/italic/code, links, lists, tables) and appended as formatted content.'),
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
-log.info(`Appending to Google Doc: ${args.documentId}`);
+log.info(`Appending to Google Doc: ${args.documentId}${args.markdown ? ' (markdown)' : ''}`);
 
     try {
+        if (args.markdown) {
+            const blockCount = await MarkdownHelpers.insertMarkdown(docs, args.documentId, args.textToAppend);
+            log.info(`Successfully appended ${blockCount} markdown blocks to doc: ${args.documentId}`);
+            return `Successfully appended formatted markdown (${blockCount} blocks) to document ${args.documentId}.`;
+        }
+
         // Get the current end index
         const docInfo = await docs.documents.get({ documentId: args.documentId, fields: 'body(content(endIndex)),documentStyle(pageSize)' }); // Need content for endIndex
         let endIndex = 1;
@@ -419,17 +328,22 @@ log.info(`Appending to Google Doc: ${args.documentId}`);
 
 server.addTool({
 name: 'insertText',
-description: 'Inserts text at a specific index within the document body.',
+description: 'Inserts text at a specific index, or at the start or end of a named range, within the document body.',
 parameters: DocumentIdParameter.extend({
 textToInsert: z.string().min(1).describe('The text to insert.'),
-index: z.number().int().min(1).describe('The index (1-based) where the text should be inserted.'),
+index: z.number().int().min(1).optional().describe('The index (1-based) where the text should be inserted. Provide either this or namedRange.'),
+...NamedRangeAnchorParameters.shape,
+}).refine(data => (data.index === undefined) !== (data.namedRange === undefined), {
+message: "Provide exactly one of index or namedRange.",
+path: ["index"],
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
-log.info(`Inserting text in doc ${args.documentId} at index ${args.index}`);
+log.info(`Inserting text in doc ${args.documentId} at ${args.namedRange ? `${args.namedRangePosition} of named range "${args.namedRange}"` : `index ${args.index}`}`);
 try {
-await GDocsHelpers.insertText(docs, args.documentId, args.textToInsert, args.index);
-return `Successfully inserted text at index ${args.index}.`;
+const index = args.namedRange ? await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition) : args.index!;
+await GDocsHelpers.insertText(docs, args.documentId, args.textToInsert, index);
+return `Successfully inserted text at index ${index}.`;
 } catch (error: any) {
 log.error(`Error inserting text in doc ${args.documentId}: ${error.message || error}`);
 if (error instanceof UserError) throw error;
@@ -438,30 +352,87 @@ throw new UserError(`Failed to insert text: ${error.message || 'Unknown error'}`
 }
 });
 
+server.addTool({
+name: 'insertMarkdown',
+description: 'Inserts markdown as formatted content: headings, bold/italic/strikethrough, <u>underline</u>, inline code, links, images (![](url)), footnotes ([^1] with a "[^1]: text" definition), bulleted and numbered (nested) lists, code blocks, blockquotes and tables. All content is written in a single batch update; footnote text follows in a second one.',
+parameters: DocumentIdParameter.extend({
+markdown: z.string().min(1).describe('The markdown to insert.'),
+index: z.number().int().min(1).optional().describe('Optional: The index (1-based) to insert at. Inside a paragraph, the paragraph is split so the content starts on its own line. If omitted (and no namedRange is given), the content is appended to the end of the document.'),
+...NamedRangeAnchorParameters.shape,
+}).refine(data => data.index === undefined || data.namedRange === undefined, {
+message: "Provide at most one of index or namedRange.",
+path: ["index"],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Inserting markdown in doc ${args.documentId} at ${args.namedRange ? `named range "${args.namedRange}"` : args.index ?? 'end'}`);
+try {
+const index = args.namedRange ? await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition) : args.index;
+const blockCount = await MarkdownHelpers.insertMarkdown(docs, args.documentId, args.markdown, index);
+return `Successfully inserted ${blockCount} markdown block(s) ${index ? `at index ${index}` : 'at the end of the document'}.`;
+} catch (error: any) {
+log.error(`Error inserting markdown in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to insert markdown: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'insertHtml',
+description: 'Inserts HTML as formatted content: headings, paragraphs, bold/italic/underline/strikethrough, inline code, links, text colors and fonts from style attributes, nested ul/ol lists, blockquotes, pre blocks and tables. Images and scripts are ignored. All content is written in a single batch update.',
+parameters: DocumentIdParameter.extend({
+html: z.string().min(1).describe('The HTML (a fragment or a full document) to insert.'),
+index: z.number().int().min(1).optional().describe('Optional: The index (1-based) to insert at. Inside a paragraph, the paragraph is split so the content starts on its own line. If omitted (and no namedRange is given), the content is appended to the end of the document.'),
+...NamedRangeAnchorParameters.shape,
+}).refine(data => data.index === undefined || data.namedRange === undefined, {
+message: "Provide at most one of index or namedRange.",
+path: ["index"],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Inserting HTML in doc ${args.documentId} at ${args.namedRange ? `named range "${args.namedRange}"` : args.index ?? 'end'}`);
+try {
+const index = args.namedRange ? await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition) : args.index;
+const blockCount = await HtmlHelpers.insertHtml(docs, args.documentId, args.html, index);
+return `Successfully inserted ${blockCount} HTML block(s) ${index ? `at index ${index}` : 'at the end of the document'}.`;
+} catch (error: any) {
+log.error(`Error inserting HTML in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to insert HTML: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
 server.addTool({
 name: 'deleteRange',
-description: 'Deletes content within a specified range (start index inclusive, end index exclusive).',
+description: 'Deletes content within a specified range (start index inclusive, end index exclusive), or the content of a named range (which also removes the named range).',
 parameters: DocumentIdParameter.extend({
-  startIndex: z.number().int().min(1).describe('The starting index of the text range (inclusive, starts from 1).'),
-  endIndex: z.number().int().min(1).describe('The ending index of the text range (exclusive).')
-}).refine(data => data.endIndex > data.startIndex, {
+  startIndex: z.number().int().min(1).optional().describe('The starting index of the text range (inclusive, starts from 1). Use with endIndex instead of namedRange.'),
+  endIndex: z.number().int().min(1).optional().describe('The ending index of the text range (exclusive).'),
+  namedRange: NamedRangeNameParameter.optional().describe('Delete the content of this named range instead of an index range.'),
+}).refine(data => (data.namedRange !== undefined) !== (data.startIndex !== undefined && data.endIndex !== undefined), {
+  message: "Provide either startIndex and endIndex, or namedRange",
+}).refine(data => data.namedRange !== undefined || data.endIndex! > data.startIndex!, {
   message: "endIndex must be greater than startIndex",
   path: ["endIndex"],
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
-log.info(`Deleting range ${args.startIndex}-${args.endIndex} in doc ${args.documentId}`);
-if (args.endIndex <= args.startIndex) {
+log.info(`Deleting ${args.namedRange ? `named range "${args.namedRange}"` : `range ${args.startIndex}-${args.endIndex}`} in doc ${args.documentId}`);
+try {
+const ranges = args.namedRange
+    ? await GDocsHelpers.getNamedRangeBodyRanges(docs, args.documentId, args.namedRange)
+    : [{ startIndex: args.startIndex!, endIndex: args.endIndex! }];
+if (ranges.some(range => range.endIndex <= range.startIndex)) {
 throw new UserError("End index must be greater than start index for deletion.");
 }
-try {
-const request: docs_v1.Schema$Request = {
-                deleteContentRange: {
-                    range: { startIndex: args.startIndex, endIndex: args.endIndex }
-                }
-            };
-            await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [request]);
-            return `Successfully deleted content in range ${args.startIndex}-${args.endIndex}.`;
+// Delete from the last range so the earlier ones keep their indices
+const requests: docs_v1.Schema$Request[] = [...ranges].reverse().map(range => ({
+                deleteContentRange: { range }
+            }));
+            await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests);
+            return `Successfully deleted content in range ${ranges.map(r => `${r.startIndex}-${r.endIndex}`).join(', ')}.`;
         } catch (error: any) {
             log.error(`Error deleting range in doc ${args.documentId}: ${error.message || error}`);
             if (error instanceof UserError) throw error;
@@ -474,41 +445,48 @@ const request: docs_v1.Schema$Request = {
 
 server.addTool({
 name: 'applyTextStyle',
-description: 'Applies character-level formatting (bold, color, font, etc.) to a specific range or found text.',
+description: 'Applies character-level formatting (bold, color, font, etc.) to a specific range, or to one or all matches of found text (optionally case-insensitive, whole-word or regex).',
 parameters: ApplyTextStyleToolParameters,
 execute: async (args: ApplyTextStyleToolArgs, { log }) => {
 const docs = await getDocsClient();
-let { startIndex, endIndex } = args.target as any; // Will be updated if target is text
 
         log.info(`Applying text style in doc ${args.documentId}. Target: ${JSON.stringify(args.target)}, Style: ${JSON.stringify(args.style)}`);
 
         try {
-            // Determine target range
+            // Determine target ranges: the given range, or one or all matches of the text
+            let ranges: { startIndex: number; endIndex: number }[] = [args.target as { startIndex: number; endIndex: number }];
             if ('textToFind' in args.target) {
-                const range = await GDocsHelpers.findTextRange(docs, args.documentId, args.target.textToFind, args.target.matchInstance);
-                if (!range) {
-                    throw new UserError(`Could not find instance ${args.target.matchInstance} of text "${args.target.textToFind}".`);
-                }
-                startIndex = range.startIndex;
-                endIndex = range.endIndex;
-                log.info(`Found text "${args.target.textToFind}" (instance ${args.target.matchInstance}) at range ${startIndex}-${endIndex}`);
+                ranges = await GDocsHelpers.resolveTextFindTargets(docs, args.documentId, args.target);
+                log.info(`Found ${ranges.length} match(es) of "${args.target.textToFind}": ${ranges.map(r => `${r.startIndex}-${r.endIndex}`).join(', ')}`);
+            } else if ('namedRange' in args.target) {
+                ranges = await GDocsHelpers.getNamedRangeBodyRanges(docs, args.documentId, args.target.namedRange);
+                log.info(`Resolved named range "${args.target.namedRange}" to ${ranges.map(r => `${r.startIndex}-${r.endIndex}`).join(', ')}`);
             }
 
-            if (startIndex === undefined || endIndex === undefined) {
-                 throw new UserError("Target range could not be determined.");
-            }
-             if (endIndex <= startIndex) {
-                 throw new UserError("End index must be greater than start index for styling.");
-            }
+            const requests: docs_v1.Schema$Request[] = [];
+            let fields: string[] = [];
+            for (const { startIndex, endIndex } of ranges) {
+                if (startIndex === undefined || endIndex === undefined) {
+                     throw new UserError("Target range could not be determined.");
+                }
+                 if (endIndex <= startIndex) {
+                     throw new UserError("End index must be greater than start index for styling.");
+                }
 
-            // Build the request
-            const requestInfo = GDocsHelpers.buildUpdateTextStyleRequest(startIndex, endIndex, args.style);
-            if (!requestInfo) {
-                 return "No valid text styling options were provided.";
+                // Build the request
+                const requestInfo = GDocsHelpers.buildUpdateTextStyleRequest(startIndex, endIndex, args.style);
+                if (!requestInfo) {
+                     return "No valid text styling options were provided.";
+                }
+                requests.push(requestInfo.request);
+                fields = requestInfo.fields;
             }
 
-            await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [requestInfo.request]);
-            return `Successfully applied text style (${requestInfo.fields.join(', ')}) to range ${startIndex}-${endIndex}.`;
+            // Style updates don't depend on each other, so many matches can be sent in chunks
+            const result = await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests, { chunked: true, sortByIndexDescending: true });
+            const target = ranges.length === 1 ? `range ${ranges[0].startIndex}-${ranges[0].endIndex}` : `${ranges.length} ${'namedRange' in args.target ? 'ranges' : 'matches'}`;
+            const batches = result.chunks.length > 1 ? ` in ${result.chunks.length} batches` : '';
+            return `Successfully applied text style (${fields.join(', ')}) to ${target}${batches}.`;
 
         } catch (error: any) {
             log.error(`Error applying text style in doc ${args.documentId}: ${error.message || error}`);
@@ -522,12 +500,10 @@ let { startIndex, endIndex } = args.target as any; // Will be updated if target
 
 server.addTool({
 name: 'applyParagraphStyle',
-description: 'Applies paragraph-level formatting (alignment, spacing, named styles like Heading 1) to the paragraph(s) containing specific text, an index, or a range.',
+description: 'Applies paragraph-level formatting (alignment, spacing, line spacing, indents, named styles like Heading 1, shading, borders such as a divider line below a title, direction and page-break control) to the paragraph(s) containing specific text, an index, a range, or a named range.',
 parameters: ApplyParagraphStyleToolParameters,
 execute: async (args: ApplyParagraphStyleToolArgs, { log }) => {
 const docs = await getDocsClient();
-let startIndex: number | undefined;
-let endIndex: number | undefined;
 
         log.info(`Applying paragraph style to document ${args.documentId}`);
         log.info(`Style options: ${JSON.stringify(args.style)}`);
@@ -535,69 +511,8 @@ let endIndex: number | undefined;
 
         try {
             // STEP 1: Determine the target paragraph's range based on the targeting method
-            if ('textToFind' in args.target) {
-                // Find the text first
-                log.info(`Finding text "${args.target.textToFind}" (instance ${args.target.matchInstance || 1})`);
-                const textRange = await GDocsHelpers.findTextRange(
-                    docs,
-                    args.documentId,
-                    args.target.textToFind,
-                    args.target.matchInstance || 1
-                );
-
-                if (!textRange) {
-                    throw new UserError(`Could not find "${args.target.textToFind}" in the document.`);
-                }
-
-                log.info(`Found text at range ${textRange.startIndex}-${textRange.endIndex}, now locating containing paragraph`);
-
-                // Then find the paragraph containing this text
-                const paragraphRange = await GDocsHelpers.getParagraphRange(
-                    docs,
-                    args.documentId,
-                    textRange.startIndex
-                );
-
-                if (!paragraphRange) {
-                    throw new UserError(`Found the text but could not determine the paragraph boundaries.`);
-                }
-
-                startIndex = paragraphRange.startIndex;
-                endIndex = paragraphRange.endIndex;
-                log.info(`Text is contained within paragraph at range ${startIndex}-${endIndex}`);
-
-            } else if ('indexWithinParagraph' in args.target) {
-                // Find paragraph containing the specified index
-                log.info(`Finding paragraph containing index ${args.target.indexWithinParagraph}`);
-                const paragraphRange = await GDocsHelpers.getParagraphRange(
-                    docs,
-                    args.documentId,
-                    args.target.indexWithinParagraph
-                );
-
-                if (!paragraphRange) {
-                    throw new UserError(`Could not find paragraph containing index ${args.target.indexWithinParagraph}.`);
-                }
-
-                startIndex = paragraphRange.startIndex;
-                endIndex = paragraphRange.endIndex;
-                log.info(`Located paragraph at range ${startIndex}-${endIndex}`);
-
-            } else if ('startIndex' in args.target && 'endIndex' in args.target) {
-                // Use directly provided range
-                startIndex = args.target.startIndex;
-                endIndex = args.target.endIndex;
-                log.info(`Using provided paragraph range ${startIndex}-${endIndex}`);
-            }
-
-            // Verify that we have a valid range
-            if (startIndex === undefined || endIndex === undefined) {
-                throw new UserError("Could not determine target paragraph range from the provided information.");
-            }
-
-            if (endIndex <= startIndex) {
-                throw new UserError(`Invalid paragraph range: end index (${endIndex}) must be greater than start index (${startIndex}).`);
-            }
+            const { startIndex, endIndex } = await GDocsHelpers.resolveParagraphTarget(docs, args.documentId, args.target);
+            log.info(`Target paragraph range resolved to ${startIndex}-${endIndex}`);
 
             // STEP 2: Build and apply the paragraph style request
             log.info(`Building paragraph style request for range ${startIndex}-${endIndex}`);
@@ -617,94 +532,1404 @@ let endIndex: number | undefined;
             log.error(`Error applying paragraph style in doc ${args.documentId}:`);
             log.error(error.stack || error.message || error);
 
-            if (error instanceof UserError) throw error;
-            if (error instanceof NotImplementedError) throw error;
+            if (error instanceof UserError) throw error;
+            if (error instanceof NotImplementedError) throw error;
+
+            // Provide a more helpful error message
+            throw new UserError(`Failed to apply paragraph style: ${error.message || 'Unknown error'}`);
+        }
+    }
+});
+
+// --- Style Preset Tools ---
+
+server.addTool({
+name: 'listStylePresets',
+description: 'Lists the saved style presets (named combinations of text and paragraph formatting) with their settings.',
+parameters: z.object({}),
+execute: async (args, { log }) => {
+log.info(`Listing style presets from ${StylePresetHelpers.STYLE_PRESETS_PATH}`);
+try {
+const presets = await StylePresetHelpers.loadStylePresets();
+if (Object.keys(presets).length === 0) {
+return "No style presets are defined yet. Create one with defineStylePreset.";
+}
+return JSON.stringify(presets, null, 2);
+} catch (error: any) {
+log.error(`Error listing style presets: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to list style presets: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'defineStylePreset',
+description: 'Saves a named style preset, e.g. "callout" = { text: { italic: true, foregroundColor: "#1A73E8" }, paragraph: { indentStart: 36 } }, replacing any preset with that name. Presets are stored in style-presets.json in the server directory and can be applied with applyStylePreset or used in applyThemeToDocument.',
+parameters: z.object({
+name: StylePresetNameParameter,
+preset: StylePresetParameter,
+}),
+execute: async (args, { log }) => {
+log.info(`Defining style preset "${args.name}": ${JSON.stringify(args.preset)}`);
+try {
+const presets = await StylePresetHelpers.loadStylePresets();
+const replaced = args.name in presets;
+presets[args.name] = args.preset;
+await StylePresetHelpers.saveStylePresets(presets);
+return `Successfully ${replaced ? 'updated' : 'created'} style preset "${args.name}".`;
+} catch (error: any) {
+log.error(`Error defining style preset "${args.name}": ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to save style preset: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'deleteStylePreset',
+description: 'Deletes a saved style preset. Text already formatted with it is not changed.',
+parameters: z.object({
+name: StylePresetNameParameter,
+}),
+execute: async (args, { log }) => {
+log.info(`Deleting style preset "${args.name}"`);
+try {
+const presets = await StylePresetHelpers.loadStylePresets();
+StylePresetHelpers.getStylePreset(presets, args.name);
+delete presets[args.name];
+await StylePresetHelpers.saveStylePresets(presets);
+return `Successfully deleted style preset "${args.name}".`;
+} catch (error: any) {
+log.error(`Error deleting style preset "${args.name}": ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to delete style preset: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'applyStylePreset',
+description: 'Applies a saved style preset to a range, to one or all matches of found text, or to a named range. The preset\'s text formatting applies to the target text and its paragraph formatting to every paragraph the target touches.',
+parameters: DocumentIdParameter.extend({
+presetName: StylePresetNameParameter,
+target: ApplyTextStyleToolParameters.shape.target,
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Applying style preset "${args.presetName}" in doc ${args.documentId}. Target: ${JSON.stringify(args.target)}`);
+try {
+const preset = StylePresetHelpers.getStylePreset(await StylePresetHelpers.loadStylePresets(), args.presetName);
+let ranges: { startIndex: number; endIndex: number }[] = [args.target as { startIndex: number; endIndex: number }];
+if ('textToFind' in args.target) {
+ranges = await GDocsHelpers.resolveTextFindTargets(docs, args.documentId, args.target);
+} else if ('namedRange' in args.target) {
+ranges = await GDocsHelpers.getNamedRangeBodyRanges(docs, args.documentId, args.target.namedRange);
+}
+const { requests, fields } = StylePresetHelpers.buildStylePresetRequests(ranges, preset);
+const result = await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests, { chunked: true, sortByIndexDescending: true });
+const target = ranges.length === 1 ? `range ${ranges[0].startIndex}-${ranges[0].endIndex}` : `${ranges.length} ranges`;
+const batches = result.chunks.length > 1 ? ` in ${result.chunks.length} batches` : '';
+return `Successfully applied style preset "${args.presetName}" (${fields.join(', ')}) to ${target}${batches}.`;
+} catch (error: any) {
+log.error(`Error applying style preset in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to apply style preset: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'applyThemeToDocument',
+description: 'Restyles the whole document in one atomic update: every paragraph of each named style in the theme (NORMAL_TEXT, TITLE, SUBTITLE, HEADING_1..HEADING_6), table cells included, gets that entry\'s formatting. Entries are saved preset names or inline presets. The Google Docs API cannot change the named styles themselves, so paragraphs added later need the theme applied again.',
+parameters: DocumentIdParameter.extend({
+theme: ThemeParameter,
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Applying theme to doc ${args.documentId}: ${JSON.stringify(args.theme)}`);
+try {
+const theme = StylePresetHelpers.resolveTheme(args.theme, await StylePresetHelpers.loadStylePresets());
+const res = await docs.documents.get({
+documentId: args.documentId,
+fields: 'revisionId,body(content(startIndex,endIndex,paragraph(paragraphStyle(namedStyleType)),table))',
+});
+const { requests, counts } = StylePresetHelpers.buildThemeRequests(res.data.body?.content, theme);
+if (requests.length === 0) {
+return "No paragraphs in the document use the named styles in the theme.";
+}
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests, {
+requiredRevisionId: res.data.revisionId || undefined,
+});
+const summary = Object.entries(counts).map(([namedStyleType, count]) => `${count} ${namedStyleType}`).join(', ');
+return `Successfully applied the theme to ${summary} paragraph(s).`;
+} catch (error: any) {
+log.error(`Error applying theme to doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to apply theme: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+// --- Document & Section Style Tools ---
+
+server.addTool({
+name: 'setDocumentStyle',
+description: 'Sets document-wide page setup: page size (LETTER, LEGAL, A4, ... or custom), orientation, margins, header/footer distances, page background color, different first/even page headers and footers, and the starting page number. Lengths are in points unless unit is set, e.g. { pageSize: "A4", margins: 2, unit: "cm" }. The Google Docs API cannot change the document\'s default fonts (its named styles); to set them, use applyThemeToDocument with a fontFamily for NORMAL_TEXT and the heading styles, e.g. { "NORMAL_TEXT": { "text": { "fontFamily": "Inter" } } }.',
+parameters: DocumentIdParameter.extend({
+...DocumentStyleParameters.shape,
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+const { documentId, ...style } = args;
+log.info(`Setting document style in doc ${documentId}: ${JSON.stringify(style)}`);
+try {
+// Turning the page without a new size needs the current size
+let currentPageSize: { width: number; height: number } | undefined;
+if (style.orientation && !style.pageSize && (style.pageWidth === undefined || style.pageHeight === undefined)) {
+const res = await docs.documents.get({ documentId, fields: 'documentStyle(pageSize)' });
+const pageSize = res.data.documentStyle?.pageSize;
+currentPageSize = {
+width: pageSize?.width?.magnitude ?? GDocsHelpers.PAGE_SIZES.LETTER.width,
+height: pageSize?.height?.magnitude ?? GDocsHelpers.PAGE_SIZES.LETTER.height,
+};
+}
+const requestInfo = GDocsHelpers.buildUpdateDocumentStyleRequest(style, currentPageSize);
+if (!requestInfo) {
+return "No document style options were provided.";
+}
+await GDocsHelpers.executeBatchUpdate(docs, documentId, [requestInfo.request]);
+return `Successfully updated document style (${requestInfo.fields.join(', ')}).`;
+} catch (error: any) {
+log.error(`Error setting document style in doc ${documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${documentId}).`);
+throw new UserError(`Failed to set document style: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'setSectionStyle',
+description: 'Sets the layout of document sections (the parts between section breaks): number of text columns, column spacing and separator line, margins, header/footer distances, a different first page header/footer, and the starting page number. Applies to every section overlapping the range or named range, or to the whole document if neither is given.',
+parameters: DocumentIdParameter.extend({
+startIndex: z.number().int().min(1).optional().describe('Optional: Start of the range whose sections are styled. Use with endIndex.'),
+endIndex: z.number().int().min(1).optional().describe('Optional: End of the range whose sections are styled (exclusive).'),
+namedRange: NamedRangeNameParameter.optional().describe('Optional: Style the sections overlapping this named range instead of an index range.'),
+...SectionStyleParameters.shape,
+}).refine(data => (data.startIndex === undefined) === (data.endIndex === undefined), {
+message: "Provide both startIndex and endIndex, or neither.",
+}).refine(data => data.startIndex === undefined || data.endIndex! > data.startIndex, {
+message: "endIndex must be greater than startIndex",
+path: ["endIndex"],
+}).refine(data => data.startIndex === undefined || data.namedRange === undefined, {
+message: "Provide at most one of startIndex/endIndex or namedRange.",
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+const { documentId, startIndex, endIndex, namedRange, ...style } = args;
+const target = startIndex !== undefined ? `range ${startIndex}-${endIndex}` : namedRange ? `named range "${namedRange}"` : null;
+log.info(`Setting section style in doc ${documentId} for ${target ?? 'all sections'}: ${JSON.stringify(style)}`);
+try {
+let range = { startIndex: startIndex!, endIndex: endIndex! };
+if (namedRange) {
+const ranges = await GDocsHelpers.getNamedRangeBodyRanges(docs, documentId, namedRange);
+range = { startIndex: ranges[0].startIndex, endIndex: ranges[ranges.length - 1].endIndex };
+} else if (startIndex === undefined) {
+const res = await docs.documents.get({ documentId, fields: 'body(content(endIndex))' });
+const content = res.data.body?.content || [];
+range = { startIndex: 1, endIndex: (content[content.length - 1]?.endIndex ?? 2) - 1 };
+}
+const requestInfo = GDocsHelpers.buildUpdateSectionStyleRequest(range.startIndex, Math.max(range.endIndex, range.startIndex + 1), style);
+if (!requestInfo) {
+return "No section style options were provided.";
+}
+await GDocsHelpers.executeBatchUpdate(docs, documentId, [requestInfo.request]);
+return `Successfully updated section style (${requestInfo.fields.join(', ')}) for ${target ? `sections overlapping ${target}` : 'all sections'}.`;
+} catch (error: any) {
+log.error(`Error setting section style in doc ${documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${documentId}).`);
+throw new UserError(`Failed to set section style: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'insertSectionBreak',
+description: 'Inserts a section break at an index or named range, starting a new section on the next page or continuing on the same page. Optionally styles the new section, e.g. { columnCount: 2 } for a two-column section.',
+parameters: DocumentIdParameter.extend({
+index: z.number().int().min(1).optional().describe('The index (1-based) where the section break should be inserted. Provide either this or namedRange.'),
+...NamedRangeAnchorParameters.shape,
+sectionType: z.enum(['NEXT_PAGE', 'CONTINUOUS']).optional().default('NEXT_PAGE').describe("'NEXT_PAGE' starts the new section on a new page; 'CONTINUOUS' starts it on the same page."),
+sectionStyle: SectionStyleParameters.optional().describe('Optional: Layout for the new section.'),
+}).refine(data => (data.index === undefined) !== (data.namedRange === undefined), {
+message: "Provide exactly one of index or namedRange.",
+path: ["index"],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Inserting ${args.sectionType} section break in doc ${args.documentId} at ${args.namedRange ? `named range "${args.namedRange}"` : `index ${args.index}`}`);
+try {
+const index = args.namedRange ? await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition) : args.index!;
+const requests: docs_v1.Schema$Request[] = [{ insertSectionBreak: { location: { index }, sectionType: args.sectionType } }];
+// The break is inserted after a new newline, so the new section's first paragraph starts two characters later
+const styleInfo = args.sectionStyle ? GDocsHelpers.buildUpdateSectionStyleRequest(index + 2, index + 3, args.sectionStyle) : null;
+if (styleInfo) requests.push(styleInfo.request);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests);
+return `Successfully inserted a ${args.sectionType === 'CONTINUOUS' ? 'continuous' : 'next page'} section break at index ${index}${styleInfo ? ` and styled the new section (${styleInfo.fields.join(', ')})` : ''}.`;
+} catch (error: any) {
+log.error(`Error inserting section break in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to insert section break: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+// --- Structure & Content Tools ---
+
+server.addTool({
+name: 'insertTable',
+description: 'Inserts a new table with the specified dimensions at a given index, at a named range, or directly after an existing table.',
+parameters: DocumentIdParameter.extend({
+rows: z.number().int().min(1).describe('Number of rows for the new table.'),
+columns: z.number().int().min(1).describe('Number of columns for the new table.'),
+index: z.number().int().min(1).optional().describe('The index (1-based) where the table should be inserted. Provide this, afterTable or namedRange.'),
+afterTable: TableSelectorParameter.optional().describe('Insert the new table directly after this existing table instead of at a raw index.'),
+...NamedRangeAnchorParameters.shape,
+}).refine(data => [data.index, data.afterTable, data.namedRange].filter(v => v !== undefined).length === 1, {
+message: "Provide exactly one of index, afterTable or namedRange.",
+path: ["index"],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Inserting ${args.rows}x${args.columns} table in doc ${args.documentId} at ${args.afterTable ? `end of ${GDocsHelpers.describeTableSelector(args.afterTable)}` : args.namedRange ? `named range "${args.namedRange}"` : `index ${args.index}`}`);
+try {
+let index = args.index!;
+if (args.afterTable) {
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.afterTable);
+index = located.endIndex;
+log.info(`Resolved ${GDocsHelpers.describeTableSelector(args.afterTable)} to range ${located.startIndex}-${located.endIndex}`);
+} else if (args.namedRange) {
+index = await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition);
+}
+await GDocsHelpers.createTable(docs, args.documentId, args.rows, args.columns, index);
+// The API response contains info about the created table, but might be too complex to return here.
+return `Successfully inserted a ${args.rows}x${args.columns} table at index ${index}.`;
+} catch (error: any) {
+log.error(`Error inserting table in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to insert table: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'insertTableWithData',
+description: 'Inserts a new table sized to fit the given data and fills every cell in one batch. Accepts a header row plus data rows, or a CSV string whose first line is the header.',
+parameters: DocumentIdParameter.extend({
+headers: z.array(z.string()).optional().describe('Header row cell texts.'),
+dataRows: z.array(z.array(z.string())).optional().describe('Data rows, each an array of cell texts. Shorter rows are padded with empty cells.'),
+csv: z.string().min(1).optional().describe('CSV text to use instead of headers/dataRows. The first line is treated as the header row.'),
+boldHeaderRow: z.boolean().optional().default(true).describe('Bold the text of the first row.'),
+index: z.number().int().min(1).optional().describe('The index (1-based) where the table should be inserted. Provide this, afterTable or namedRange.'),
+afterTable: TableSelectorParameter.optional().describe('Insert the new table directly after this existing table instead of at a raw index.'),
+...NamedRangeAnchorParameters.shape,
+}).refine(data => [data.index, data.afterTable, data.namedRange].filter(v => v !== undefined).length === 1, {
+message: "Provide exactly one of index, afterTable or namedRange.",
+path: ["index"],
+}).refine(data => (data.csv !== undefined) !== (data.headers !== undefined || data.dataRows !== undefined), {
+message: "Provide either csv, or headers and/or dataRows.",
+path: ["csv"],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Inserting table with data in doc ${args.documentId}`);
+try {
+const data = args.csv !== undefined
+    ? GDocsHelpers.parseCsv(args.csv)
+    : [...(args.headers ? [args.headers] : []), ...(args.dataRows || [])];
+if (data.length === 0 || data.every(row => row.length === 0)) {
+throw new UserError("No table data was provided.");
+}
+const hasHeaderRow = args.csv !== undefined || args.headers !== undefined;
+
+let index = args.index!;
+if (args.afterTable) {
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.afterTable);
+index = located.endIndex;
+log.info(`Resolved ${GDocsHelpers.describeTableSelector(args.afterTable)} to range ${located.startIndex}-${located.endIndex}`);
+} else if (args.namedRange) {
+index = await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition);
+}
+
+const result = await GDocsHelpers.createTableWithData(docs, args.documentId, data, index, hasHeaderRow && args.boldHeaderRow);
+return `Successfully inserted and filled a ${result.rows}x${result.columns} table starting at index ${result.tableStartIndex}.`;
+} catch (error: any) {
+log.error(`Error inserting table with data in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to insert table with data: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'editTableCell',
+description: 'Edits the content and/or basic style of a specific table cell. The table can be addressed by start index, ordinal, preceding heading or header text.',
+parameters: DocumentIdParameter.extend({
+table: TableSelectorParameter.describe("The table containing the cell."),
+rowIndex: z.number().int().min(0).describe("Row index (0-based)."),
+columnIndex: z.number().int().min(0).describe("Column index (0-based)."),
+textContent: z.string().optional().describe("Optional: New text content for the cell. Replaces existing content."),
+// Combine basic styles for simplicity here. More advanced cell styling might need separate tools.
+textStyle: TextStyleParameters.optional().describe("Optional: Text styles to apply."),
+paragraphStyle: ParagraphStyleParameters.optional().describe("Optional: Paragraph styles (like alignment) to apply."),
+cellStyle: TableCellStyleParameters.optional().describe("Optional: Cell styles (background, borders, padding) to apply."),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Editing cell (${args.rowIndex}, ${args.columnIndex}) in ${GDocsHelpers.describeTableSelector(args.table)}, doc ${args.documentId}`);
+
+        try {
+            // STEP 1: Resolve the cell's current content range
+            const cell = await GDocsHelpers.getTableCellRange(docs, args.documentId, args.table, args.rowIndex, args.columnIndex);
+            log.info(`Cell (${args.rowIndex}, ${args.columnIndex}) content spans ${cell.startIndex}-${cell.endIndex}`);
+
+            // The final newline of a cell cannot be deleted, so the editable text ends one index earlier
+            const requests: docs_v1.Schema$Request[] = [];
+            let textEndIndex = cell.endIndex - 1;
+            const appliedChanges: string[] = [];
+
+            // STEP 2: Replace the cell text (requests run in order, so later ranges use the updated indices)
+            if (args.textContent !== undefined) {
+                if (textEndIndex > cell.startIndex) {
+                    requests.push({ deleteContentRange: { range: { startIndex: cell.startIndex, endIndex: textEndIndex } } });
+                }
+                if (args.textContent.length > 0) {
+                    requests.push({ insertText: { location: { index: cell.startIndex }, text: args.textContent } });
+                }
+                textEndIndex = cell.startIndex + args.textContent.length;
+                appliedChanges.push('text');
+            }
+
+            // STEP 3: Style the (new) cell content
+            if (args.textStyle && textEndIndex > cell.startIndex) {
+                const requestInfo = GDocsHelpers.buildUpdateTextStyleRequest(cell.startIndex, textEndIndex, args.textStyle);
+                if (requestInfo) {
+                    requests.push(requestInfo.request);
+                    appliedChanges.push(`text style (${requestInfo.fields.join(', ')})`);
+                }
+            }
+            if (args.paragraphStyle) {
+                const requestInfo = GDocsHelpers.buildUpdateParagraphStyleRequest(cell.startIndex, textEndIndex + 1, args.paragraphStyle);
+                if (requestInfo) {
+                    requests.push(requestInfo.request);
+                    appliedChanges.push(`paragraph style (${requestInfo.fields.join(', ')})`);
+                }
+            }
+
+            if (args.cellStyle) {
+                const span = { rowIndex: args.rowIndex, columnIndex: args.columnIndex, rowSpan: 1, columnSpan: 1 };
+                const requestInfo = GDocsHelpers.buildUpdateTableCellStyleRequest(cell.tableStartIndex, span, args.cellStyle);
+                if (requestInfo) {
+                    requests.push(requestInfo.request);
+                    appliedChanges.push(`cell style (${requestInfo.fields.join(', ')})`);
+                }
+            }
+
+            if (requests.length === 0) {
+                return "No cell changes were provided (textContent, textStyle, paragraphStyle or cellStyle).";
+            }
+
+            await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests);
+            return `Successfully updated ${appliedChanges.join(', ')} of cell (${args.rowIndex}, ${args.columnIndex}) in table at index ${cell.tableStartIndex}.`;
+
+        } catch (error: any) {
+            log.error(`Error editing table cell in doc ${args.documentId}: ${error.message || error}`);
+            if (error instanceof UserError) throw error;
+            throw new UserError(`Failed to edit table cell: ${error.message || 'Unknown error'}`);
+        }
+    }
+
+});
+
+server.addTool({
+name: 'readTables',
+description: 'Reads tables from a document as structured rows and cells. JSON output includes each table\'s start/end indices and each cell\'s content range; CSV output contains only the cell text.',
+parameters: DocumentIdParameter.extend({
+table: TableSelectorParameter.optional().describe("Optional: Read only this table. If omitted, all tables are returned."),
+format: z.enum(['json', 'csv']).optional().default('json').describe("Output format: 'json' (rows x cells with indices) or 'csv' (one CSV block per table)."),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Reading ${args.table ? GDocsHelpers.describeTableSelector(args.table) : 'all tables'} from doc ${args.documentId} as ${args.format}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: GDocsHelpers.TABLE_LOOKUP_FIELDS });
+const content = res.data.body?.content || [];
+const tables = args.table ? [GDocsHelpers.findTable(content, args.table)] : GDocsHelpers.listTables(content);
+
+if (tables.length === 0) {
+return "No tables found in the document.";
+}
+
+const tableData = tables.map(GDocsHelpers.extractTableData);
+log.info(`Extracted ${tableData.length} table(s)`);
+
+if (args.format === 'csv') {
+return tableData.map(data =>
+`Table ${data.tableNumber} (startIndex ${data.startIndex}, endIndex ${data.endIndex}):\n${GDocsHelpers.toCsv(data.cells.map(row => row.map(cell => cell.text)))}`
+).join('\n\n');
+}
+return JSON.stringify(tableData, null, 2);
+} catch (error: any) {
+log.error(`Error reading tables from doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to read tables: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'getDocumentOutline',
+description: 'Returns the heading tree of a document. Each heading includes its level (TITLE, HEADING_1..HEADING_6), text, start/end indices, the end index of its section (up to the next heading of equal or higher level), its heading ID, and counts of paragraphs, tables, images and lists in the section.',
+parameters: DocumentIdParameter.extend({
+maxLevel: z.number().int().min(1).max(6).optional().describe('Optional: Only include headings down to this level (e.g. 2 for HEADING_1 and HEADING_2). TITLE is always included.'),
+format: z.enum(['json', 'text']).optional().default('json').describe("Output format: 'json' (nested nodes) or 'text' (indented list, one heading per line)."),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Building outline for doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: GDocsHelpers.OUTLINE_FIELDS });
+let outline = GDocsHelpers.buildDocumentOutline(res.data.body?.content || []);
+
+if (args.maxLevel) {
+const prune = (nodes: GDocsHelpers.OutlineNode[]): GDocsHelpers.OutlineNode[] => nodes
+.filter(node => (GDocsHelpers.getHeadingRank(node.level) ?? 0) <= args.maxLevel!)
+.map(node => ({ ...node, children: prune(node.children) }));
+outline = prune(outline);
+}
+
+if (outline.length === 0) {
+return "No headings found in the document.";
+}
+
+if (args.format === 'text') {
+const lines: string[] = [];
+const visit = (nodes: GDocsHelpers.OutlineNode[], depth: number) => nodes.forEach(node => {
+const { paragraphs, tables, images, lists } = node.counts;
+lines.push(`${'  '.repeat(depth)}- [${node.level}] ${node.text} (${node.startIndex}-${node.endIndex}, section ends ${node.sectionEndIndex}; ${paragraphs} paragraphs, ${tables} tables, ${images} images, ${lists} lists)`);
+visit(node.children, depth + 1);
+});
+visit(outline, 0);
+return lines.join('\n');
+}
+return JSON.stringify(outline, null, 2);
+} catch (error: any) {
+log.error(`Error building outline for doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to build document outline: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'insertPageBreak',
+description: 'Inserts a page break at the specified index, or at the start or end of a named range.',
+parameters: DocumentIdParameter.extend({
+index: z.number().int().min(1).optional().describe('The index (1-based) where the page break should be inserted. Provide either this or namedRange.'),
+...NamedRangeAnchorParameters.shape,
+}).refine(data => (data.index === undefined) !== (data.namedRange === undefined), {
+message: "Provide exactly one of index or namedRange.",
+path: ["index"],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Inserting page break in doc ${args.documentId} at ${args.namedRange ? `named range "${args.namedRange}"` : `index ${args.index}`}`);
+try {
+const index = args.namedRange ? await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition) : args.index!;
+const request: docs_v1.Schema$Request = {
+insertPageBreak: {
+location: { index }
+}
+};
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [request]);
+return `Successfully inserted page break at index ${index}.`;
+} catch (error: any) {
+log.error(`Error inserting page break in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to insert page break: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'applyEdits',
+description: 'Applies an ordered list of edits in one atomic update: insertText, deleteText, textStyle, paragraphStyle, pageBreak, table and image. Every index and text match refers to the document as it is before the first edit; later edits are shifted automatically past the text earlier edits insert or delete. If any edit fails, none are applied.',
+parameters: DocumentIdParameter.extend({
+operations: z.array(EditOperationParameter).min(1).max(100).describe('The edits to apply, in order.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Applying ${args.operations.length} edit(s) to doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({
+documentId: args.documentId,
+fields: 'revisionId,body(content(paragraph(paragraphStyle(namedStyleType),elements(startIndex,endIndex,textRun(content))),table,startIndex,endIndex))',
+});
+const { requests, summaries } = GDocsHelpers.buildEditRequests(res.data.body?.content || [], args.operations);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests, {
+requiredRevisionId: res.data.revisionId || undefined,
+});
+return `Successfully applied ${args.operations.length} edit(s):\n${summaries.join('\n')}`;
+} catch (error: any) {
+log.error(`Error applying edits to doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to apply edits (no changes were made): ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+// --- Section Tools ---
+
+server.addTool({
+name: 'readSection',
+description: 'Reads one section of a document: the heading matching headingText and everything up to the next heading of equal or higher level, subsections included.',
+parameters: DocumentIdParameter.extend({
+...SectionTargetParameter.shape,
+format: z.enum(['markdown', 'text', 'json']).optional().default('markdown').describe("Output format: 'markdown' (same conversion as readGoogleDoc), 'text' (plain text; table rows as tab-separated lines) or 'json' (raw structural elements)."),
+includeHeading: z.boolean().optional().default(true).describe('Whether to include the heading paragraph itself.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Reading section "${args.headingText}" from doc ${args.documentId} as ${args.format}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: '*' });
+const content = res.data.body?.content || [];
+const section = GDocsHelpers.findSection(content, args);
+const from = args.includeHeading ? section.startIndex : section.contentStartIndex;
+const elements = content.filter(element => element.startIndex != null && element.startIndex >= from && element.startIndex < section.endIndex);
+log.info(`Section "${section.heading.text}" spans ${section.startIndex}-${section.endIndex} (${elements.length} elements)`);
+
+if (args.format === 'json') {
+return JSON.stringify(elements, null, 2);
+}
+if (args.format === 'text') {
+return elements.map(element => element.table
+? (element.table.tableRows || []).map(row => (row.tableCells || []).map(cell => GDocsHelpers.extractTextFromContent(cell.content).replace(/\n$/, '')).join('\t')).join('\n') + '\n'
+: GDocsHelpers.extractTextFromContent([element])
+).join('');
+}
+const markdown = MarkdownHelpers.convertDocsJsonToMarkdown({ ...res.data, body: { content: elements } });
+return markdown || '(Section is empty)';
+} catch (error: any) {
+log.error(`Error reading section from doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to read section: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'replaceSectionContent',
+description: 'Replaces everything under a heading, up to the next heading of equal or higher level, with new content. The heading itself and the following sections are left untouched. Subsections are part of the replaced content.',
+parameters: DocumentIdParameter.extend({
+...SectionTargetParameter.shape,
+content: z.string().describe('The new section content. An empty string clears the section.'),
+markdown: z.boolean().optional().default(false).describe('If true, content is parsed as markdown (headings, bold/italic/code, links, lists, tables) and inserted as formatted content.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Replacing content of section "${args.headingText}" in doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: GDocsHelpers.OUTLINE_FIELDS });
+const content = res.data.body?.content || [];
+const section = GDocsHelpers.findSection(content, args);
+const blocks = args.markdown ? MarkdownHelpers.parseMarkdownBlocks(args.content) : (args.content ? MarkdownHelpers.plainTextToBlocks(args.content) : []);
+
+const requests = GDocsHelpers.buildSpanDeleteRequests(section.contentStartIndex, section.endIndex, section.bodyEndIndex);
+const footnotes: string[] = [];
+if (blocks.length > 0) {
+// With nothing left after the heading at the end of the body, open a new paragraph first
+const appendPoint = section.contentStartIndex >= section.bodyEndIndex
+? GDocsHelpers.buildAppendPointRequests(content)
+: { requests: [], insertAt: section.contentStartIndex };
+const built = MarkdownHelpers.buildBlockRequests(blocks, appendPoint.insertAt);
+requests.push(...appendPoint.requests, ...built.requests);
+footnotes.push(...built.footnotes);
+}
+if (requests.length === 0) {
+return `Section "${section.heading.text}" is already empty.`;
+}
+
+await MarkdownHelpers.executeBlockRequests(docs, args.documentId, requests, footnotes, { requiredRevisionId: res.data.revisionId || undefined });
+return `Successfully replaced the content of section "${section.heading.text}" (${blocks.length} block(s) inserted).`;
+} catch (error: any) {
+log.error(`Error replacing section content in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to replace section content: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'appendToSection',
+description: 'Appends content at the end of a section, just before the next heading of equal or higher level (after any subsections).',
+parameters: DocumentIdParameter.extend({
+...SectionTargetParameter.shape,
+content: z.string().min(1).describe('The content to append.'),
+markdown: z.boolean().optional().default(false).describe('If true, content is parsed as markdown (headings, bold/italic/code, links, lists, tables) and inserted as formatted content.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Appending to section "${args.headingText}" in doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: GDocsHelpers.OUTLINE_FIELDS });
+const content = res.data.body?.content || [];
+const section = GDocsHelpers.findSection(content, args);
+const blocks = args.markdown ? MarkdownHelpers.parseMarkdownBlocks(args.content) : MarkdownHelpers.plainTextToBlocks(args.content);
+
+const appendPoint = section.endIndex >= section.bodyEndIndex
+? GDocsHelpers.buildAppendPointRequests(content)
+: { requests: [], insertAt: section.endIndex };
+const { requests, blockCount, footnotes } = MarkdownHelpers.buildBlockRequests(blocks, appendPoint.insertAt);
+await MarkdownHelpers.executeBlockRequests(docs, args.documentId, [...appendPoint.requests, ...requests], footnotes, { requiredRevisionId: res.data.revisionId || undefined });
+return `Successfully appended ${blockCount} block(s) to section "${section.heading.text}" at index ${appendPoint.insertAt}.`;
+} catch (error: any) {
+log.error(`Error appending to section in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to append to section: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'deleteSection',
+description: 'Deletes a heading and everything up to the next heading of equal or higher level, subsections included.',
+parameters: DocumentIdParameter.extend({
+...SectionTargetParameter.shape,
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Deleting section "${args.headingText}" from doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: GDocsHelpers.OUTLINE_FIELDS });
+const section = GDocsHelpers.findSection(res.data.body?.content || [], args);
+const requests = GDocsHelpers.buildSpanDeleteRequests(section.startIndex, section.endIndex, section.bodyEndIndex);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests, { requiredRevisionId: res.data.revisionId || undefined });
+return `Successfully deleted section "${section.heading.text}" (indices ${section.startIndex}-${section.endIndex}).`;
+} catch (error: any) {
+log.error(`Error deleting section from doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to delete section: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'moveSection',
+description: 'Moves a section (its heading, content and subsections) before or after another section, or to the end of the document. The section is rewritten through the markdown converter, which keeps headings, lists, tables, links and bold, italic, underlined, struck-through and code text, but drops empty paragraphs. Sections with any other formatting (colors, fonts, sizes, alignment, spacing, ...), images, footnotes or other embedded elements are refused rather than moved with losses.',
+parameters: DocumentIdParameter.extend({
+...SectionTargetParameter.shape,
+destination: z.union([
+z.object({ beforeSection: SectionTargetParameter.describe('Move in front of this section\'s heading.') }),
+z.object({ afterSection: SectionTargetParameter.describe('Move after the end of this section, subsections included.') }),
+z.object({ documentEnd: z.literal(true).describe('Move to the end of the document.') }),
+]).describe('Where to move the section.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Moving section "${args.headingText}" in doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: '*' });
+const content = res.data.body?.content || [];
+const section = GDocsHelpers.findSection(content, args);
+const elements = content.filter(element => element.startIndex != null && element.startIndex >= section.startIndex && element.startIndex < section.endIndex);
+const lost = MarkdownHelpers.describeFormattingLostInMarkdown(elements);
+if (lost) {
+throw new UserError(`Section "${section.heading.text}" cannot be moved without changing it: it has ${lost}, which the markdown converter does not keep.`);
+}
+
+const destination = args.destination;
+let targetIndex: number;
+if ('documentEnd' in destination) {
+targetIndex = section.bodyEndIndex;
+} else {
+const target = GDocsHelpers.findSection(content, 'beforeSection' in destination ? destination.beforeSection : destination.afterSection);
+targetIndex = 'beforeSection' in destination ? target.startIndex : target.endIndex;
+}
+if (targetIndex > section.startIndex && targetIndex < section.endIndex) {
+throw new UserError(`Cannot move section "${section.heading.text}" into itself.`);
+}
+if (targetIndex === section.startIndex || targetIndex === section.endIndex) {
+return `Section "${section.heading.text}" is already at the requested position.`;
+}
+
+const blocks = MarkdownHelpers.parseMarkdownBlocks(MarkdownHelpers.convertDocsJsonToMarkdown({ ...res.data, body: { content: elements } }));
+const deleteRequests = GDocsHelpers.buildSpanDeleteRequests(section.startIndex, section.endIndex, section.bodyEndIndex);
+let requests: docs_v1.Schema$Request[];
+if (targetIndex < section.startIndex) {
+// Delete first: the target lies before the section, so its index is unaffected
+requests = [...deleteRequests, ...MarkdownHelpers.buildBlockRequests(blocks, targetIndex).requests];
+} else {
+// Insert first: the section lies before the target, so its indices are unaffected
+const appendPoint = targetIndex >= section.bodyEndIndex
+? GDocsHelpers.buildAppendPointRequests(content)
+: { requests: [], insertAt: targetIndex };
+requests = [...appendPoint.requests, ...MarkdownHelpers.buildBlockRequests(blocks, appendPoint.insertAt).requests, ...deleteRequests];
+}
+
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests, { requiredRevisionId: res.data.revisionId || undefined });
+return `Successfully moved section "${section.heading.text}" (${blocks.length} block(s)).`;
+} catch (error: any) {
+log.error(`Error moving section in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to move section: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+// --- Named Range Tools ---
+
+server.addTool({
+name: 'createNamedRange',
+description: 'Names a range of the document body, given by indices or by searching for text. Named ranges move with the surrounding text as the document is edited, so they work as durable anchors (e.g. a template slot called "executive_summary") that other tools accept via their namedRange parameter.',
+parameters: DocumentIdParameter.extend({
+name: NamedRangeNameParameter.describe('The name for the range (1-256 characters). Names do not have to be unique in Google Docs, but tools that look ranges up by name require them to be.'),
+startIndex: z.number().int().min(1).optional().describe('The starting index of the range (inclusive, starts from 1). Use with endIndex instead of textToFind.'),
+endIndex: z.number().int().min(1).optional().describe('The ending index of the range (exclusive).'),
+textToFind: TextFindParameter.shape.textToFind.optional().describe('Text to name, instead of startIndex/endIndex (a regular expression when useRegex is true).'),
+matchInstance: TextFindParameter.shape.matchInstance,
+...TextSearchOptionsParameter.shape,
+}).refine(data => (data.textToFind !== undefined) !== (data.startIndex !== undefined && data.endIndex !== undefined), {
+message: 'Provide either startIndex and endIndex, or textToFind',
+}).refine(data => data.textToFind !== undefined || data.endIndex! > data.startIndex!, {
+message: 'endIndex must be greater than startIndex',
+path: ['endIndex'],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Creating named range "${args.name}" in doc ${args.documentId}`);
+try {
+const [range] = args.textToFind !== undefined
+    ? await GDocsHelpers.resolveTextFindTargets(docs, args.documentId, { ...args, textToFind: args.textToFind })
+    : [{ startIndex: args.startIndex!, endIndex: args.endIndex! }];
+const result = await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{
+createNamedRange: { name: args.name, range: { startIndex: range.startIndex, endIndex: range.endIndex } },
+}]);
+const namedRangeId = result.replies?.[0]?.createNamedRange?.namedRangeId;
+return `Successfully created named range "${args.name}" over range ${range.startIndex}-${range.endIndex}${namedRangeId ? ` (ID: ${namedRangeId})` : ''}.`;
+} catch (error: any) {
+log.error(`Error creating named range in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to create named range: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'listNamedRanges',
+description: 'Lists the named ranges in a document with their IDs, current indices and text, in document order.',
+parameters: DocumentIdParameter,
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Listing named ranges in doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId });
+const namedRanges = GDocsHelpers.collectNamedRanges(res.data);
+if (namedRanges.length === 0) {
+return "No named ranges found in the document.";
+}
+return JSON.stringify(namedRanges.map(namedRange => ({
+...namedRange,
+ranges: namedRange.ranges.map(range => ({
+...range,
+text: GDocsHelpers.extractRangeText(GDocsHelpers.getSegmentContent(res.data, range.segmentId), range.startIndex, range.endIndex),
+})),
+})), null, 2);
+} catch (error: any) {
+log.error(`Error listing named ranges in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to list named ranges: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'deleteNamedRange',
+description: 'Deletes a named range by name (every range with that name) or by ID. Only the name is removed; the text it covered stays in the document.',
+parameters: DocumentIdParameter.extend({
+name: NamedRangeNameParameter.optional().describe('Delete every named range with this name.'),
+namedRangeId: z.string().min(1).optional().describe('Delete the named range with this ID (see listNamedRanges).'),
+}).refine(data => (data.name === undefined) !== (data.namedRangeId === undefined), {
+message: "Provide exactly one of name or namedRangeId.",
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+const label = args.name !== undefined ? `"${args.name}"` : `ID ${args.namedRangeId}`;
+log.info(`Deleting named range ${label} in doc ${args.documentId}`);
+try {
+if (args.name !== undefined) {
+// Deleting by name removes every range with that name, so duplicates are fine here
+const res = await docs.documents.get({ documentId: args.documentId, fields: 'namedRanges' });
+if (!GDocsHelpers.collectNamedRanges(res.data).some(namedRange => namedRange.name === args.name)) {
+throw new UserError(`Named range "${args.name}" not found.`);
+}
+}
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{
+deleteNamedRange: args.name !== undefined ? { name: args.name } : { namedRangeId: args.namedRangeId },
+}]);
+return `Successfully deleted named range ${label}.`;
+} catch (error: any) {
+log.error(`Error deleting named range in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to delete named range: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'replaceNamedRangeContent',
+description: 'Replaces the text of a named range and keeps the name on the new text, so the range can be filled again on later runs. The new text takes the formatting of the start of the old text.',
+parameters: DocumentIdParameter.extend({
+name: NamedRangeNameParameter,
+text: z.string().min(1).describe('The new text for the range.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Replacing content of named range "${args.name}" in doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: 'revisionId,namedRanges' });
+const namedRange = GDocsHelpers.findNamedRange(res.data, args.name);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, GDocsHelpers.buildReplaceNamedRangeContentRequests(namedRange, args.text), {
+requiredRevisionId: res.data.revisionId || undefined,
+});
+const { startIndex, endIndex } = namedRange.ranges[0];
+return `Successfully replaced named range "${args.name}" (previously ${startIndex}-${endIndex}); it now covers ${startIndex}-${startIndex + args.text.length}.`;
+} catch (error: any) {
+log.error(`Error replacing named range content in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to replace named range content: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+// --- Header, Footer & Footnote Tools ---
+
+server.addTool({
+name: 'createHeader',
+description: 'Creates the document header, or its first page or even page variant (which also turns on "different first page" or "different odd & even" in the document settings), optionally with text. Returns the header ID.',
+parameters: DocumentIdParameter.extend({
+variant: HeaderFooterVariantParameter,
+text: z.string().optional().describe('Optional: Text to put in the new header.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Creating ${GDocsHelpers.describeHeaderFooter('header', args.variant)} in doc ${args.documentId}`);
+try {
+const headerId = await GDocsHelpers.createHeaderFooter(docs, args.documentId, 'header', args.variant, args.text);
+return `Successfully created ${GDocsHelpers.describeHeaderFooter('header', args.variant)} (ID: ${headerId}).`;
+} catch (error: any) {
+log.error(`Error creating header in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to create header: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'createFooter',
+description: 'Creates the document footer, or its first page or even page variant (which also turns on "different first page" or "different odd & even" in the document settings), optionally with text. Returns the footer ID.',
+parameters: DocumentIdParameter.extend({
+variant: HeaderFooterVariantParameter,
+text: z.string().optional().describe('Optional: Text to put in the new footer.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Creating ${GDocsHelpers.describeHeaderFooter('footer', args.variant)} in doc ${args.documentId}`);
+try {
+const footerId = await GDocsHelpers.createHeaderFooter(docs, args.documentId, 'footer', args.variant, args.text);
+return `Successfully created ${GDocsHelpers.describeHeaderFooter('footer', args.variant)} (ID: ${footerId}).`;
+} catch (error: any) {
+log.error(`Error creating footer in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to create footer: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'deleteHeader',
+description: 'Deletes the document header, or its first page or even page variant, including its content.',
+parameters: DocumentIdParameter.extend({
+variant: HeaderFooterVariantParameter,
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Deleting ${GDocsHelpers.describeHeaderFooter('header', args.variant)} in doc ${args.documentId}`);
+try {
+const headerId = await GDocsHelpers.deleteHeaderFooter(docs, args.documentId, 'header', args.variant);
+return `Successfully deleted ${GDocsHelpers.describeHeaderFooter('header', args.variant)} (ID: ${headerId}).`;
+} catch (error: any) {
+log.error(`Error deleting header in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to delete header: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'deleteFooter',
+description: 'Deletes the document footer, or its first page or even page variant, including its content.',
+parameters: DocumentIdParameter.extend({
+variant: HeaderFooterVariantParameter,
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Deleting ${GDocsHelpers.describeHeaderFooter('footer', args.variant)} in doc ${args.documentId}`);
+try {
+const footerId = await GDocsHelpers.deleteHeaderFooter(docs, args.documentId, 'footer', args.variant);
+return `Successfully deleted ${GDocsHelpers.describeHeaderFooter('footer', args.variant)} (ID: ${footerId}).`;
+} catch (error: any) {
+log.error(`Error deleting footer in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to delete footer: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'readHeaderFooter',
+description: 'Reads the text of a header or footer.',
+parameters: DocumentIdParameter.extend({
+kind: z.enum(['header', 'footer']).describe('Whether to read a header or a footer.'),
+variant: HeaderFooterVariantParameter,
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+const label = GDocsHelpers.describeHeaderFooter(args.kind, args.variant);
+log.info(`Reading ${label} of doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: 'documentStyle,headers,footers' });
+const segmentId = GDocsHelpers.getHeaderFooterId(res.data, args.kind, args.variant);
+if (!segmentId) {
+return `The document has no ${label}.`;
+}
+const text = GDocsHelpers.extractTextFromContent(GDocsHelpers.getSegmentContent(res.data, segmentId));
+return `${label[0].toUpperCase()}${label.slice(1)} (ID: ${segmentId}):\n---\n${text}`;
+} catch (error: any) {
+log.error(`Error reading ${label} of doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to read ${args.kind}: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'replaceHeaderFooterContent',
+description: 'Replaces all text of an existing header or footer, optionally setting its paragraph alignment (e.g. a centered footer). Use an empty string to clear it.',
+parameters: DocumentIdParameter.extend({
+kind: z.enum(['header', 'footer']).describe('Whether to change a header or a footer.'),
+variant: HeaderFooterVariantParameter,
+text: z.string().describe('The new text. Use \\n to separate paragraphs.'),
+alignment: ParagraphStyleParameters.shape.alignment,
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+const label = GDocsHelpers.describeHeaderFooter(args.kind, args.variant);
+log.info(`Replacing content of ${label} in doc ${args.documentId}`);
+try {
+const res = await docs.documents.get({ documentId: args.documentId, fields: 'documentStyle,headers,footers' });
+const segmentId = GDocsHelpers.getHeaderFooterId(res.data, args.kind, args.variant);
+if (!segmentId) {
+throw new UserError(`The document has no ${label}. Create it with ${args.kind === 'header' ? 'createHeader' : 'createFooter'} first.`);
+}
+const content = GDocsHelpers.getSegmentContent(res.data, segmentId);
+const requests = GDocsHelpers.buildReplaceSegmentTextRequests(segmentId, content, args.text);
+if (args.alignment) {
+const startIndex = content?.[0]?.startIndex ?? 0;
+requests.push({
+updateParagraphStyle: {
+range: { segmentId, startIndex, endIndex: startIndex + args.text.length + 1 },
+paragraphStyle: { alignment: args.alignment },
+fields: 'alignment',
+},
+});
+}
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests);
+return `Successfully replaced the text of the ${label}.`;
+} catch (error: any) {
+log.error(`Error replacing ${label} content in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to replace ${args.kind} content: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'insertHeaderFooterDate',
+description: 'Inserts a date as text at the start or end of a header or footer. The Google Docs API cannot insert automatic fields, so page numbers (Insert > Page numbers) and self-updating dates have to be added in the Google Docs editor.',
+parameters: DocumentIdParameter.extend({
+kind: z.enum(['header', 'footer']).describe('Whether to insert into a header or a footer.'),
+variant: HeaderFooterVariantParameter,
+date: z.string().optional().describe('Optional: The date to insert (anything Date can parse, e.g. "2024-03-05"). Defaults to today.'),
+dateFormat: z.enum(['iso', 'short', 'long']).optional().default('long').describe("How to write the date: 'iso' (2024-03-05), 'short' (3/5/2024) or 'long' (March 5, 2024)."),
+position: z.enum(['start', 'end']).optional().default('end').describe('Insert at the start or the end of the header/footer text.'),
+prefix: z.string().optional().default('').describe('Optional: Text to put before the date, e.g. "Last updated: ".'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+const label = GDocsHelpers.describeHeaderFooter(args.kind, args.variant);
+log.info(`Inserting date into ${label} of doc ${args.documentId}`);
+try {
+const date = args.date ? GDocsHelpers.parseDateText(args.date) : new Date();
+const res = await docs.documents.get({ documentId: args.documentId, fields: 'documentStyle,headers,footers' });
+const segmentId = GDocsHelpers.getHeaderFooterId(res.data, args.kind, args.variant);
+if (!segmentId) {
+throw new UserError(`The document has no ${label}. Create it with ${args.kind === 'header' ? 'createHeader' : 'createFooter'} first.`);
+}
+const content = GDocsHelpers.getSegmentContent(res.data, segmentId);
+// At the end, insert in front of the segment's final newline
+const index = args.position === 'start' ? content?.[0]?.startIndex ?? 0 : (content?.[content.length - 1]?.endIndex ?? 1) - 1;
+const text = `${args.prefix}${GDocsHelpers.formatDateText(date, args.dateFormat)}`;
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{ insertText: { location: { segmentId, index }, text } }]);
+return `Successfully inserted "${text}" into the ${label}.`;
+} catch (error: any) {
+log.error(`Error inserting date into ${label} of doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to insert date: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'createFootnote',
+description: 'Adds a footnote with the given text. The footnote reference is placed at an index, at a named range, or directly after found text.',
+parameters: DocumentIdParameter.extend({
+text: z.string().min(1).describe('The text of the footnote.'),
+index: z.number().int().min(1).optional().describe('The index (1-based) where the footnote reference should be placed. Provide this, textToFind or namedRange.'),
+textToFind: TextFindParameter.shape.textToFind.optional().describe('Place the footnote reference directly after this text (a regular expression when useRegex is true).'),
+matchInstance: TextFindParameter.shape.matchInstance,
+...TextSearchOptionsParameter.shape,
+...NamedRangeAnchorParameters.shape,
+}).refine(data => [data.index, data.textToFind, data.namedRange].filter(v => v !== undefined).length === 1, {
+message: "Provide exactly one of index, textToFind or namedRange.",
+path: ["index"],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Creating footnote in doc ${args.documentId} at ${args.textToFind !== undefined ? `"${args.textToFind}"` : args.namedRange ? `${args.namedRangePosition} of named range "${args.namedRange}"` : `index ${args.index}`}`);
+try {
+let index = args.index!;
+if (args.textToFind !== undefined) {
+const [match] = await GDocsHelpers.resolveTextFindTargets(docs, args.documentId, { ...args, textToFind: args.textToFind });
+index = match.endIndex;
+} else if (args.namedRange) {
+index = await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition);
+}
+const result = await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{ createFootnote: { location: { index } } }]);
+const footnoteId = result.replies?.[0]?.createFootnote?.footnoteId;
+await GDocsHelpers.fillFootnotes(docs, args.documentId, [{ footnoteId, text: args.text }]);
+return `Successfully added footnote at index ${index} (ID: ${footnoteId}).`;
+} catch (error: any) {
+log.error(`Error creating footnote in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to create footnote: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+// --- Table Structure Tools ---
 
-            // Provide a more helpful error message
-            throw new UserError(`Failed to apply paragraph style: ${error.message || 'Unknown error'}`);
-        }
-    }
+server.addTool({
+name: 'insertTableRow',
+description: 'Inserts one or more empty rows into an existing table, above or below a reference row. Defaults to appending below the last row.',
+parameters: DocumentIdParameter.extend({
+table: TableSelectorParameter.describe("The table to modify."),
+rowIndex: z.number().int().min(0).optional().describe("Reference row index (0-based). Defaults to the last row."),
+insertBelow: z.boolean().optional().default(true).describe("Insert below the reference row (true) or above it (false)."),
+count: z.number().int().min(1).max(20).optional().default(1).describe("Number of rows to insert."),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Inserting ${args.count} row(s) into ${GDocsHelpers.describeTableSelector(args.table)} in doc ${args.documentId}`);
+try {
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.table);
+const rowIndex = args.rowIndex ?? (located.table.rows ?? 1) - 1;
+const tableCellLocation = GDocsHelpers.buildTableCellLocation(located, rowIndex, 0);
+const requests: docs_v1.Schema$Request[] = Array.from({ length: args.count }, () => ({
+insertTableRow: { tableCellLocation, insertBelow: args.insertBelow }
+}));
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests);
+return `Successfully inserted ${args.count} row(s) ${args.insertBelow ? 'below' : 'above'} row ${rowIndex} of the table at index ${located.startIndex}.`;
+} catch (error: any) {
+log.error(`Error inserting table row in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to insert table row: ${error.message || 'Unknown error'}`);
+}
+}
 });
 
-// --- Structure & Content Tools ---
+server.addTool({
+name: 'insertTableColumn',
+description: 'Inserts one or more empty columns into an existing table, left or right of a reference column. Defaults to appending right of the last column.',
+parameters: DocumentIdParameter.extend({
+table: TableSelectorParameter.describe("The table to modify."),
+columnIndex: z.number().int().min(0).optional().describe("Reference column index (0-based). Defaults to the last column."),
+insertRight: z.boolean().optional().default(true).describe("Insert right of the reference column (true) or left of it (false)."),
+count: z.number().int().min(1).max(20).optional().default(1).describe("Number of columns to insert."),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Inserting ${args.count} column(s) into ${GDocsHelpers.describeTableSelector(args.table)} in doc ${args.documentId}`);
+try {
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.table);
+const columnIndex = args.columnIndex ?? (located.table.columns ?? 1) - 1;
+const tableCellLocation = GDocsHelpers.buildTableCellLocation(located, 0, columnIndex);
+const requests: docs_v1.Schema$Request[] = Array.from({ length: args.count }, () => ({
+insertTableColumn: { tableCellLocation, insertRight: args.insertRight }
+}));
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests);
+return `Successfully inserted ${args.count} column(s) ${args.insertRight ? 'right' : 'left'} of column ${columnIndex} of the table at index ${located.startIndex}.`;
+} catch (error: any) {
+log.error(`Error inserting table column in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to insert table column: ${error.message || 'Unknown error'}`);
+}
+}
+});
 
 server.addTool({
-name: 'insertTable',
-description: 'Inserts a new table with the specified dimensions at a given index.',
+name: 'deleteTableRow',
+description: 'Deletes a row (and its content) from an existing table.',
 parameters: DocumentIdParameter.extend({
-rows: z.number().int().min(1).describe('Number of rows for the new table.'),
-columns: z.number().int().min(1).describe('Number of columns for the new table.'),
-index: z.number().int().min(1).describe('The index (1-based) where the table should be inserted.'),
+table: TableSelectorParameter.describe("The table to modify."),
+rowIndex: z.number().int().min(0).describe("Index of the row to delete (0-based)."),
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
-log.info(`Inserting ${args.rows}x${args.columns} table in doc ${args.documentId} at index ${args.index}`);
+log.info(`Deleting row ${args.rowIndex} from ${GDocsHelpers.describeTableSelector(args.table)} in doc ${args.documentId}`);
 try {
-await GDocsHelpers.createTable(docs, args.documentId, args.rows, args.columns, args.index);
-// The API response contains info about the created table, but might be too complex to return here.
-return `Successfully inserted a ${args.rows}x${args.columns} table at index ${args.index}.`;
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.table);
+const tableCellLocation = GDocsHelpers.buildTableCellLocation(located, args.rowIndex, 0);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{ deleteTableRow: { tableCellLocation } }]);
+return `Successfully deleted row ${args.rowIndex} from the table at index ${located.startIndex}.`;
 } catch (error: any) {
-log.error(`Error inserting table in doc ${args.documentId}: ${error.message || error}`);
+log.error(`Error deleting table row in doc ${args.documentId}: ${error.message || error}`);
 if (error instanceof UserError) throw error;
-throw new UserError(`Failed to insert table: ${error.message || 'Unknown error'}`);
+throw new UserError(`Failed to delete table row: ${error.message || 'Unknown error'}`);
 }
 }
 });
 
 server.addTool({
-name: 'editTableCell',
-description: 'Edits the content and/or basic style of a specific table cell. Requires knowing table start index.',
+name: 'deleteTableColumn',
+description: 'Deletes a column (and its content) from an existing table.',
 parameters: DocumentIdParameter.extend({
-tableStartIndex: z.number().int().min(1).describe("The starting index of the TABLE element itself (tricky to find, may require reading structure first)."),
-rowIndex: z.number().int().min(0).describe("Row index (0-based)."),
-columnIndex: z.number().int().min(0).describe("Column index (0-based)."),
-textContent: z.string().optional().describe("Optional: New text content for the cell. Replaces existing content."),
-// Combine basic styles for simplicity here. More advanced cell styling might need separate tools.
-textStyle: TextStyleParameters.optional().describe("Optional: Text styles to apply."),
-paragraphStyle: ParagraphStyleParameters.optional().describe("Optional: Paragraph styles (like alignment) to apply."),
-// cellBackgroundColor: z.string().optional()... // Cell-specific styles are complex
+table: TableSelectorParameter.describe("The table to modify."),
+columnIndex: z.number().int().min(0).describe("Index of the column to delete (0-based)."),
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
-log.info(`Editing cell (${args.rowIndex}, ${args.columnIndex}) in table starting at ${args.tableStartIndex}, doc ${args.documentId}`);
-
-        // TODO: Implement complex logic
-        // 1. Find the cell's content range based on tableStartIndex, rowIndex, columnIndex. This is NON-TRIVIAL.
-        //    Requires getting the document, finding the table element, iterating through rows/cells to calculate indices.
-        // 2. If textContent is provided, generate a DeleteContentRange request for the cell's current content.
-        // 3. Generate an InsertText request for the new textContent at the cell's start index.
-        // 4. If textStyle is provided, generate UpdateTextStyle requests for the new text range.
-        // 5. If paragraphStyle is provided, generate UpdateParagraphStyle requests for the cell's paragraph range.
-        // 6. Execute batch update.
-
-        log.error("editTableCell is not implemented due to complexity of finding cell indices.");
-        throw new NotImplementedError("Editing table cells is complex and not yet implemented.");
-        // return `Edit request for cell (${args.rowIndex}, ${args.columnIndex}) submitted (Not Implemented).`;
-    }
+log.info(`Deleting column ${args.columnIndex} from ${GDocsHelpers.describeTableSelector(args.table)} in doc ${args.documentId}`);
+try {
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.table);
+const tableCellLocation = GDocsHelpers.buildTableCellLocation(located, 0, args.columnIndex);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{ deleteTableColumn: { tableCellLocation } }]);
+return `Successfully deleted column ${args.columnIndex} from the table at index ${located.startIndex}.`;
+} catch (error: any) {
+log.error(`Error deleting table column in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to delete table column: ${error.message || 'Unknown error'}`);
+}
+}
+});
 
+const TableCellSpanParameters = DocumentIdParameter.extend({
+table: TableSelectorParameter.describe("The table to modify."),
+rowIndex: z.number().int().min(0).describe("Row index (0-based) of the top-left cell of the range."),
+columnIndex: z.number().int().min(0).describe("Column index (0-based) of the top-left cell of the range."),
+rowSpan: z.number().int().min(1).describe("Number of rows the range spans."),
+columnSpan: z.number().int().min(1).describe("Number of columns the range spans."),
 });
 
 server.addTool({
-name: 'insertPageBreak',
-description: 'Inserts a page break at the specified index.',
+name: 'mergeTableCells',
+description: 'Merges a rectangular range of table cells into one cell. Text from the merged cells is concatenated into the top-left cell.',
+parameters: TableCellSpanParameters,
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Merging ${args.rowSpan}x${args.columnSpan} cells at (${args.rowIndex}, ${args.columnIndex}) in ${GDocsHelpers.describeTableSelector(args.table)}, doc ${args.documentId}`);
+try {
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.table);
+const tableCellLocation = GDocsHelpers.buildTableCellLocation(located, args.rowIndex, args.columnIndex);
+// Validate the bottom-right corner as well
+GDocsHelpers.buildTableCellLocation(located, args.rowIndex + args.rowSpan - 1, args.columnIndex + args.columnSpan - 1);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{
+mergeTableCells: { tableRange: { tableCellLocation, rowSpan: args.rowSpan, columnSpan: args.columnSpan } }
+}]);
+return `Successfully merged ${args.rowSpan}x${args.columnSpan} cells starting at (${args.rowIndex}, ${args.columnIndex}).`;
+} catch (error: any) {
+log.error(`Error merging table cells in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to merge table cells: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'unmergeTableCells',
+description: 'Unmerges any merged cells within a rectangular range of a table.',
+parameters: TableCellSpanParameters,
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Unmerging ${args.rowSpan}x${args.columnSpan} cells at (${args.rowIndex}, ${args.columnIndex}) in ${GDocsHelpers.describeTableSelector(args.table)}, doc ${args.documentId}`);
+try {
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.table);
+const tableCellLocation = GDocsHelpers.buildTableCellLocation(located, args.rowIndex, args.columnIndex);
+GDocsHelpers.buildTableCellLocation(located, args.rowIndex + args.rowSpan - 1, args.columnIndex + args.columnSpan - 1);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{
+unmergeTableCells: { tableRange: { tableCellLocation, rowSpan: args.rowSpan, columnSpan: args.columnSpan } }
+}]);
+return `Successfully unmerged cells in the ${args.rowSpan}x${args.columnSpan} range starting at (${args.rowIndex}, ${args.columnIndex}).`;
+} catch (error: any) {
+log.error(`Error unmerging table cells in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to unmerge table cells: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'styleTable',
+description: 'Styles an existing table: cell background colors, borders, padding and vertical alignment (for the whole table or a cell range), alternating row colors, fixed column widths and pinned header rows.',
 parameters: DocumentIdParameter.extend({
-index: z.number().int().min(1).describe('The index (1-based) where the page break should be inserted.'),
+table: TableSelectorParameter.describe("The table to style."),
+cellRange: z.object({
+rowIndex: z.number().int().min(0).describe("Row index (0-based) of the top-left cell."),
+columnIndex: z.number().int().min(0).describe("Column index (0-based) of the top-left cell."),
+rowSpan: z.number().int().min(1).optional().default(1).describe("Number of rows to style."),
+columnSpan: z.number().int().min(1).optional().default(1).describe("Number of columns to style."),
+}).optional().describe("Optional: Limit cellStyle to this range of cells. If omitted, cellStyle applies to every cell."),
+cellStyle: TableCellStyleParameters.optional().describe("Optional: Cell styling to apply."),
+alternatingRowColors: z.object({
+evenRowColor: z.string().refine(validateHexColor, { message: "Invalid hex color format (e.g., #FFFFFF or #FFF)" }).describe('Background for rows 0, 2, 4, ... (hex).'),
+oddRowColor: z.string().refine(validateHexColor, { message: "Invalid hex color format (e.g., #F3F3F3 or #EEE)" }).describe('Background for rows 1, 3, 5, ... (hex).'),
+skipHeaderRow: z.boolean().optional().default(true).describe('Leave the first row untouched.'),
+}).optional().describe("Optional: Banded row background colors."),
+columnWidths: z.array(z.object({
+columnIndex: z.number().int().min(0).describe("Column index (0-based)."),
+width: z.number().min(5).describe("Fixed column width in points."),
+})).min(1).optional().describe("Optional: Fixed widths for specific columns."),
+pinnedHeaderRows: z.number().int().min(0).optional().describe("Optional: Number of leading rows to repeat as a header on each page (0 unpins)."),
+}).refine(data => data.cellStyle !== undefined || data.alternatingRowColors !== undefined || data.columnWidths !== undefined || data.pinnedHeaderRows !== undefined, {
+message: "At least one of cellStyle, alternatingRowColors, columnWidths or pinnedHeaderRows must be provided.",
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
-log.info(`Inserting page break in doc ${args.documentId} at index ${args.index}`);
+log.info(`Styling ${GDocsHelpers.describeTableSelector(args.table)} in doc ${args.documentId}`);
 try {
-const request: docs_v1.Schema$Request = {
-insertPageBreak: {
-location: { index: args.index }
+const located = await GDocsHelpers.getTable(docs, args.documentId, args.table);
+const rowCount = located.table.rows ?? 0;
+const columnCount = located.table.columns ?? 0;
+const requests: docs_v1.Schema$Request[] = [];
+const appliedChanges: string[] = [];
+
+// Alternating colors first so an explicit cellStyle (e.g. a header background) wins
+if (args.alternatingRowColors) {
+for (let rowIndex = args.alternatingRowColors.skipHeaderRow ? 1 : 0; rowIndex < rowCount; rowIndex++) {
+const backgroundColor = rowIndex % 2 === 0 ? args.alternatingRowColors.evenRowColor : args.alternatingRowColors.oddRowColor;
+const requestInfo = GDocsHelpers.buildUpdateTableCellStyleRequest(located.startIndex, { rowIndex, columnIndex: 0, rowSpan: 1, columnSpan: columnCount }, { backgroundColor });
+if (requestInfo) requests.push(requestInfo.request);
 }
-};
-await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [request]);
-return `Successfully inserted page break at index ${args.index}.`;
+appliedChanges.push('alternating row colors');
+}
+
+if (args.cellStyle) {
+if (args.cellRange) {
+GDocsHelpers.buildTableCellLocation(located, args.cellRange.rowIndex, args.cellRange.columnIndex);
+GDocsHelpers.buildTableCellLocation(located, args.cellRange.rowIndex + args.cellRange.rowSpan - 1, args.cellRange.columnIndex + args.cellRange.columnSpan - 1);
+}
+const requestInfo = GDocsHelpers.buildUpdateTableCellStyleRequest(located.startIndex, args.cellRange ?? null, args.cellStyle);
+if (requestInfo) {
+requests.push(requestInfo.request);
+appliedChanges.push(`cell style (${requestInfo.fields.join(', ')})`);
+}
+}
+
+if (args.columnWidths) {
+args.columnWidths.forEach(({ columnIndex, width }) => {
+GDocsHelpers.buildTableCellLocation(located, 0, columnIndex);
+requests.push({
+updateTableColumnProperties: {
+tableStartLocation: { index: located.startIndex },
+columnIndices: [columnIndex],
+tableColumnProperties: { widthType: 'FIXED_WIDTH', width: { magnitude: width, unit: 'PT' } },
+fields: 'width,widthType',
+}
+});
+});
+appliedChanges.push(`${args.columnWidths.length} column width(s)`);
+}
+
+if (args.pinnedHeaderRows !== undefined) {
+if (args.pinnedHeaderRows > rowCount) {
+throw new UserError(`Cannot pin ${args.pinnedHeaderRows} header rows; the table has ${rowCount} row(s).`);
+}
+requests.push({ pinTableHeaderRows: { tableStartLocation: { index: located.startIndex }, pinnedHeaderRowsCount: args.pinnedHeaderRows } });
+appliedChanges.push(`${args.pinnedHeaderRows} pinned header row(s)`);
+}
+
+if (requests.length === 0) {
+return "No valid table styling options were provided.";
+}
+
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests);
+return `Successfully applied ${appliedChanges.join(', ')} to the table at index ${located.startIndex}.`;
 } catch (error: any) {
-log.error(`Error inserting page break in doc ${args.documentId}: ${error.message || error}`);
+log.error(`Error styling table in doc ${args.documentId}: ${error.message || error}`);
 if (error instanceof UserError) throw error;
-throw new UserError(`Failed to insert page break: ${error.message || 'Unknown error'}`);
+throw new UserError(`Failed to style table: ${error.message || 'Unknown error'}`);
 }
 }
 });
@@ -716,20 +1941,25 @@ name: 'insertImageFromUrl',
 description: 'Inserts an inline image into a Google Document from a publicly accessible URL.',
 parameters: DocumentIdParameter.extend({
 imageUrl: z.string().url().describe('Publicly accessible URL to the image (must be http:// or https://).'),
-index: z.number().int().min(1).describe('The index (1-based) where the image should be inserted.'),
+index: z.number().int().min(1).optional().describe('The index (1-based) where the image should be inserted. Provide either this or namedRange.'),
+...NamedRangeAnchorParameters.shape,
 width: z.number().min(1).optional().describe('Optional: Width of the image in points.'),
 height: z.number().min(1).optional().describe('Optional: Height of the image in points.'),
+}).refine(data => (data.index === undefined) !== (data.namedRange === undefined), {
+message: "Provide exactly one of index or namedRange.",
+path: ["index"],
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
-log.info(`Inserting image from URL ${args.imageUrl} at index ${args.index} in doc ${args.documentId}`);
+log.info(`Inserting image from URL ${args.imageUrl} at ${args.namedRange ? `named range "${args.namedRange}"` : `index ${args.index}`} in doc ${args.documentId}`);
 
 try {
+const index = args.namedRange ? await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition) : args.index!;
 await GDocsHelpers.insertInlineImage(
 docs,
 args.documentId,
 args.imageUrl,
-args.index,
+index,
 args.width,
 args.height
 );
@@ -739,7 +1969,7 @@ if (args.width && args.height) {
 sizeInfo = ` with size ${args.width}x${args.height}pt`;
 }
 
-return `Successfully inserted image from URL at index ${args.index}${sizeInfo}.`;
+return `Successfully inserted image from URL at index ${index}${sizeInfo}.`;
 } catch (error: any) {
 log.error(`Error inserting image in doc ${args.documentId}: ${error.message || error}`);
 if (error instanceof UserError) throw error;
@@ -753,17 +1983,24 @@ name: 'insertLocalImage',
 description: 'Uploads a local image file to Google Drive and inserts it into a Google Document. The image will be uploaded to the same folder as the document (or optionally to a specified folder).',
 parameters: DocumentIdParameter.extend({
 localImagePath: z.string().describe('Absolute path to the local image file (supports .jpg, .jpeg, .png, .gif, .bmp, .webp, .svg).'),
-index: z.number().int().min(1).describe('The index (1-based) where the image should be inserted in the document.'),
+index: z.number().int().min(1).optional().describe('The index (1-based) where the image should be inserted in the document. Provide either this or namedRange.'),
+...NamedRangeAnchorParameters.shape,
 width: z.number().min(1).optional().describe('Optional: Width of the image in points.'),
 height: z.number().min(1).optional().describe('Optional: Height of the image in points.'),
 uploadToSameFolder: z.boolean().optional().default(true).describe('If true, uploads the image to the same folder as the document. If false, uploads to Drive root.'),
+}).refine(data => (data.index === undefined) !== (data.namedRange === undefined), {
+message: "Provide exactly one of index or namedRange.",
+path: ["index"],
 }),
 execute: async (args, { log }) => {
 const docs = await getDocsClient();
 const drive = await getDriveClient();
-log.info(`Uploading local image ${args.localImagePath} and inserting at index ${args.index} in doc ${args.documentId}`);
+log.info(`Uploading local image ${args.localImagePath} and inserting at ${args.namedRange ? `named range "${args.namedRange}"` : `index ${args.index}`} in doc ${args.documentId}`);
 
 try {
+// Resolve the named range before uploading, so a missing range fails fast
+const index = args.namedRange ? await GDocsHelpers.resolveNamedRangeIndex(docs, args.documentId, args.namedRange, args.namedRangePosition) : args.index!;
+
 // Get the document's parent folder if requested
 let parentFolderId: string | undefined;
 if (args.uploadToSameFolder) {
@@ -795,7 +2032,7 @@ await GDocsHelpers.insertInlineImage(
 docs,
 args.documentId,
 imageUrl,
-args.index,
+index,
 args.width,
 args.height
 );
@@ -805,7 +2042,7 @@ if (args.width && args.height) {
 sizeInfo = ` with size ${args.width}x${args.height}pt`;
 }
 
-return `Successfully uploaded image to Drive and inserted it at index ${args.index}${sizeInfo}.\nImage URL: ${imageUrl}`;
+return `Successfully uploaded image to Drive and inserted it at index ${index}${sizeInfo}.\nImage URL: ${imageUrl}`;
 } catch (error: any) {
 log.error(`Error uploading/inserting local image in doc ${args.documentId}: ${error.message || error}`);
 if (error instanceof UserError) throw error;
@@ -814,11 +2051,98 @@ throw new UserError(`Failed to upload/insert local image: ${error.message || 'Un
 }
 });
 
+// --- List Tools ---
+
+server.addTool({
+name: 'createList',
+description: 'Turns the target paragraph(s) into a bulleted or numbered list. Leading tabs in the paragraphs set each item\'s nesting level.',
+parameters: DocumentIdParameter.extend({
+target: ParagraphTargetParameter.describe("The paragraphs to convert: a start/end range covering them, text within a single paragraph, an index within it, or a named range covering them."),
+bulletPreset: BulletPresetParameter.optional().default('BULLET_DISC_CIRCLE_SQUARE'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Creating ${args.bulletPreset} list in doc ${args.documentId}. Target: ${JSON.stringify(args.target)}`);
+try {
+const { startIndex, endIndex } = await GDocsHelpers.resolveParagraphTarget(docs, args.documentId, args.target);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{
+createParagraphBullets: { range: { startIndex, endIndex }, bulletPreset: args.bulletPreset }
+}]);
+return `Successfully created a ${args.bulletPreset.startsWith('NUMBERED') ? 'numbered' : 'bulleted'} list for range ${startIndex}-${endIndex}.`;
+} catch (error: any) {
+log.error(`Error creating list in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to create list: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'removeList',
+description: 'Removes bullets or numbering from the target paragraph(s), turning them back into normal paragraphs.',
+parameters: DocumentIdParameter.extend({
+target: ParagraphTargetParameter.describe("The list paragraphs to convert back: a start/end range covering them, text within a single item, an index within it, or a named range covering them."),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Removing list formatting in doc ${args.documentId}. Target: ${JSON.stringify(args.target)}`);
+try {
+const { startIndex, endIndex } = await GDocsHelpers.resolveParagraphTarget(docs, args.documentId, args.target);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [{
+deleteParagraphBullets: { range: { startIndex, endIndex } }
+}]);
+return `Successfully removed list formatting from range ${startIndex}-${endIndex}.`;
+} catch (error: any) {
+log.error(`Error removing list in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to remove list: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'changeListNesting',
+description: 'Changes the nesting level of list items, either to an absolute level or by indenting/outdenting relative to the current level. The surrounding list is re-created, so its items stay in one list.',
+parameters: DocumentIdParameter.extend({
+target: ParagraphTargetParameter.describe("The list items to re-nest: a start/end range covering them, text within a single item, an index within it, or a named range covering them."),
+nestingLevel: z.number().int().min(0).max(8).optional().describe("Absolute nesting level to set (0 = top level)."),
+levelChange: z.number().int().min(-8).max(8).optional().describe("Relative change: positive to indent, negative to outdent."),
+bulletPreset: BulletPresetParameter.optional().describe("Optional: Preset for the re-created list. Defaults to a standard bulleted or numbered preset matching the current list."),
+}).refine(data => (data.nestingLevel === undefined) !== (data.levelChange === undefined), {
+message: "Provide exactly one of nestingLevel or levelChange.",
+path: ["nestingLevel"],
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Changing list nesting in doc ${args.documentId}. Target: ${JSON.stringify(args.target)}, level: ${args.nestingLevel ?? `${args.levelChange! > 0 ? '+' : ''}${args.levelChange}`}`);
+try {
+const range = await GDocsHelpers.resolveParagraphTarget(docs, args.documentId, args.target);
+const res = await docs.documents.get({
+documentId: args.documentId,
+fields: 'body(content(startIndex,endIndex,paragraph(bullet))),lists',
+});
+const { requests, paragraphsChanged } = GDocsHelpers.buildListNestingRequests(
+res.data.body?.content || [],
+res.data.lists || undefined,
+range,
+{ nestingLevel: args.nestingLevel, levelChange: args.levelChange },
+args.bulletPreset
+);
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests);
+return `Successfully changed the nesting level of ${paragraphsChanged} list item(s).`;
+} catch (error: any) {
+log.error(`Error changing list nesting in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+throw new UserError(`Failed to change list nesting: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
 // --- Intelligent Assistance Tools (Examples/Stubs) ---
 
 server.addTool({
 name: 'fixListFormatting',
-description: 'EXPERIMENTAL: Attempts to detect paragraphs that look like lists (e.g., starting with -, *, 1.) and convert them to proper Google Docs bulleted or numbered lists. Best used on specific sections.',
+description: 'EXPERIMENTAL: Detects paragraphs that look like lists (e.g., starting with -, *, •, 1., a)) and converts them to proper Google Docs bulleted or numbered lists, using leading indentation for nesting. Best used on specific sections.',
 parameters: DocumentIdParameter.extend({
 // Optional range to limit the scope, otherwise scans whole doc (potentially slow/risky)
 range: OptionalRangeParameters.optional().describe("Optional: Limit the fixing process to a specific range.")
@@ -827,12 +2151,14 @@ execute: async (args, { log }) => {
 const docs = await getDocsClient();
 log.warn(`Executing EXPERIMENTAL fixListFormatting for doc ${args.documentId}. Range: ${JSON.stringify(args.range)}`);
 try {
-await GDocsHelpers.detectAndFormatLists(docs, args.documentId, args.range?.startIndex, args.range?.endIndex);
-return `Attempted to fix list formatting. Please review the document for accuracy.`;
+const result = await GDocsHelpers.detectAndFormatLists(docs, args.documentId, args.range?.startIndex, args.range?.endIndex);
+if (result.listsCreated === 0) {
+return "No plain-text list markers (-, *, •, 1., a), etc.) were found to convert.";
+}
+return `Converted ${result.paragraphsConverted} paragraph(s) into ${result.listsCreated} list(s). Please review the document for accuracy.`;
 } catch (error: any) {
 log.error(`Error fixing list formatting in doc ${args.documentId}: ${error.message || error}`);
 if (error instanceof UserError) throw error;
-if (error instanceof NotImplementedError) throw error; // Expected if helper not implemented
 throw new UserError(`Failed to fix list formatting: ${error.message || 'Unknown error'}`);
 }
 }
@@ -945,75 +2271,94 @@ server.addTool({
 
 server.addTool({
   name: 'addComment',
-  description: 'Adds a comment anchored to a specific text range in the document.',
+  description: 'Adds a comment anchored to a text range in the document, given by indices or by searching for text. With allMatches, one comment is added to every match.',
   parameters: DocumentIdParameter.extend({
-    startIndex: z.number().int().min(1).describe('The starting index of the text range (inclusive, starts from 1).'),
-    endIndex: z.number().int().min(1).describe('The ending index of the text range (exclusive).'),
+    startIndex: z.number().int().min(1).optional().describe('The starting index of the text range (inclusive, starts from 1). Use with endIndex instead of textToFind.'),
+    endIndex: z.number().int().min(1).optional().describe('The ending index of the text range (exclusive).'),
+    textToFind: TextFindParameter.shape.textToFind.optional().describe('Text to anchor the comment to, instead of startIndex/endIndex (a regular expression when useRegex is true).'),
+    matchInstance: TextFindParameter.shape.matchInstance,
+    ...TextSearchOptionsParameter.shape,
+    allMatches: TextFindParameter.shape.allMatches,
     commentText: z.string().min(1).describe('The content of the comment.'),
-  }).refine(data => data.endIndex > data.startIndex, {
+  }).refine(data => (data.textToFind !== undefined) !== (data.startIndex !== undefined && data.endIndex !== undefined), {
+    message: 'Provide either startIndex and endIndex, or textToFind',
+  }).refine(data => data.textToFind !== undefined || data.endIndex! > data.startIndex!, {
     message: 'endIndex must be greater than startIndex',
     path: ['endIndex'],
   }),
   execute: async (args, { log }) => {
-    log.info(`Adding comment to range ${args.startIndex}-${args.endIndex} in doc ${args.documentId}`);
+    log.info(`Adding comment to ${args.textToFind !== undefined ? `"${args.textToFind}"` : `range ${args.startIndex}-${args.endIndex}`} in doc ${args.documentId}`);
     
     try {
       // First, get the text content that will be quoted
       const docsClient = await getDocsClient();
+      const ranges = args.textToFind !== undefined
+        ? await GDocsHelpers.resolveTextFindTargets(docsClient, args.documentId, { ...args, textToFind: args.textToFind })
+        : [{ startIndex: args.startIndex!, endIndex: args.endIndex! }];
       const doc = await docsClient.documents.get({ documentId: args.documentId });
-      
-      // Extract the quoted text from the document
-      let quotedText = '';
       const content = doc.data.body?.content || [];
-      
-      for (const element of content) {
-        if (element.paragraph) {
-          const elements = element.paragraph.elements || [];
-          for (const textElement of elements) {
-            if (textElement.textRun) {
-              const elementStart = textElement.startIndex || 0;
-              const elementEnd = textElement.endIndex || 0;
-              
-              // Check if this element overlaps with our range
-              if (elementEnd > args.startIndex && elementStart < args.endIndex) {
-                const text = textElement.textRun.content || '';
-                const startOffset = Math.max(0, args.startIndex - elementStart);
-                const endOffset = Math.min(text.length, args.endIndex - elementStart);
-                quotedText += text.substring(startOffset, endOffset);
+
+      // Extract the quoted text from the document
+      const getQuotedText = (startIndex: number, endIndex: number) => {
+        let quotedText = '';
+        for (const element of content) {
+          if (element.paragraph) {
+            const elements = element.paragraph.elements || [];
+            for (const textElement of elements) {
+              if (textElement.textRun) {
+                const elementStart = textElement.startIndex || 0;
+                const elementEnd = textElement.endIndex || 0;
+                
+                // Check if this element overlaps with our range
+                if (elementEnd > startIndex && elementStart < endIndex) {
+                  const text = textElement.textRun.content || '';
+                  const startOffset = Math.max(0, startIndex - elementStart);
+                  const endOffset = Math.min(text.length, endIndex - elementStart);
+                  quotedText += text.substring(startOffset, endOffset);
+                }
               }
             }
           }
         }
-      }
+        return quotedText;
+      };
       
       // Use Drive API v3 for comments
       const drive = google.drive({ version: 'v3', auth: authClient! });
       
-      const response = await drive.comments.create({
-        fileId: args.documentId,
-        requestBody: {
-          content: args.commentText,
-          quotedFileContent: {
-            value: quotedText,
-            mimeType: 'text/html'
-          },
-          anchor: JSON.stringify({
-            r: args.documentId,
-            a: [{
-              txt: {
-                o: args.startIndex - 1,  // Drive API uses 0-based indexing
-                l: args.endIndex - args.startIndex,
-                ml: args.endIndex - args.startIndex
-              }
-            }]
-          })
-        }
-      });
+      const commentIds: string[] = [];
+      for (const { startIndex, endIndex } of ranges) {
+        const response = await drive.comments.create({
+          fileId: args.documentId,
+          requestBody: {
+            content: args.commentText,
+            quotedFileContent: {
+              value: getQuotedText(startIndex, endIndex),
+              mimeType: 'text/html'
+            },
+            anchor: JSON.stringify({
+              r: args.documentId,
+              a: [{
+                txt: {
+                  o: startIndex - 1,  // Drive API uses 0-based indexing
+                  l: endIndex - startIndex,
+                  ml: endIndex - startIndex
+                }
+              }]
+            })
+          }
+        });
+        commentIds.push(response.data.id || '');
+      }
       
-      return `Comment added successfully. Comment ID: ${response.data.id}`;
+      if (commentIds.length === 1) {
+        return `Comment added successfully. Comment ID: ${commentIds[0]}`;
+      }
+      return `Added ${commentIds.length} comments. Comment IDs: ${commentIds.join(', ')}`;
       
     } catch (error: any) {
       log.error(`Error adding comment: ${error.message || error}`);
+      if (error instanceof UserError) throw error;
       throw new UserError(`Failed to add comment: ${error.message || 'Unknown error'}`);
     }
   }
@@ -1105,32 +2450,157 @@ server.addTool({
   }
 });
 
-// --- Add Stubs for other advanced features ---
-// (findElement, getDocumentMetadata, replaceText, list management, image handling, section breaks, footnotes, etc.)
-// Example Stub:
+// --- Search & Query Tools ---
+
+server.addTool({
+name: 'searchInDocument',
+description: 'Searches the document body (table cells included) for text or a regular expression. Returns every match with its document range (usable as startIndex/endIndex in other tools) and the surrounding text of its paragraph.',
+parameters: DocumentIdParameter.extend({
+query: z.string().min(1).describe('The text to search for (a regular expression when useRegex is true).'),
+...TextSearchOptionsParameter.shape,
+maxResults: z.number().int().min(1).max(1000).optional().default(100).describe('Maximum number of matches to return.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Searching doc ${args.documentId} for ${args.useRegex ? 'regex' : 'text'} "${args.query}"`);
+try {
+const matches = await GDocsHelpers.searchDocumentText(docs, args.documentId, args.query, args);
+log.info(`Found ${matches.length} match(es)`);
+if (matches.length === 0) {
+return `No matches found for "${args.query}".`;
+}
+return JSON.stringify({ totalMatches: matches.length, matches: matches.slice(0, args.maxResults) }, null, 2);
+} catch (error: any) {
+log.error(`Error searching doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to search document: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'replaceText',
+description: 'Finds and replaces text across the document body (table cells included). Supports literal or regex patterns with $1/$<name> substitutions, case sensitivity, whole words, replacing only selected matches, skipping paragraphs by named style (e.g. the TITLE), styling the replacement, and a dry run that previews every change. Replacements keep the formatting of the text they replace.',
+parameters: DocumentIdParameter.extend({
+find: z.string().min(1).describe('The text to find (a regular expression when useRegex is true).'),
+replaceWith: z.string().describe('The replacement text. In regex mode, $1, $<name> and $& insert captured text; use $$ for a literal "$". May be empty to delete matches.'),
+...TextSearchOptionsParameter.shape,
+matchInstances: z.array(z.number().int().min(1)).min(1).optional().describe('Only replace these matches (1-based, numbered as in the dry run preview). Defaults to all.'),
+maxReplacements: z.number().int().min(1).optional().describe('Replace at most this many matches, in document order.'),
+excludeNamedStyleTypes: z.array(ParagraphStyleParameters.shape.namedStyleType.unwrap()).min(1).optional().describe('Leave matches in paragraphs with these named styles untouched (e.g. ["TITLE"]). Excluded matches are not numbered.'),
+style: TextStyleParameters.optional().describe('Optional formatting to apply to the replacement text.'),
+dryRun: z.boolean().optional().default(false).describe('If true, return a preview of the replacements without changing the document.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+log.info(`Replacing ${args.useRegex ? 'regex' : 'text'} "${args.find}" in doc ${args.documentId}${args.dryRun ? ' (dry run)' : ''}`);
+try {
+const res = await docs.documents.get({
+documentId: args.documentId,
+fields: 'revisionId,body(content(paragraph(paragraphStyle(namedStyleType),elements(startIndex,endIndex,textRun(content))),table,startIndex,endIndex))',
+});
+const { replacements, totalMatches } = GDocsHelpers.planTextReplacements(res.data.body?.content, args.find, args.replaceWith, args);
+log.info(`Selected ${replacements.length} of ${totalMatches} match(es)`);
+
+if (args.dryRun) {
+return JSON.stringify({
+totalMatches,
+replacements: replacements.map(({ matchNumber, startIndex, endIndex, text, replacement, context }) => ({ matchNumber, startIndex, endIndex, text, replacement, context })),
+}, null, 2);
+}
+if (replacements.length === 0) {
+return `No matches of "${args.find}" to replace (${totalMatches} eligible match(es) found).`;
+}
+
+await GDocsHelpers.executeBatchUpdate(docs, args.documentId, GDocsHelpers.buildTextReplacementRequests(replacements, args.style), {
+requiredRevisionId: res.data.revisionId || undefined,
+});
+return `Successfully replaced ${replacements.length} of ${totalMatches} match(es) of "${args.find}".`;
+} catch (error: any) {
+log.error(`Error replacing text in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to replace text: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
 server.addTool({
 name: 'findElement',
-description: 'Finds elements (paragraphs, tables, etc.) based on various criteria. (Not Implemented)',
+description: 'Finds paragraphs, headings, list items, tables or images matching a query. Criteria combine: element type, contained text or a regex, named paragraph styles, and character formatting (bold, italic, font family, size, colors). Returns each match with its indices, named style, the indices of the first text match and a snippet.',
+parameters: DocumentIdParameter.extend({
+...ElementQueryParameters.shape,
+maxResults: z.number().int().min(1).max(500).optional().default(50).describe('Maximum number of matches to return.'),
+}),
+execute: async (args, { log }) => {
+const docs = await getDocsClient();
+const { documentId, maxResults, ...query } = args;
+log.info(`Finding ${query.elementType} elements in doc ${documentId}: ${JSON.stringify(query)}`);
+try {
+const res = await docs.documents.get({ documentId, fields: 'body,inlineObjects' });
+const matches = GDocsHelpers.findElements(res.data, query);
+log.info(`Found ${matches.length} matching element(s)`);
+
+if (matches.length === 0) {
+return `No ${query.elementType} elements match the query.`;
+}
+const shown = matches.slice(0, maxResults);
+const note = matches.length > shown.length ? `Showing ${shown.length} of ${matches.length} matches.\n` : `Found ${matches.length} match(es).\n`;
+return note + JSON.stringify(shown, null, 2);
+} catch (error: any) {
+log.error(`Error finding elements in doc ${documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${documentId}).`);
+throw new UserError(`Failed to find elements: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
+server.addTool({
+name: 'findParagraphsMatchingStyle',
+description: 'Finds paragraphs by named style and/or character formatting, e.g. all HEADING_1..HEADING_3 paragraphs for a table of contents, or all paragraphs in a given font. Returns each paragraph with its indices, named style and a snippet.',
 parameters: DocumentIdParameter.extend({
-// Define complex query parameters...
-textQuery: z.string().optional(),
-elementType: z.enum(['paragraph', 'table', 'list', 'image']).optional(),
-// styleQuery...
+namedStyleTypes: ElementQueryParameters.shape.namedStyleTypes,
+textStyle: ElementQueryParameters.shape.textStyle,
+textStyleMatch: ElementQueryParameters.shape.textStyleMatch,
+includeTableCells: ElementQueryParameters.shape.includeTableCells,
+}).refine(data => data.namedStyleTypes !== undefined || (data.textStyle !== undefined && Object.values(data.textStyle).some(v => v !== undefined)), {
+message: "Provide namedStyleTypes and/or at least one textStyle option.",
 }),
 execute: async (args, { log }) => {
-log.warn("findElement tool called but is not implemented.");
-throw new NotImplementedError("Finding elements by complex criteria is not yet implemented.");
+const docs = await getDocsClient();
+log.info(`Finding paragraphs by style in doc ${args.documentId}`);
+try {
+const { documentId, ...criteria } = args;
+const matches = await GDocsHelpers.findParagraphsMatchingStyle(docs, documentId, criteria);
+if (matches.length === 0) {
+return "No paragraphs match the style criteria.";
+}
+return JSON.stringify(matches, null, 2);
+} catch (error: any) {
+log.error(`Error finding paragraphs by style in doc ${args.documentId}: ${error.message || error}`);
+if (error instanceof UserError) throw error;
+if (error.code === 404) throw new UserError(`Doc not found (ID: ${args.documentId}).`);
+if (error.code === 403) throw new UserError(`Permission denied for doc (ID: ${args.documentId}).`);
+throw new UserError(`Failed to find paragraphs: ${error.message || 'Unknown error'}`);
+}
 }
 });
 
 // --- Preserve the existing formatMatchingText tool for backward compatibility ---
 server.addTool({
 name: 'formatMatchingText',
-description: 'Finds specific text within a Google Document and applies character formatting (bold, italics, color, etc.) to the specified instance.',
+description: 'Finds specific text within a Google Document and applies character formatting (bold, italics, color, etc.) to the specified instance, or to every match with allMatches.',
 parameters: z.object({
   documentId: z.string().describe('The ID of the Google Document.'),
   textToFind: z.string().min(1).describe('The exact text string to find and format.'),
   matchInstance: z.number().int().min(1).optional().default(1).describe('Which instance of the text to format (1st, 2nd, etc.). Defaults to 1.'),
+  ...TextSearchOptionsParameter.shape,
+  allMatches: TextFindParameter.shape.allMatches,
   // Re-use optional Formatting Parameters (SHARED)
   bold: z.boolean().optional().describe('Apply bold formatting.'),
   italic: z.boolean().optional().describe('Apply italic formatting.'),
@@ -1152,7 +2622,7 @@ parameters: z.object({
     .describe('Set text background color using hex format (e.g., "#FFFF00").'),
   linkUrl: z.string().url().optional().describe('Make the text a hyperlink pointing to this URL.')
 })
-.refine(data => Object.keys(data).some(key => !['documentId', 'textToFind', 'matchInstance'].includes(key) && data[key as keyof typeof data] !== undefined), {
+.refine(data => Object.keys(data).some(key => !['documentId', 'textToFind', 'matchInstance', 'useRegex', 'caseSensitive', 'wholeWord', 'allMatches'].includes(key) && data[key as keyof typeof data] !== undefined), {
     message: "At least one formatting option (bold, italic, fontSize, etc.) must be provided."
 }),
 execute: async (args, { log }) => {
@@ -1173,19 +2643,24 @@ execute: async (args, { log }) => {
     if (args.backgroundColor !== undefined) styleParams.backgroundColor = args.backgroundColor;
     if (args.linkUrl !== undefined) styleParams.linkUrl = args.linkUrl;
 
-    // Find the text range
-    const range = await GDocsHelpers.findTextRange(docs, args.documentId, args.textToFind, args.matchInstance);
-    if (!range) {
-      throw new UserError(`Could not find instance ${args.matchInstance} of text "${args.textToFind}".`);
-    }
+    // Find the text range(s)
+    const matches = await GDocsHelpers.resolveTextFindTargets(docs, args.documentId, args);
 
-    // Build and execute the request
-    const requestInfo = GDocsHelpers.buildUpdateTextStyleRequest(range.startIndex, range.endIndex, styleParams);
-    if (!requestInfo) {
-      return "No valid text styling options were provided.";
+    // Build and execute the requests
+    const requests: docs_v1.Schema$Request[] = [];
+    for (const match of matches) {
+      const requestInfo = GDocsHelpers.buildUpdateTextStyleRequest(match.startIndex, match.endIndex, styleParams);
+      if (!requestInfo) {
+        return "No valid text styling options were provided.";
+      }
+      requests.push(requestInfo.request);
     }
 
-    await GDocsHelpers.executeBatchUpdate(docs, args.documentId, [requestInfo.request]);
+    const result = await GDocsHelpers.executeBatchUpdate(docs, args.documentId, requests, { chunked: true, sortByIndexDescending: true });
+    if (args.allMatches) {
+      const batches = result.chunks.length > 1 ? ` in ${result.chunks.length} batches` : '';
+      return `Successfully applied formatting to all ${matches.length} matches of "${args.textToFind}"${batches}.`;
+    }
     return `Successfully applied formatting to instance ${args.matchInstance} of "${args.textToFind}".`;
   } catch (error: any) {
     log.error(`Error in formatMatchingText for doc ${args.documentId}: ${error.message || error}`);
@@ -1775,6 +3250,48 @@ try {
 }
 });
 
+server.addTool({
+name: 'exportDocument',
+description: 'Exports a Google Document to PDF, DOCX, ODT, RTF, EPUB, plain text or zipped HTML, and either saves it to a local path or uploads it to a Drive folder as a new file.',
+parameters: DocumentIdParameter.extend({
+  format: z.enum(['pdf', 'docx', 'odt', 'rtf', 'epub', 'txt', 'html']).describe("Export format. 'html' produces a .zip containing the HTML and its images."),
+  localPath: z.string().optional().describe('Absolute local path to write the file to. If it is an existing directory (or ends with a slash), the file is named after the document title.'),
+  uploadToFolderId: z.string().optional().describe('ID of a Drive folder to upload the exported file to. Use "root" for Drive root.'),
+  fileName: z.string().min(1).optional().describe('Optional: File name for the export. Defaults to the document title with the format\'s extension.'),
+}).refine(data => (data.localPath === undefined) !== (data.uploadToFolderId === undefined), {
+  message: "Provide exactly one of localPath or uploadToFolderId.",
+  path: ["localPath"],
+}),
+execute: async (args, { log }) => {
+const drive = await getDriveClient();
+log.info(`Exporting document ${args.documentId} as ${args.format}`);
+
+try {
+  const exported = await GDocsHelpers.exportDocumentFile(drive, args.documentId, args.format);
+  const fileName = args.fileName || exported.fileName;
+  const sizeKb = Math.ceil(exported.data.length / 1024);
+
+  if (args.localPath) {
+    const writtenPath = await GDocsHelpers.writeExportedFile(args.localPath, fileName, exported.data);
+    log.info(`Wrote ${exported.data.length} bytes to ${writtenPath}`);
+    return `Successfully exported document as ${args.format.toUpperCase()} (${sizeKb} KB) to ${writtenPath}`;
+  }
+
+  const uploaded = await GDocsHelpers.uploadExportedFile(drive, fileName, exported.mimeType, exported.data, args.uploadToFolderId);
+  return `Successfully exported document as ${args.format.toUpperCase()} (${sizeKb} KB) and uploaded "${uploaded.name}" (ID: ${uploaded.id})\nView Link: ${uploaded.webViewLink}`;
+} catch (error: any) {
+  log.error(`Error exporting document ${args.documentId}: ${error.message || error}`);
+  if (error instanceof UserError) throw error;
+  if (error.code === 404) throw new UserError("Document or destination folder not found. Check the IDs.");
+  if (error.code === 403) {
+    if (/exportSizeLimitExceeded|too large/i.test(error.message || '')) throw new UserError("The document is too large to export (Drive limits exports to 10 MB).");
+    throw new UserError("Permission denied. Make sure you have read access to the document and write access to the destination folder.");
+  }
+  throw new UserError(`Failed to export document: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
 // --- Document Creation Tools ---
 
 server.addTool({
@@ -1784,6 +3301,7 @@ parameters: z.object({
   title: z.string().min(1).describe('Title for the new document.'),
   parentFolderId: z.string().optional().describe('ID of folder where document should be created. If not provided, creates in Drive root.'),
   initialContent: z.string().optional().describe('Initial text content to add to the document.'),
+  markdown: z.boolean().optional().default(false).describe('If true, initialContent is parsed as markdown and inserted as formatted content.'),
 }),
 execute: async (args, { log }) => {
 const drive = await getDriveClient();
@@ -1811,17 +3329,21 @@ try {
   if (args.initialContent) {
     try {
       const docs = await getDocsClient();
-      await docs.documents.batchUpdate({
-        documentId: document.id!,
-        requestBody: {
-          requests: [{
-            insertText: {
-              location: { index: 1 },
-              text: args.initialContent,
-            },
-          }],
-        },
-      });
+      if (args.markdown) {
+        await MarkdownHelpers.insertMarkdown(docs, document.id!, args.initialContent, 1);
+      } else {
+        await docs.documents.batchUpdate({
+          documentId: document.id!,
+          requestBody: {
+            requests: [{
+              insertText: {
+                location: { index: 1 },
+                text: args.initialContent,
+              },
+            }],
+          },
+        });
+      }
       result += `\n\nInitial content added to document.`;
     } catch (contentError: any) {
       log.warn(`Document created but failed to add initial content: ${contentError.message}`);
@@ -1915,6 +3437,31 @@ try {
 }
 });
 
+server.addTool({
+name: 'importDocument',
+description: 'Imports a local .docx, .doc, .odt, .rtf, .html, .txt or .md file as a new Google Document, converting it through Google Drive.',
+parameters: z.object({
+  localFilePath: z.string().describe('Absolute path to the local file to import.'),
+  title: z.string().min(1).optional().describe('Title for the new document. Defaults to the file name without its extension.'),
+  parentFolderId: z.string().optional().describe('ID of folder where document should be created. If not provided, creates in Drive root.'),
+}),
+execute: async (args, { log }) => {
+const drive = await getDriveClient();
+log.info(`Importing ${args.localFilePath} as a Google Document`);
+
+try {
+  const document = await GDocsHelpers.importDocumentFile(drive, args.localFilePath, args.title, args.parentFolderId);
+  return `Successfully imported "${args.localFilePath}" as document "${document.name}" (ID: ${document.id})\nView Link: ${document.webViewLink}`;
+} catch (error: any) {
+  log.error(`Error importing document: ${error.message || error}`);
+  if (error instanceof UserError) throw error;
+  if (error.code === 404) throw new UserError("Parent folder not found. Check the folder ID.");
+  if (error.code === 403) throw new UserError("Permission denied. Make sure you have write access to the destination folder.");
+  throw new UserError(`Failed to import document: ${error.message || 'Unknown error'}`);
+}
+}
+});
+
 // --- Server Startup ---
 async function startServer() {
 try {
@@ -0,0 +1,137 @@
+// src/stylePresets.ts
+import { docs_v1 } from 'googleapis';
+import { UserError } from 'fastmcp';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { StylePreset, StylePresetParameter, Theme, ParagraphStyleArgs } from './types.js';
+import { buildUpdateTextStyleRequest, buildUpdateParagraphStyleRequest } from './googleDocsApiHelpers.js';
+
+type NamedStyleType = NonNullable<ParagraphStyleArgs['namedStyleType']>;
+
+// --- Preset Storage ---
+
+// Presets are kept in the project root, next to token.json
+const projectRootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+export const STYLE_PRESETS_PATH = path.join(projectRootDir, 'style-presets.json');
+
+export type StylePresets = Record<string, StylePreset>;
+
+/**
+ * Reads the saved style presets. A missing file means there are no presets yet.
+ * @throws UserError if the file is not valid JSON or holds an invalid preset
+ */
+export async function loadStylePresets(filePath: string = STYLE_PRESETS_PATH): Promise<StylePresets> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(filePath, 'utf8');
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return {};
+        throw error;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error: any) {
+        throw new UserError(`Style presets file ${filePath} is not valid JSON: ${error.message}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new UserError(`Style presets file ${filePath} must contain an object of presets keyed by name.`);
+    }
+
+    const presets: StylePresets = {};
+    for (const [name, value] of Object.entries(parsed)) {
+        const result = StylePresetParameter.safeParse(value);
+        if (!result.success) {
+            const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'preset'}: ${issue.message}`).join('; ');
+            throw new UserError(`Style preset "${name}" in ${filePath} is invalid: ${issues}`);
+        }
+        presets[name] = result.data;
+    }
+    return presets;
+}
+
+/** Writes the style presets, replacing the file. */
+export async function saveStylePresets(presets: StylePresets, filePath: string = STYLE_PRESETS_PATH): Promise<void> {
+    await fs.writeFile(filePath, `${JSON.stringify(presets, null, 2)}\n`);
+}
+
+/**
+ * Looks up a preset by name.
+ * @throws UserError listing the available presets if there is none with that name
+ */
+export function getStylePreset(presets: StylePresets, name: string): StylePreset {
+    const preset = presets[name];
+    if (!preset) {
+        const names = Object.keys(presets);
+        throw new UserError(`Style preset "${name}" not found.${names.length ? ` Available: ${names.map(n => `"${n}"`).join(', ')}.` : ' No presets are defined yet; create one with defineStylePreset.'}`);
+    }
+    return preset;
+}
+
+// --- Preset Requests ---
+
+/**
+ * Builds the requests that apply a preset: its text style to each range, and its paragraph style
+ * to every paragraph overlapping them.
+ */
+export function buildStylePresetRequests(
+    ranges: { startIndex: number; endIndex: number }[],
+    preset: StylePreset
+): { requests: docs_v1.Schema$Request[]; fields: string[] } {
+    const requests: docs_v1.Schema$Request[] = [];
+    const fields = new Set<string>();
+    for (const { startIndex, endIndex } of ranges) {
+        const textInfo = preset.text ? buildUpdateTextStyleRequest(startIndex, endIndex, preset.text) : null;
+        const paragraphInfo = preset.paragraph ? buildUpdateParagraphStyleRequest(startIndex, endIndex, preset.paragraph) : null;
+        // Paragraph styles go first: a namedStyleType change would otherwise reset the text style
+        if (paragraphInfo) {
+            requests.push(paragraphInfo.request);
+            paragraphInfo.fields.forEach(field => fields.add(field));
+        }
+        if (textInfo) {
+            requests.push(textInfo.request);
+            textInfo.fields.forEach(field => fields.add(field));
+        }
+    }
+    return { requests, fields: [...fields] };
+}
+
+/** Resolves every entry of a theme (a preset name or an inline preset) to a preset. */
+export function resolveTheme(theme: Theme, presets: StylePresets): Partial<Record<NamedStyleType, StylePreset>> {
+    const resolved: Partial<Record<NamedStyleType, StylePreset>> = {};
+    (Object.entries(theme) as [NamedStyleType, Theme[NamedStyleType]][]).forEach(([namedStyleType, entry]) => {
+        if (entry === undefined) return;
+        resolved[namedStyleType] = typeof entry === 'string' ? getStylePreset(presets, entry) : entry;
+    });
+    return resolved;
+}
+
+/**
+ * Builds the requests that restyle every paragraph, table cells included, whose named style type
+ * has a preset in the theme. A theme never changes which named style a paragraph has.
+ * @returns The requests and how many paragraphs of each named style type they restyle
+ */
+export function buildThemeRequests(
+    content: docs_v1.Schema$StructuralElement[] | undefined,
+    theme: Partial<Record<NamedStyleType, StylePreset>>
+): { requests: docs_v1.Schema$Request[]; counts: Partial<Record<NamedStyleType, number>> } {
+    const requests: docs_v1.Schema$Request[] = [];
+    const counts: Partial<Record<NamedStyleType, number>> = {};
+    const visit = (elements: docs_v1.Schema$StructuralElement[] | undefined) => (elements || []).forEach(element => {
+        element.table?.tableRows?.forEach(row => row.tableCells?.forEach(cell => visit(cell.content)));
+        if (!element.paragraph || element.startIndex == null || element.endIndex == null) return;
+        const namedStyleType = (element.paragraph.paragraphStyle?.namedStyleType || 'NORMAL_TEXT') as NamedStyleType;
+        const preset = theme[namedStyleType];
+        if (!preset) return;
+
+        const { namedStyleType: _ignored, ...paragraph } = preset.paragraph || {};
+        const built = buildStylePresetRequests([{ startIndex: element.startIndex, endIndex: element.endIndex }], { text: preset.text, paragraph: Object.keys(paragraph).length > 0 ? paragraph : undefined });
+        if (built.requests.length === 0) return;
+        requests.push(...built.requests);
+        counts[namedStyleType] = (counts[namedStyleType] || 0) + 1;
+    });
+    visit(content);
+    return { requests, counts };
+}
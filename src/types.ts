@@ -47,11 +47,69 @@ message: "If both startIndex and endIndex are provided, endIndex must be greater
 path: ["endIndex"],
 });
 
+export const TextSearchOptionsParameter = z.object({
+useRegex: z.boolean().optional().default(false).describe('Treat the search text as a JavaScript regular expression (e.g. "Q[1-4] 20\\d\\d"). ^ and $ match at the start and end of each paragraph.'),
+caseSensitive: z.boolean().optional().default(true).describe('Whether matching is case-sensitive. Defaults to true.'),
+wholeWord: z.boolean().optional().default(false).describe('Only match whole words (not preceded or followed by a letter of any alphabet, such as é, a digit or an underscore).'),
+});
+export type TextSearchOptions = z.infer<typeof TextSearchOptionsParameter>;
+
 export const TextFindParameter = z.object({
-textToFind: z.string().min(1).describe('The exact text string to locate.'),
+textToFind: z.string().min(1).describe('The text string to locate (a regular expression when useRegex is true).'),
 matchInstance: z.number().int().min(1).optional().default(1).describe('Which instance of the text to target (1st, 2nd, etc.). Defaults to 1.'),
+}).merge(TextSearchOptionsParameter).extend({
+allMatches: z.boolean().optional().default(false).describe('Target every match instead of a single instance; matchInstance is then ignored.'),
+});
+export type TextFind = z.infer<typeof TextFindParameter>;
+
+// --- Named Range Schemas ---
+
+export const NamedRangeNameParameter = z.string().min(1).max(256).describe('The name of a named range in the document.');
+
+// Lets index-taking tools insert at a named range, which moves with the surrounding text, instead of a raw index
+export const NamedRangeAnchorParameters = z.object({
+namedRange: NamedRangeNameParameter.optional().describe('Insert at this named range instead of at a raw index. Named ranges move with the surrounding text, so they stay valid across edits.'),
+namedRangePosition: z.enum(['start', 'end']).optional().default('start').describe('With namedRange: insert at the start or the end of the range.'),
 });
 
+// Target EITHER by range OR by finding text (tool logic needs to find paragraph boundaries)
+export const ParagraphTargetParameter = z.union([
+RangeParameters, // User provides paragraph start/end (less likely)
+TextFindParameter.omit({ allMatches: true }).extend({
+applyToContainingParagraph: z.literal(true).default(true).describe("Must be true. Indicates the style applies to the whole paragraph containing the found text.")
+}),
+z.object({ // Target by specific index within the paragraph
+indexWithinParagraph: z.number().int().min(1).describe("An index located anywhere within the target paragraph.")
+}),
+z.object({ // Target every paragraph the named range overlaps
+namedRange: NamedRangeNameParameter,
+}),
+]);
+export type ParagraphTarget = z.infer<typeof ParagraphTargetParameter>;
+
+export const TableSelectorParameter = z.union([
+z.object({
+tableStartIndex: z.number().int().min(1).describe('The starting index of the TABLE element itself.'),
+}),
+z.object({
+tableNumber: z.number().int().min(1).describe('The ordinal of the table in the document body (1 = first table).'),
+}),
+z.object({
+afterHeading: z.string().min(1).describe('Text of a heading (case-insensitive, partial match). Selects the first table after that heading.'),
+}),
+z.object({
+headerText: z.string().min(1).describe('Text contained in a cell of the table\'s first row (case-insensitive, partial match).'),
+}),
+]).describe("Specify the table by start index, by its ordinal in the document, by the heading it follows, or by text in its header row.");
+export type TableSelector = z.infer<typeof TableSelectorParameter>;
+
+// Target a section (a heading plus everything up to the next heading of equal or higher level)
+export const SectionTargetParameter = z.object({
+headingText: z.string().min(1).describe('Text of the section heading (exact, case-sensitive; may be part of the heading). Matches outside headings are ignored.'),
+matchInstance: z.number().int().min(1).optional().default(1).describe('Which matching heading to target (1st, 2nd, etc.). Defaults to 1.'),
+});
+export type SectionTarget = z.infer<typeof SectionTargetParameter>;
+
 // --- Style Parameter Schemas ---
 
 export const TextStyleParameters = z.object({
@@ -76,6 +134,16 @@ linkUrl: z.string().url().optional().describe('Make the text a hyperlink pointin
 // Subset of TextStyle used for passing to helpers
 export type TextStyleArgs = z.infer<typeof TextStyleParameters>;
 
+export const ParagraphBorderParameter = z.object({
+color: z.string()
+.refine(validateHexColor, { message: "Invalid hex color format (e.g., #000000 or #000)" })
+.optional()
+.describe('Border color using hex format. Defaults to black.'),
+width: z.number().min(0).optional().describe('Border width in points (0 removes the border). Defaults to 1.'),
+dashStyle: z.enum(['SOLID', 'DOT', 'DASH']).optional().describe('Border dash style. Defaults to SOLID.'),
+padding: z.number().min(0).optional().describe('Space between the border and the text in points. Defaults to 1.'),
+}).describe("A paragraph border. Google Docs replaces a border as a whole, so omitted options take their defaults.");
+
 export const ParagraphStyleParameters = z.object({
 alignment: z.enum(['LEFT', 'CENTER', 'RIGHT', 'JUSTIFIED']).optional().describe('Paragraph alignment.'),
 indentStart: z.number().min(0).optional().describe('Left indentation in points.'),
@@ -87,21 +155,153 @@ namedStyleType: z.enum([
 'HEADING_1', 'HEADING_2', 'HEADING_3', 'HEADING_4', 'HEADING_5', 'HEADING_6'
 ]).optional().describe('Apply a built-in named paragraph style (e.g., HEADING_1).'),
 keepWithNext: z.boolean().optional().describe('Keep this paragraph together with the next one on the same page.'),
-// Borders are more complex, might need separate objects/tools
+keepLinesTogether: z.boolean().optional().describe('Keep all lines of the paragraph on the same page.'),
+avoidWidowAndOrphan: z.boolean().optional().describe('Avoid leaving a single line of the paragraph alone at the top or bottom of a page.'),
+lineSpacing: z.number().min(6).max(1000).optional().describe('Line spacing as a percentage of normal (100 = single, 115, 150, 200 = double).'),
+indentFirstLine: z.number().min(0).optional().describe('Indentation of the first line in points, measured like indentStart (less than indentStart makes a hanging indent).'),
+direction: z.enum(['LEFT_TO_RIGHT', 'RIGHT_TO_LEFT']).optional().describe('Text direction of the paragraph.'),
+shadingColor: z.string()
+.refine(validateHexColor, { message: "Invalid hex color format (e.g., #F3F3F3 or #EEE)" })
+.optional()
+.describe('Paragraph background (shading) color using hex format (e.g., "#F3F3F3").'),
+borderTop: ParagraphBorderParameter.optional().describe('Border above the paragraph.'),
+borderBottom: ParagraphBorderParameter.optional().describe('Border below the paragraph, e.g. a horizontal divider under a title.'),
+borderLeft: ParagraphBorderParameter.optional().describe('Border to the left of the paragraph.'),
+borderRight: ParagraphBorderParameter.optional().describe('Border to the right of the paragraph.'),
+borderBetween: ParagraphBorderParameter.optional().describe('Border between this paragraph and the next when both have the same borders and indents.'),
+// Tab stops are read-only in the Google Docs API, so they cannot be set here
 // clearDirectFormatting: z.boolean().optional().describe('If true, attempts to clear all direct paragraph formatting within the range before applying new styles.') // Harder to implement perfectly
 }).describe("Parameters for paragraph-level formatting.");
 
 // Subset of ParagraphStyle used for passing to helpers
 export type ParagraphStyleArgs = z.infer<typeof ParagraphStyleParameters>;
 
+export const TableCellStyleParameters = z.object({
+backgroundColor: z.string()
+.refine(validateHexColor, { message: "Invalid hex color format (e.g., #F3F3F3 or #EEE)" })
+.optional()
+.describe('Cell background color using hex format (e.g., "#F3F3F3").'),
+borderColor: z.string()
+.refine(validateHexColor, { message: "Invalid hex color format (e.g., #000000 or #000)" })
+.optional()
+.describe('Border color using hex format. Defaults to black when other border options are set.'),
+borderWidth: z.number().min(0).optional().describe('Border width in points (0 hides the border). Defaults to 1 when other border options are set.'),
+borderDashStyle: z.enum(['SOLID', 'DOT', 'DASH']).optional().describe('Border dash style. Defaults to SOLID when other border options are set.'),
+borders: z.array(z.enum(['top', 'bottom', 'left', 'right'])).min(1).optional().describe('Which cell borders the border options apply to. Defaults to all four.'),
+padding: z.number().min(0).optional().describe('Padding on all four sides of the cell content, in points.'),
+contentAlignment: z.enum(['TOP', 'MIDDLE', 'BOTTOM']).optional().describe('Vertical alignment of the cell content.'),
+}).describe("Parameters for table cell formatting.");
+
+export type TableCellStyleArgs = z.infer<typeof TableCellStyleParameters>;
+
+// --- Document & Section Style Schemas ---
+
+export const LengthUnitParameter = z.enum(['pt', 'cm', 'mm', 'in']).optional().default('pt')
+.describe("Unit of every length in this call: points (default), centimeters, millimeters or inches.");
+
+const PageMarginParameters = z.object({
+margins: z.number().min(0).optional().describe('Set the top, bottom, left and right margins at once. Individual margins override it.'),
+marginTop: z.number().min(0).optional().describe('Top page margin.'),
+marginBottom: z.number().min(0).optional().describe('Bottom page margin.'),
+marginLeft: z.number().min(0).optional().describe('Left page margin.'),
+marginRight: z.number().min(0).optional().describe('Right page margin.'),
+marginHeader: z.number().min(0).optional().describe('Distance from the top of the page to the header.'),
+marginFooter: z.number().min(0).optional().describe('Distance from the bottom of the page to the footer.'),
+useFirstPageHeaderFooter: z.boolean().optional().describe('Use a different header and footer on the first page.'),
+pageNumberStart: z.number().int().min(0).optional().describe('The page number to start counting from.'),
+});
+
+export const DocumentStyleParameters = PageMarginParameters.extend({
+pageSize: z.enum(['LETTER', 'LEGAL', 'TABLOID', 'A3', 'A4', 'A5']).optional().describe('Standard page size.'),
+pageWidth: z.number().min(1).optional().describe('Custom page width (overrides the width of pageSize).'),
+pageHeight: z.number().min(1).optional().describe('Custom page height (overrides the height of pageSize).'),
+orientation: z.enum(['PORTRAIT', 'LANDSCAPE']).optional().describe('Page orientation. The page size (the given one, or else the current one) is turned to match.'),
+backgroundColor: z.string()
+.refine(validateHexColor, { message: "Invalid hex color format (e.g., #FFFFFF or #FFF)" })
+.optional()
+.describe('Page background color using hex format (e.g., "#FFF8E7").'),
+useEvenPageHeaderFooter: z.boolean().optional().describe('Use a different header and footer on even pages.'),
+unit: LengthUnitParameter,
+}).describe("Parameters for document-wide page setup.");
+
+export type DocumentStyleArgs = z.infer<typeof DocumentStyleParameters>;
+
+export const SectionStyleParameters = PageMarginParameters.extend({
+columnCount: z.number().int().min(1).max(3).optional().describe('Number of text columns (1-3).'),
+columnSpacing: z.number().min(0).optional().describe('Space between columns. Defaults to 0.5 inch when columnCount is set.'),
+columnSeparator: z.boolean().optional().describe('Draw a vertical line between columns.'),
+unit: LengthUnitParameter,
+}).describe("Parameters for section layout.");
+
+export type SectionStyleArgs = z.infer<typeof SectionStyleParameters>;
+
+// --- Style Preset Schemas ---
+
+export const StylePresetNameParameter = z.string().min(1).max(64)
+.regex(/^[A-Za-z0-9_-]+$/, { message: 'Use only letters, digits, "_" and "-" in preset names.' })
+.describe('The name of a style preset (e.g. "callout").');
+
+export const StylePresetParameter = z.object({
+text: TextStyleParameters.optional().describe('Character formatting of the preset.'),
+paragraph: ParagraphStyleParameters.optional().describe('Paragraph formatting of the preset.'),
+}).refine(data => [data.text, data.paragraph].some(style => style && Object.values(style).some(v => v !== undefined)), {
+message: "A style preset needs at least one text or paragraph style option.",
+}).describe("A reusable combination of text and paragraph formatting.");
+export type StylePreset = z.infer<typeof StylePresetParameter>;
+
+// Keyed by named style type; each entry is the name of a saved preset or an inline preset
+export const ThemeParameter = z.record(
+ParagraphStyleParameters.shape.namedStyleType.unwrap(),
+z.union([StylePresetNameParameter, StylePresetParameter])
+).refine(theme => Object.keys(theme).length > 0, {
+message: "A theme needs a style for at least one of NORMAL_TEXT, TITLE, SUBTITLE or HEADING_1..HEADING_6.",
+}).describe('Styles per paragraph type, e.g. { "HEADING_1": "brand-h1", "NORMAL_TEXT": { "text": { "fontFamily": "Inter" } } }.');
+export type Theme = z.infer<typeof ThemeParameter>;
+
+// --- Element Query Schema ---
+
+const isValidRegex = (pattern: string) => {
+try {
+new RegExp(pattern);
+return true;
+} catch {
+return false;
+}
+};
+
+export const ElementQueryParameters = z.object({
+elementType: z.enum(['paragraph', 'heading', 'list', 'table', 'image']).optional().default('paragraph')
+.describe("Kind of element to match: 'paragraph' (any paragraph), 'heading' (TITLE or HEADING_1..HEADING_6), 'list' (list items), 'table' or 'image' (inline images, matched by their alt text). Defaults to 'paragraph'."),
+text: z.string().min(1).optional().describe('Text the element must contain.'),
+regex: z.string().min(1).refine(isValidRegex, { message: "Invalid regular expression" }).optional()
+.describe('JavaScript regular expression the element text must match (e.g. "^Step \\\\d+").'),
+caseSensitive: z.boolean().optional().default(false).describe('Whether text and regex matching is case-sensitive.'),
+namedStyleTypes: z.array(ParagraphStyleParameters.shape.namedStyleType.unwrap()).min(1).optional()
+.describe('The paragraph must have one of these named styles (e.g. ["HEADING_1", "HEADING_2"]). Tables never match this criterion.'),
+textStyle: TextStyleParameters.pick({
+bold: true, italic: true, underline: true, strikethrough: true, fontSize: true, fontFamily: true, foregroundColor: true, backgroundColor: true,
+}).optional().describe('Character formatting the element text must have. Only formatting set directly on the text is seen, not values inherited from named styles.'),
+textStyleMatch: z.enum(['any', 'all']).optional().default('any')
+.describe("'any': at least one non-blank text run has all of the given formatting. 'all': every non-blank text run has it."),
+includeTableCells: z.boolean().optional().default(true).describe('Also match paragraphs and images inside table cells.'),
+});
+export type ElementQuery = z.infer<typeof ElementQueryParameters>;
+
+// --- Header & Footer Schemas ---
+
+export const HeaderFooterVariantParameter = z.enum(['default', 'firstPage', 'evenPage']).optional().default('default')
+.describe("Which header or footer: 'default' (all pages without their own), 'firstPage' (the first page only) or 'evenPage' (even pages only).");
+export type HeaderFooterVariant = z.infer<typeof HeaderFooterVariantParameter>;
+
 // --- Combination Schemas for Tools ---
 
 export const ApplyTextStyleToolParameters = DocumentIdParameter.extend({
 // Target EITHER by range OR by finding text
 target: z.union([
 RangeParameters,
-TextFindParameter
-]).describe("Specify the target range either by start/end indices or by finding specific text."),
+TextFindParameter,
+z.object({ namedRange: NamedRangeNameParameter }),
+]).describe("Specify the target range by start/end indices, by finding specific text, or by the name of a named range."),
 style: TextStyleParameters.refine(
 styleArgs => Object.values(styleArgs).some(v => v !== undefined),
 { message: "At least one text style option must be provided." }
@@ -110,16 +310,7 @@ styleArgs => Object.values(styleArgs).some(v => v !== undefined),
 export type ApplyTextStyleToolArgs = z.infer<typeof ApplyTextStyleToolParameters>;
 
 export const ApplyParagraphStyleToolParameters = DocumentIdParameter.extend({
-// Target EITHER by range OR by finding text (tool logic needs to find paragraph boundaries)
-target: z.union([
-RangeParameters, // User provides paragraph start/end (less likely)
-TextFindParameter.extend({
-applyToContainingParagraph: z.literal(true).default(true).describe("Must be true. Indicates the style applies to the whole paragraph containing the found text.")
-}),
-z.object({ // Target by specific index within the paragraph
-indexWithinParagraph: z.number().int().min(1).describe("An index located anywhere within the target paragraph.")
-})
-]).describe("Specify the target paragraph either by start/end indices, by finding text within it, or by providing an index within it."),
+target: ParagraphTargetParameter.describe("Specify the target paragraph either by start/end indices, by finding text within it, by providing an index within it, or by the name of a named range covering it."),
 style: ParagraphStyleParameters.refine(
 styleArgs => Object.values(styleArgs).some(v => v !== undefined),
 { message: "At least one paragraph style option must be provided." }
@@ -127,6 +318,78 @@ styleArgs => Object.values(styleArgs).some(v => v !== undefined),
 });
 export type ApplyParagraphStyleToolArgs = z.infer<typeof ApplyParagraphStyleToolParameters>;
 
+export const BulletPresetParameter = z.enum([
+'BULLET_DISC_CIRCLE_SQUARE', 'BULLET_DIAMONDX_ARROW3D_SQUARE', 'BULLET_CHECKBOX', 'BULLET_ARROW_DIAMOND_DISC',
+'BULLET_STAR_CIRCLE_SQUARE', 'BULLET_ARROW3D_CIRCLE_SQUARE', 'BULLET_LEFTTRIANGLE_DIAMOND_DISC',
+'BULLET_DIAMONDX_HOLLOWDIAMOND_SQUARE', 'BULLET_DIAMOND_CIRCLE_SQUARE',
+'NUMBERED_DECIMAL_ALPHA_ROMAN', 'NUMBERED_DECIMAL_ALPHA_ROMAN_PARENS', 'NUMBERED_DECIMAL_NESTED',
+'NUMBERED_UPPERALPHA_ALPHA_ROMAN', 'NUMBERED_UPPERROMAN_UPPERALPHA_DECIMAL', 'NUMBERED_ZERODECIMAL_ALPHA_ROMAN'
+]).describe("Bullet glyph preset. BULLET_* presets create bulleted lists, NUMBERED_* presets create numbered lists.");
+export type BulletPreset = z.infer<typeof BulletPresetParameter>;
+
+// --- Edit Operation Schemas (applyEdits) ---
+// Every index and text match refers to the document as it was before the first operation.
+
+export const EditPositionParameter = z.union([
+z.object({
+index: z.number().int().min(1).describe('Index in the document before any of the edits.'),
+}),
+TextFindParameter.omit({ allMatches: true }).extend({
+position: z.enum(['before', 'after']).optional().default('after').describe('Whether to insert before or after the found text.'),
+}),
+z.object({
+endOfDocument: z.literal(true).describe('Insert at the end of the document body.'),
+}),
+]).describe("Where to insert: an index, before/after found text, or the end of the document.");
+export type EditPosition = z.infer<typeof EditPositionParameter>;
+
+export const EditRangeParameter = z.union([
+RangeParameters,
+TextFindParameter,
+]).describe("The text to act on: start/end indices, or found text (one instance, or every match with allMatches).");
+export type EditRange = z.infer<typeof EditRangeParameter>;
+
+export const EditOperationParameter = z.discriminatedUnion('type', [
+z.object({
+type: z.literal('insertText'),
+at: EditPositionParameter,
+text: z.string().min(1).describe('The text to insert.'),
+style: TextStyleParameters.optional().describe('Optional formatting for the inserted text.'),
+}),
+z.object({
+type: z.literal('deleteText'),
+target: EditRangeParameter,
+}),
+z.object({
+type: z.literal('textStyle'),
+target: EditRangeParameter,
+style: TextStyleParameters,
+}),
+z.object({
+type: z.literal('paragraphStyle'),
+target: EditRangeParameter.describe('Every paragraph overlapping this range or found text is styled.'),
+style: ParagraphStyleParameters,
+}),
+z.object({
+type: z.literal('pageBreak'),
+at: EditPositionParameter,
+}),
+z.object({
+type: z.literal('table'),
+at: EditPositionParameter,
+rows: z.number().int().min(1).describe('Number of rows.'),
+columns: z.number().int().min(1).describe('Number of columns.'),
+}),
+z.object({
+type: z.literal('image'),
+at: EditPositionParameter,
+imageUrl: z.string().url().describe('Publicly accessible URL to the image (must be http:// or https://).'),
+width: z.number().min(1).optional().describe('Optional: Width of the image in points.'),
+height: z.number().min(1).optional().describe('Optional: Height of the image in points.'),
+}),
+]);
+export type EditOperation = z.infer<typeof EditOperationParameter>;
+
 // --- Error Class ---
 // Use FastMCP's UserError for client-facing issues
 // Define a custom error for internal issues if needed
@@ -1,5 +1,5 @@
 // tests/helpers.test.js
-import { findTextRange } from '../dist/googleDocsApiHelpers.js';
+import { findTextRange, findTable, findTableCellRange, buildTableCellLocation, listTables, extractTableData, toCsv, parseCsv, buildTableFillRequests, buildTableWithDataRequests, createTableWithData, buildUpdateTableCellStyleRequest, detectListRuns, buildListFormattingRequests, buildListNestingRequests, exportDocumentFile, writeExportedFile, importDocumentFile, buildDocumentOutline, getHeadingRank, findSection, buildSpanDeleteRequests, buildAppendPointRequests, findElements, findParagraphsMatchingStyle, buildSearchRegex, searchContentText, resolveTextFindTargets, resolveParagraphTarget, expandReplacement, planTextReplacements, buildTextReplacementRequests, executeBatchUpdate, sortRequestsByIndexDescending, getRequestIndex, buildEditRequests, collectNamedRanges, findNamedRange, resolveNamedRangeIndex, extractRangeText, buildReplaceNamedRangeContentRequests, listHeadersFooters, collectFootnotes, buildCreateHeaderFooterRequests, buildReplaceSegmentTextRequests, createHeaderFooter, formatDateText, parseDateText, toPoints, buildUpdateDocumentStyleRequest, buildUpdateSectionStyleRequest, buildUpdateParagraphStyleRequest } from '../dist/googleDocsApiHelpers.js';
 import assert from 'node:assert';
 import { describe, it, mock } from 'node:test';
 
@@ -161,4 +161,1025 @@ describe('Text Range Finding', () => {
       assert.deepStrictEqual(result, { startIndex: 9, endIndex: 15 });
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Table Location', () => {
+  // A 2x2 table starting at index 2, followed by a "Pricing" heading and a 1x1 table
+  const cell = (startIndex, endIndex, text) => ({
+    content: [{ startIndex, endIndex, paragraph: { elements: [{ textRun: { content: text } }] } }]
+  });
+  const content = [
+    { startIndex: 1, endIndex: 2, paragraph: { elements: [] } },
+    {
+      startIndex: 2,
+      endIndex: 20,
+      table: {
+        rows: 2,
+        columns: 2,
+        tableRows: [
+          {
+            tableCells: [
+              cell(4, 8, 'Name\n'),
+              cell(9, 10, '\n')
+            ]
+          },
+          {
+            tableCells: [
+              { content: [{ startIndex: 12, endIndex: 14, paragraph: {} }, { startIndex: 14, endIndex: 16, paragraph: {} }] },
+              cell(17, 19, 'x\n')
+            ]
+          }
+        ]
+      }
+    },
+    {
+      startIndex: 20,
+      endIndex: 28,
+      paragraph: { paragraphStyle: { namedStyleType: 'HEADING_2' }, elements: [{ textRun: { content: 'Pricing\n' } }] }
+    },
+    { startIndex: 28, endIndex: 38, table: { rows: 1, columns: 1, tableRows: [{ tableCells: [cell(30, 36, 'Price\n')] }] } }
+  ];
+
+  describe('findTable', () => {
+    it('should select a table by ordinal', () => {
+      const result = findTable(content, { tableNumber: 2 });
+      assert.strictEqual(result.startIndex, 28);
+      assert.strictEqual(result.tableNumber, 2);
+    });
+
+    it('should select the first table after a heading', () => {
+      const result = findTable(content, { afterHeading: 'pricing' });
+      assert.strictEqual(result.startIndex, 28);
+      assert.strictEqual(result.endIndex, 38);
+    });
+
+    it('should select a table by header row text', () => {
+      assert.strictEqual(findTable(content, { headerText: 'name' }).startIndex, 2);
+      assert.strictEqual(findTable(content, { headerText: 'Price' }).startIndex, 28);
+    });
+
+    it('should report the tables that exist when nothing matches', () => {
+      assert.throws(() => findTable(content, { tableNumber: 3 }), /has 2 table\(s\), starting at: 2, 28/);
+    });
+  });
+
+  describe('extractTableData', () => {
+    it('should return every table with cell text and ranges', () => {
+      const [first, second] = listTables(content).map(extractTableData);
+      assert.strictEqual(second.tableNumber, 2);
+      assert.deepStrictEqual(first.cells.map(row => row.map(c => c.text)), [['Name', ''], ['', 'x']]);
+      assert.deepStrictEqual(first.cells[0][0], { text: 'Name', startIndex: 4, endIndex: 8, rowSpan: 1, columnSpan: 1 });
+      assert.deepStrictEqual({ rows: first.rows, columns: first.columns, startIndex: first.startIndex }, { rows: 2, columns: 2, startIndex: 2 });
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote fields containing separators', () => {
+      assert.strictEqual(toCsv([['a', 'b,c'], ['say "hi"', 'two\nlines']]), 'a,"b,c"\n"say ""hi""","two\nlines"');
+    });
+  });
+
+  describe('buildTableCellLocation', () => {
+    it('should address a cell relative to the table start', () => {
+      const located = findTable(content, { tableNumber: 1 });
+      assert.deepStrictEqual(buildTableCellLocation(located, 1, 1), { tableStartLocation: { index: 2 }, rowIndex: 1, columnIndex: 1 });
+    });
+
+    it('should reject cells outside the table', () => {
+      const located = findTable(content, { tableNumber: 2 });
+      assert.throws(() => buildTableCellLocation(located, 1, 0), /Row index 1 is out of range/);
+      assert.throws(() => buildTableCellLocation(located, 0, 1), /Column index 1 is out of range/);
+    });
+  });
+
+  describe('findTableCellRange', () => {
+    it('should resolve the content range of a cell', () => {
+      const result = findTableCellRange(content, { tableStartIndex: 2 }, 0, 0);
+      assert.deepStrictEqual(result, { tableStartIndex: 2, rowIndex: 0, columnIndex: 0, startIndex: 4, endIndex: 8 });
+    });
+
+    it('should span every paragraph of a multi-paragraph cell', () => {
+      const result = findTableCellRange(content, { tableStartIndex: 2 }, 1, 0);
+      assert.strictEqual(result.startIndex, 12);
+      assert.strictEqual(result.endIndex, 16);
+    });
+
+    it('should reject a start index that is not a table', () => {
+      assert.throws(() => findTableCellRange(content, { tableStartIndex: 1 }, 0, 0), /Could not find table starting at index 1/);
+    });
+
+    it('should reject out-of-range rows and columns', () => {
+      assert.throws(() => findTableCellRange(content, { tableStartIndex: 2 }, 2, 0), /Row index 2 is out of range/);
+      assert.throws(() => findTableCellRange(content, { tableStartIndex: 2 }, 0, 5), /Column index 5 is out of range/);
+    });
+  });
+});
+
+describe('Table Data', () => {
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      assert.deepStrictEqual(parseCsv('Name,Score\nAda,10\r\nBob,7\n'), [['Name', 'Score'], ['Ada', '10'], ['Bob', '7']]);
+    });
+
+    it('should handle quoted fields with commas, quotes and newlines', () => {
+      assert.deepStrictEqual(parseCsv('"a, b","say ""hi""","line1\nline2"'), [['a, b', 'say "hi"', 'line1\nline2']]);
+    });
+
+    it('should reject unterminated quotes', () => {
+      assert.throws(() => parseCsv('"open'), /unterminated quoted field/);
+    });
+  });
+
+  describe('buildTableFillRequests', () => {
+    // Empty 2x2 table as returned by the API right after insertTable at index 1
+    const table = {
+      tableRows: [
+        { tableCells: [{ content: [{ startIndex: 5 }] }, { content: [{ startIndex: 7 }] }] },
+        { tableCells: [{ content: [{ startIndex: 10 }] }, { content: [{ startIndex: 12 }] }] }
+      ]
+    };
+
+    it('should insert cell text in descending index order and bold the header', () => {
+      const requests = buildTableFillRequests(table, [['A', 'B'], ['1']], true);
+      assert.deepStrictEqual(requests.map(r => r.insertText?.location.index ?? `style@${r.updateTextStyle.range.startIndex}`), [10, 7, 'style@7', 5, 'style@5']);
+      assert.strictEqual(requests[2].updateTextStyle.textStyle.bold, true);
+    });
+  });
+
+  describe('createTableWithData', () => {
+    it('should compute the cell indices of the new table instead of reading them back', () => {
+      const { requests, tableStartIndex } = buildTableWithDataRequests([['A', 'B'], ['1']], 1, true);
+      assert.strictEqual(tableStartIndex, 2);
+      assert.deepStrictEqual(requests[0], { insertTable: { location: { index: 1 }, rows: 2, columns: 2 } });
+      assert.deepStrictEqual(requests.slice(1).map(r => r.insertText?.location.index ?? `style@${r.updateTextStyle.range.startIndex}`), [10, 7, 'style@7', 5, 'style@5']);
+      assert.throws(() => buildTableWithDataRequests([[]], 1), /at least 1 row and 1 column/);
+    });
+
+    it('should insert and fill the table in one batch', async () => {
+      const mockDocs = { documents: { batchUpdate: mock.fn(async () => ({ data: {} })), get: mock.fn() } };
+      const result = await createTableWithData(mockDocs, 'doc123', [['A', 'B', 'C']], 5);
+      assert.deepStrictEqual(result, { tableStartIndex: 6, rows: 1, columns: 3 });
+      assert.strictEqual(mockDocs.documents.batchUpdate.mock.callCount(), 1);
+      assert.strictEqual(mockDocs.documents.get.mock.callCount(), 0);
+      assert.deepStrictEqual(mockDocs.documents.batchUpdate.mock.calls[0].arguments[0].requestBody.requests.slice(1).map(r => r.insertText.location.index), [13, 11, 9]);
+    });
+  });
+});
+
+describe('Table Cell Styling', () => {
+  describe('buildUpdateTableCellStyleRequest', () => {
+    it('should target a cell range with a background color', () => {
+      const result = buildUpdateTableCellStyleRequest(2, { rowIndex: 0, columnIndex: 0, rowSpan: 1, columnSpan: 3 }, { backgroundColor: '#FF0000' });
+      assert.deepStrictEqual(result.fields, ['backgroundColor']);
+      assert.deepStrictEqual(result.request.updateTableCellStyle.tableRange, {
+        tableCellLocation: { tableStartLocation: { index: 2 }, rowIndex: 0, columnIndex: 0 },
+        rowSpan: 1,
+        columnSpan: 3
+      });
+      assert.deepStrictEqual(result.request.updateTableCellStyle.tableCellStyle.backgroundColor, { color: { rgbColor: { red: 1, green: 0, blue: 0 } } });
+    });
+
+    it('should fill border defaults and style the whole table when no span is given', () => {
+      const result = buildUpdateTableCellStyleRequest(2, null, { borderWidth: 2, borders: ['bottom'] });
+      assert.strictEqual(result.request.updateTableCellStyle.fields, 'borderBottom');
+      assert.deepStrictEqual(result.request.updateTableCellStyle.tableStartLocation, { index: 2 });
+      assert.deepStrictEqual(result.request.updateTableCellStyle.tableCellStyle.borderBottom, {
+        color: { color: { rgbColor: { red: 0, green: 0, blue: 0 } } },
+        width: { magnitude: 2, unit: 'PT' },
+        dashStyle: 'SOLID'
+      });
+    });
+
+    it('should return null when no style is given', () => {
+      assert.strictEqual(buildUpdateTableCellStyleRequest(2, null, {}), null);
+    });
+  });
+});
+
+describe('List Detection', () => {
+  const paragraph = (startIndex, text, extra = {}) => ({
+    startIndex,
+    endIndex: startIndex + text.length,
+    paragraph: { elements: [{ textRun: { content: text } }], ...extra }
+  });
+  // "Intro\n" (1-7), "- one\n" (7-13), "  * two\n" (13-21), "- three\n" (21-29), "Done\n" (29-34), "1. first\n" (34-43)
+  const content = [
+    paragraph(1, 'Intro\n'),
+    paragraph(7, '- one\n'),
+    paragraph(13, '  * two\n'),
+    paragraph(21, '- three\n'),
+    paragraph(29, 'Done\n'),
+    paragraph(34, '1. first\n')
+  ];
+
+  describe('detectListRuns', () => {
+    it('should group consecutive marker paragraphs and rank indentation into nesting levels', () => {
+      const runs = detectListRuns(content);
+      assert.strictEqual(runs.length, 2);
+      assert.deepStrictEqual(runs[0], {
+        startIndex: 7,
+        endIndex: 29,
+        numbered: false,
+        items: [
+          { startIndex: 7, prefixLength: 2, nestingLevel: 0 },
+          { startIndex: 13, prefixLength: 4, nestingLevel: 1 },
+          { startIndex: 21, prefixLength: 2, nestingLevel: 0 }
+        ]
+      });
+      assert.strictEqual(runs[1].numbered, true);
+    });
+
+    it('should respect the optional range and skip existing bullets', () => {
+      assert.deepStrictEqual(detectListRuns(content, 30, 43).map(run => run.startIndex), [34]);
+      assert.strictEqual(detectListRuns([paragraph(1, '- done\n', { bullet: { listId: 'x' } })]).length, 0);
+    });
+
+    it('should accept well-formed roman numerals but not words ending in a period', () => {
+      const numerals = [paragraph(1, 'iv. four\n'), paragraph(10, 'XII) twelve\n')];
+      assert.deepStrictEqual(detectListRuns(numerals).map(run => [run.numbered, run.items.length]), [[true, 2]]);
+      assert.strictEqual(detectListRuns([paragraph(1, 'mid. year\n'), paragraph(11, 'civil. war\n'), paragraph(22, 'IIII. four\n'), paragraph(33, 'Iv. mixed\n')]).length, 0);
+    });
+  });
+
+  describe('buildListFormattingRequests', () => {
+    it('should strip markers in reverse order, add tabs for nesting and create bullets', () => {
+      const requests = buildListFormattingRequests(detectListRuns(content));
+      // The numbered run at 34 is handled first
+      assert.deepStrictEqual(requests[0], { deleteContentRange: { range: { startIndex: 34, endIndex: 37 } } });
+      assert.deepStrictEqual(requests[1].createParagraphBullets, { range: { startIndex: 34, endIndex: 40 }, bulletPreset: 'NUMBERED_DECIMAL_ALPHA_ROMAN' });
+      assert.deepStrictEqual(requests[4], { insertText: { location: { index: 13 }, text: '\t' } });
+      // 8 marker characters removed, 1 tab added
+      assert.deepStrictEqual(requests[6].createParagraphBullets, { range: { startIndex: 7, endIndex: 22 }, bulletPreset: 'BULLET_DISC_CIRCLE_SQUARE' });
+    });
+  });
+
+  describe('buildListNestingRequests', () => {
+    const bullet = (listId, nestingLevel) => ({ bullet: { listId, nestingLevel } });
+    // "Intro\n" (1-7), "one\n" (7-11), "two\n" (11-15), "three\n" (15-21) in list 'a'
+    const listContent = [
+      paragraph(1, 'Intro\n'),
+      paragraph(7, 'one\n', bullet('a')),
+      paragraph(11, 'two\n', bullet('a', 1)),
+      paragraph(15, 'three\n', bullet('a'))
+    ];
+    const lists = { a: { listProperties: { nestingLevels: [{ glyphType: 'DECIMAL' }] } } };
+
+    it('should re-create the whole list with the target item indented', () => {
+      const { requests, paragraphsChanged } = buildListNestingRequests(listContent, lists, { startIndex: 16, endIndex: 17 }, { levelChange: 1 });
+      assert.strictEqual(paragraphsChanged, 1);
+      assert.deepStrictEqual(requests[0], { deleteParagraphBullets: { range: { startIndex: 7, endIndex: 21 } } });
+      assert.deepStrictEqual(requests.filter(r => r.insertText).map(r => r.insertText), [
+        { location: { index: 15 }, text: '\t' },
+        { location: { index: 11 }, text: '\t' }
+      ]);
+      assert.deepStrictEqual(requests[requests.length - 1].createParagraphBullets, { range: { startIndex: 7, endIndex: 23 }, bulletPreset: 'NUMBERED_DECIMAL_ALPHA_ROMAN' });
+    });
+
+    it('should clamp absolute levels and reject ranges without list items', () => {
+      const { requests } = buildListNestingRequests(listContent, lists, { startIndex: 11, endIndex: 12 }, { nestingLevel: 0 });
+      assert.strictEqual(requests.filter(r => r.insertText).length, 0);
+      assert.throws(() => buildListNestingRequests(listContent, lists, { startIndex: 1, endIndex: 5 }, { levelChange: 1 }), /No list items found/);
+    });
+  });
+});
+
+describe('Document Export', () => {
+  describe('exportDocumentFile', () => {
+    it('should export with the format MIME type and name the file after the document', async () => {
+      const mockDrive = {
+        files: {
+          get: mock.fn(async () => ({ data: { name: 'Q3: Plan/Draft', mimeType: 'application/vnd.google-apps.document' } })),
+          export: mock.fn(async () => ({ data: new TextEncoder().encode('%PDF').buffer }))
+        }
+      };
+      const result = await exportDocumentFile(mockDrive, 'doc123', 'pdf');
+      assert.deepStrictEqual(mockDrive.files.export.mock.calls[0].arguments[0], { fileId: 'doc123', mimeType: 'application/pdf' });
+      assert.strictEqual(result.fileName, 'Q3_ Plan_Draft.pdf');
+      assert.strictEqual(result.data.toString(), '%PDF');
+    });
+
+    it('should reject files that are not Google Docs', async () => {
+      const mockDrive = { files: { get: mock.fn(async () => ({ data: { name: 'sheet', mimeType: 'application/vnd.google-apps.spreadsheet' } })) } };
+      await assert.rejects(exportDocumentFile(mockDrive, 'sheet1', 'docx'), /not a Google Document/);
+    });
+  });
+
+  describe('writeExportedFile', () => {
+    it('should write into a directory using the file name, or to an explicit file path', async () => {
+      const { mkdtemp, readFile, rm } = await import('node:fs/promises');
+      const { tmpdir } = await import('node:os');
+      const { join } = await import('node:path');
+      const dir = await mkdtemp(join(tmpdir(), 'export-test-'));
+      try {
+        const intoDir = await writeExportedFile(dir, 'Doc.txt', Buffer.from('hello'));
+        assert.strictEqual(intoDir, join(dir, 'Doc.txt'));
+        const explicit = await writeExportedFile(join(dir, 'nested', 'out.txt'), 'Doc.txt', Buffer.from('bye'));
+        assert.strictEqual(await readFile(explicit, 'utf8'), 'bye');
+        await assert.rejects(writeExportedFile('relative/out.txt', 'Doc.txt', Buffer.from('')), /absolute path/);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
+
+describe('Document Import', () => {
+  describe('importDocumentFile', () => {
+    it('should upload with the source MIME type and convert to a Google Doc', async () => {
+      const { mkdtemp, writeFile, rm } = await import('node:fs/promises');
+      const { tmpdir } = await import('node:os');
+      const { join } = await import('node:path');
+      const dir = await mkdtemp(join(tmpdir(), 'import-test-'));
+      try {
+        const filePath = join(dir, 'Notes.md');
+        await writeFile(filePath, '# Notes');
+        const mockDrive = { files: { create: mock.fn(async ({ requestBody }) => ({ data: { id: 'new1', name: requestBody.name } })) } };
+        const result = await importDocumentFile(mockDrive, filePath, undefined, 'folder1');
+        const { requestBody, media } = mockDrive.files.create.mock.calls[0].arguments[0];
+        media.body.destroy();
+        assert.deepStrictEqual(requestBody, { name: 'Notes', mimeType: 'application/vnd.google-apps.document', parents: ['folder1'] });
+        assert.strictEqual(media.mimeType, 'text/markdown');
+        assert.deepStrictEqual(result, { id: 'new1', name: 'Notes', webViewLink: undefined });
+        await assert.rejects(importDocumentFile(mockDrive, join(dir, 'missing.docx')), /File not found/);
+        await writeFile(join(dir, 'image.png'), '');
+        await assert.rejects(importDocumentFile(mockDrive, join(dir, 'image.png')), /Unsupported file type/);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
+
+describe('Document Outline', () => {
+  const paragraph = (startIndex, text, namedStyleType = 'NORMAL_TEXT', extra = {}) => ({
+    startIndex,
+    endIndex: startIndex + text.length,
+    paragraph: { paragraphStyle: { namedStyleType, ...(namedStyleType.startsWith('HEADING') ? { headingId: `h.${startIndex}` } : {}) }, elements: [{ textRun: { content: text } }], ...extra }
+  });
+  // "Intro" H1 (1-7), text (7-12), "Details" H2 (12-20), bullet (20-23), table (23-30), "Next" H1 (30-35), text (35-40)
+  const content = [
+    paragraph(1, 'Intro\n', 'HEADING_1'),
+    paragraph(7, 'Body\n'),
+    paragraph(12, 'Details\n', 'HEADING_2'),
+    paragraph(20, 'ab\n', 'NORMAL_TEXT', { bullet: { listId: 'l1' } }),
+    { startIndex: 23, endIndex: 30, table: { tableRows: [{ tableCells: [{ content: [{ paragraph: { elements: [{ inlineObjectElement: { inlineObjectId: 'img' } }, { textRun: { content: '\n' } }] } }] }] }] } },
+    paragraph(30, 'Next\n', 'HEADING_1'),
+    paragraph(35, 'More\n')
+  ];
+
+  it('should rank named styles', () => {
+    assert.deepStrictEqual(['TITLE', 'HEADING_3', 'SUBTITLE', 'NORMAL_TEXT', undefined].map(getHeadingRank), [0, 3, null, null, null]);
+  });
+
+  it('should nest headings and compute section ends and counts', () => {
+    const outline = buildDocumentOutline(content);
+    assert.deepStrictEqual(outline.map(node => [node.text, node.sectionEndIndex]), [['Intro', 30], ['Next', 40]]);
+    // The "Details" heading counts as a paragraph of the enclosing section
+    assert.deepStrictEqual(outline[0].counts, { paragraphs: 3, tables: 1, images: 1, lists: 1 });
+    const details = outline[0].children[0];
+    assert.strictEqual(details.level, 'HEADING_2');
+    assert.strictEqual(details.headingId, 'h.12');
+    assert.deepStrictEqual([details.startIndex, details.endIndex, details.sectionEndIndex], [12, 20, 30]);
+    assert.deepStrictEqual(outline[1].counts, { paragraphs: 1, tables: 0, images: 0, lists: 0 });
+  });
+});
+
+describe('Sections', () => {
+  const paragraph = (startIndex, text, namedStyleType = 'NORMAL_TEXT') => ({
+    startIndex,
+    endIndex: startIndex + text.length,
+    paragraph: { paragraphStyle: { namedStyleType }, elements: [{ startIndex, endIndex: startIndex + text.length, textRun: { content: text } }] }
+  });
+  // Body text mentioning "Risks" (1-11), "Risks" H2 (11-17), text (17-21), "Risks" H3 (21-27), "Next" H2 (27-32), text (32-36)
+  const content = [
+    paragraph(1, 'See Risks\n'),
+    paragraph(11, 'Risks\n', 'HEADING_2'),
+    paragraph(17, 'Low\n'),
+    paragraph(21, 'Risks\n', 'HEADING_3'),
+    paragraph(27, 'Next\n', 'HEADING_2'),
+    paragraph(32, 'End\n')
+  ];
+
+  describe('findSection', () => {
+    it('should skip matches outside headings and span up to the next heading of equal or higher level', () => {
+      const section = findSection(content, { headingText: 'Risks' });
+      assert.deepStrictEqual([section.startIndex, section.contentStartIndex, section.endIndex, section.bodyEndIndex], [11, 17, 27, 36]);
+      assert.strictEqual(section.heading.level, 'HEADING_2');
+    });
+
+    it('should count matching headings for matchInstance', () => {
+      const section = findSection(content, { headingText: 'Risks', matchInstance: 2 });
+      assert.deepStrictEqual([section.startIndex, section.endIndex], [21, 27]);
+      assert.throws(() => findSection(content, { headingText: 'Risks', matchInstance: 3 }), /match 3; found 2/);
+      assert.throws(() => findSection(content, { headingText: 'End' }), /Could not find a heading containing "End"/);
+    });
+  });
+
+  describe('buildSpanDeleteRequests', () => {
+    it('should delete a span that ends before the end of the body as is', () => {
+      assert.deepStrictEqual(buildSpanDeleteRequests(11, 27, 36), [{ deleteContentRange: { range: { startIndex: 11, endIndex: 27 } } }]);
+      assert.deepStrictEqual(buildSpanDeleteRequests(17, 17, 36), []);
+    });
+
+    it('should keep the final newline and reset the paragraph left behind', () => {
+      const requests = buildSpanDeleteRequests(27, 36, 36);
+      assert.deepStrictEqual(requests[0], { deleteContentRange: { range: { startIndex: 27, endIndex: 35 } } });
+      assert.deepStrictEqual(requests[1].updateParagraphStyle.range, { startIndex: 27, endIndex: 28 });
+      assert.deepStrictEqual(requests[2], { deleteParagraphBullets: { range: { startIndex: 27, endIndex: 28 } } });
+    });
+  });
+
+  describe('buildAppendPointRequests', () => {
+    it('should open a plain paragraph after a non-empty last paragraph', () => {
+      const { requests, insertAt } = buildAppendPointRequests(content);
+      assert.strictEqual(insertAt, 36);
+      assert.deepStrictEqual(requests[0], { insertText: { location: { index: 35 }, text: '\n' } });
+      assert.deepStrictEqual(requests.slice(1).map(r => Object.keys(r)[0]), ['updateParagraphStyle', 'deleteParagraphBullets']);
+    });
+
+    it('should reuse an empty last paragraph', () => {
+      assert.deepStrictEqual(buildAppendPointRequests([...content, paragraph(36, '\n')]), { requests: [], insertAt: 36 });
+    });
+  });
+});
+
+describe('Element Queries', () => {
+  // Builds a paragraph from [text, textStyle] runs starting at startIndex
+  const paragraph = (startIndex, runs, paragraphStyle = { namedStyleType: 'NORMAL_TEXT' }, extra = {}) => {
+    let index = startIndex;
+    const elements = runs.map(([content, textStyle = {}]) => {
+      const element = { startIndex: index, endIndex: index + content.length, textRun: { content, textStyle } };
+      index += content.length;
+      return element;
+    });
+    return { startIndex, endIndex: index, paragraph: { elements, paragraphStyle, ...extra } };
+  };
+  const red = { color: { rgbColor: { red: 1 } } };
+  const doc = {
+    inlineObjects: { img: { inlineObjectProperties: { embeddedObject: { description: 'Sales chart' } } } },
+    body: { content: [
+      paragraph(1, [['Overview\n']], { namedStyleType: 'HEADING_1' }),
+      paragraph(10, [['Step 1: ', { bold: true }], ['install the tool\n']]),
+      paragraph(34, [['Step 2: ', { bold: true, foregroundColor: red }], ['run it\n', { bold: true }]], undefined, { bullet: { listId: 'l1' } }),
+      { startIndex: 50, endIndex: 60, table: { tableRows: [{ tableCells: [
+        { content: [paragraph(53, [['Step 3\n', { weightedFontFamily: { fontFamily: 'Courier New' } }]])] }
+      ] }] } },
+      { startIndex: 60, endIndex: 62, paragraph: { paragraphStyle: { namedStyleType: 'NORMAL_TEXT' }, elements: [
+        { startIndex: 60, endIndex: 61, inlineObjectElement: { inlineObjectId: 'img', textStyle: {} } },
+        { startIndex: 61, endIndex: 62, textRun: { content: '\n' } }
+      ] } }
+    ] }
+  };
+
+  describe('findElements', () => {
+    it('should match paragraphs by regex, including table cells, and map the match to document indices', () => {
+      const matches = findElements(doc, { regex: 'step \\d' });
+      assert.deepStrictEqual(matches.map(m => [m.type, m.startIndex, m.inTable || false]), [['paragraph', 10, false], ['list', 34, false], ['paragraph', 53, true]]);
+      assert.deepStrictEqual(matches[0].match, { startIndex: 10, endIndex: 16, text: 'Step 1' });
+      assert.strictEqual(matches[0].snippet, 'Step 1: install the tool');
+      assert.deepStrictEqual([matches[1].listId, matches[1].nestingLevel], ['l1', 0]);
+      assert.strictEqual(findElements(doc, { regex: 'step \\d', caseSensitive: true }).length, 0);
+    });
+
+    it('should report the earliest match when both text and regex are given', () => {
+      const [match] = findElements(doc, { text: 'install', regex: 'step \\d' });
+      assert.deepStrictEqual(match.match, { startIndex: 10, endIndex: 16, text: 'Step 1' });
+      assert.deepStrictEqual(findElements(doc, { text: 'step', regex: 'tool' })[0].match.text, 'Step');
+    });
+
+    it('should combine element type, named style and text style criteria', () => {
+      assert.deepStrictEqual(findElements(doc, { elementType: 'heading' }).map(m => m.snippet), ['Overview']);
+      assert.deepStrictEqual(findElements(doc, { namedStyleTypes: ['HEADING_1', 'HEADING_2'] }).map(m => m.startIndex), [1]);
+      assert.deepStrictEqual(findElements(doc, { textStyle: { bold: true } }).map(m => m.startIndex), [10, 34]);
+      assert.deepStrictEqual(findElements(doc, { textStyle: { bold: true }, textStyleMatch: 'all' }).map(m => m.startIndex), [34]);
+      assert.deepStrictEqual(findElements(doc, { textStyle: { foregroundColor: '#F00' } }).map(m => m.startIndex), [34]);
+      assert.deepStrictEqual(findElements(doc, { textStyle: { fontFamily: 'courier new' }, includeTableCells: false }), []);
+    });
+
+    it('should match tables by cell text and images by alt text', () => {
+      assert.deepStrictEqual(findElements(doc, { elementType: 'table', text: 'step 3' }).map(m => [m.type, m.startIndex, m.endIndex]), [['table', 50, 60]]);
+      assert.deepStrictEqual(findElements(doc, { elementType: 'image', text: 'chart' }), [{ type: 'image', startIndex: 60, endIndex: 61, namedStyleType: 'NORMAL_TEXT', snippet: 'Sales chart' }]);
+    });
+  });
+
+  describe('findParagraphsMatchingStyle', () => {
+    it('should fetch the document and match paragraphs by named style', async () => {
+      const mockDocs = { documents: { get: mock.fn(async () => ({ data: doc })) } };
+      const matches = await findParagraphsMatchingStyle(mockDocs, 'doc123', { namedStyleTypes: ['HEADING_1'] });
+      assert.deepStrictEqual(matches.map(m => [m.type, m.snippet]), [['heading', 'Overview']]);
+      assert.strictEqual(mockDocs.documents.get.mock.calls[0].arguments[0].fields, 'body,inlineObjects');
+    });
+  });
+});
+
+describe('Text Search', () => {
+  const paragraph = (startIndex, content) => ({
+    startIndex,
+    endIndex: startIndex + content.length,
+    paragraph: { elements: [{ startIndex, endIndex: startIndex + content.length, textRun: { content } }] }
+  });
+  // "The cat scattered. Cat!" (1-25), table cell "CAT 3" (29-35), "Q1 2024 and Q3 2025" (37-57)
+  const content = [
+    paragraph(1, 'The cat scattered. Cat!\n'),
+    { startIndex: 25, endIndex: 36, table: { tableRows: [{ tableCells: [{ content: [paragraph(29, 'CAT 3\n')] }] }] } },
+    paragraph(37, 'Q1 2024 and Q3 2025\n')
+  ];
+
+  describe('searchContentText', () => {
+    it('should match exact text by default, case-sensitively', () => {
+      assert.deepStrictEqual(searchContentText(content, 'cat').map(m => [m.startIndex, m.endIndex]), [[5, 8], [10, 13]]);
+    });
+
+    it('should support case-insensitive whole-word matching across table cells', () => {
+      const matches = searchContentText(content, 'cat', { caseSensitive: false, wholeWord: true });
+      assert.deepStrictEqual(matches.map(m => [m.text, m.startIndex]), [['cat', 5], ['Cat', 20], ['CAT', 29]]);
+      assert.deepStrictEqual(matches[1].context, { before: 'The cat scattered. ', after: '!' });
+    });
+
+    it('should treat accented letters as part of a word', () => {
+      const cafe = [paragraph(1, 'café and caf\n')];
+      assert.deepStrictEqual(searchContentText(cafe, 'caf', { wholeWord: true }).map(m => m.startIndex), [10]);
+    });
+
+    it('should support regular expressions and skip empty matches', () => {
+      assert.deepStrictEqual(searchContentText(content, 'Q[1-4] (\\d{4})', { useRegex: true }).map(m => [m.text, m.startIndex, m.endIndex]), [['Q1 2024', 37, 44], ['Q3 2025', 49, 56]]);
+      assert.strictEqual(searchContentText(content, 'x*', { useRegex: true }).length, 0);
+    });
+
+    it('should anchor ^ and $ at each paragraph', () => {
+      const steps = [paragraph(1, 'Step 1 go\n'), paragraph(11, 'Step 2 go\n')];
+      assert.deepStrictEqual(searchContentText(steps, '^Step \\d', { useRegex: true }).map(m => m.startIndex), [1, 11]);
+      assert.deepStrictEqual(searchContentText(steps, 'go$', { useRegex: true }).map(m => m.startIndex), [8, 18]);
+    });
+  });
+
+  describe('buildSearchRegex', () => {
+    it('should escape plain text and reject invalid patterns', () => {
+      assert.strictEqual(buildSearchRegex('a.b (c)').source, 'a\\.b \\(c\\)');
+      assert.throws(() => buildSearchRegex('(', { useRegex: true }), /Invalid regular expression/);
+    });
+  });
+
+  describe('resolveTextFindTargets', () => {
+    const mockDocs = { documents: { get: mock.fn(async () => ({ data: { body: { content } } })) } };
+
+    it('should return the requested instance or every match', async () => {
+      assert.deepStrictEqual((await resolveTextFindTargets(mockDocs, 'doc123', { textToFind: 'cat', matchInstance: 2 })).map(m => m.startIndex), [10]);
+      assert.strictEqual((await resolveTextFindTargets(mockDocs, 'doc123', { textToFind: 'cat', caseSensitive: false, allMatches: true })).length, 4);
+      await assert.rejects(resolveTextFindTargets(mockDocs, 'doc123', { textToFind: 'cat', matchInstance: 3 }), /instance 3 of text "cat" \(found 2\)/);
+    });
+  });
+
+  describe('resolveParagraphTarget', () => {
+    it('should locate the paragraph around a regex match', async () => {
+      const mockDocs = { documents: { get: mock.fn(async () => ({ data: { body: { content } } })) } };
+      const range = await resolveParagraphTarget(mockDocs, 'doc123', { textToFind: 'Q\\d', useRegex: true, matchInstance: 1 });
+      assert.deepStrictEqual(range, { startIndex: 37, endIndex: 57 });
+    });
+  });
+});
+
+describe('Text Replacement', () => {
+  const paragraph = (startIndex, content, namedStyleType = 'NORMAL_TEXT') => ({
+    startIndex,
+    endIndex: startIndex + content.length,
+    paragraph: { paragraphStyle: { namedStyleType }, elements: [{ startIndex, endIndex: startIndex + content.length, textRun: { content } }] }
+  });
+  // Title "Vendor Agreement" (1-18), "The Vendor pays. vendor: Acme" (18-48)
+  const content = [
+    paragraph(1, 'Vendor Agreement\n', 'TITLE'),
+    paragraph(18, 'The Vendor pays. vendor: Acme\n')
+  ];
+
+  describe('expandReplacement', () => {
+    it('should expand numbered and named groups like String.prototype.replace', () => {
+      const found = /(?<first>\w+) (\w+)/.exec('Jane Doe');
+      assert.strictEqual(expandReplacement('$2, $<first> ($&) $$1 $3 $12', found), 'Doe, Jane (Jane Doe) $1 $3 Jane2');
+    });
+  });
+
+  describe('planTextReplacements', () => {
+    it('should skip excluded styles and number the remaining matches', () => {
+      const { replacements, totalMatches } = planTextReplacements(content, 'vendor', 'Supplier', { caseSensitive: false, excludeNamedStyleTypes: ['TITLE'] });
+      assert.strictEqual(totalMatches, 2);
+      assert.deepStrictEqual(replacements.map(r => [r.matchNumber, r.startIndex, r.endIndex, r.text, r.replacement]), [[1, 22, 28, 'Vendor', 'Supplier'], [2, 35, 41, 'vendor', 'Supplier']]);
+    });
+
+    it('should substitute capture groups and honour matchInstances and maxReplacements', () => {
+      const planned = planTextReplacements(content, '(\\w+)dor', '$1DOR', { useRegex: true, caseSensitive: false, matchInstances: [2, 3] });
+      assert.deepStrictEqual(planned.replacements.map(r => [r.matchNumber, r.replacement]), [[2, 'VenDOR'], [3, 'venDOR']]);
+      assert.strictEqual(planTextReplacements(content, 'Vendor', 'X', { maxReplacements: 1 }).replacements[0].startIndex, 1);
+    });
+
+    it('should tell matches across table cells apart from matches across images', () => {
+      const mixed = [
+        { startIndex: 1, endIndex: 13, paragraph: { elements: [
+          { startIndex: 1, endIndex: 5, textRun: { content: 'See ' } },
+          { startIndex: 5, endIndex: 6, inlineObjectElement: { inlineObjectId: 'img' } },
+          { startIndex: 6, endIndex: 13, textRun: { content: ' chart\n' } }
+        ] } },
+        { startIndex: 13, endIndex: 21, table: { tableRows: [{ tableCells: [
+          { content: [paragraph(15, 'A\n')] },
+          { content: [paragraph(18, 'B\n')] }
+        ] }] } }
+      ];
+      assert.throws(() => planTextReplacements(mixed, 'See  chart', 'X'), /Match 1 \("See  chart"\) spans an image, footnote reference or other non-text element/);
+      assert.throws(() => planTextReplacements(mixed, 'A\nB', 'X'), /Match 1 \("A\nB"\) spans a table cell boundary/);
+    });
+  });
+
+  describe('buildTextReplacementRequests', () => {
+    it('should replace from the last match and insert inside the matched text', () => {
+      const { replacements } = planTextReplacements(content, 'Vendor', 'Supplier', { excludeNamedStyleTypes: ['TITLE'] });
+      const requests = buildTextReplacementRequests([...replacements, { startIndex: 30, endIndex: 35, replacement: '' }], { bold: true });
+      assert.deepStrictEqual(requests.slice(0, 4), [
+        { deleteContentRange: { range: { startIndex: 30, endIndex: 35 } } },
+        { insertText: { location: { index: 23 }, text: 'Supplier' } },
+        { deleteContentRange: { range: { startIndex: 31, endIndex: 36 } } },
+        { deleteContentRange: { range: { startIndex: 22, endIndex: 23 } } }
+      ]);
+      assert.deepStrictEqual(requests[4].updateTextStyle.range, { startIndex: 22, endIndex: 30 });
+    });
+  });
+});
+
+describe('Batch Updates', () => {
+  const insert = (index, text = 'x') => ({ insertText: { location: { index }, text } });
+
+  describe('executeBatchUpdate', () => {
+    it('should send chunks in order, chaining the revision of each chunk into the next', async () => {
+      let revision = 0;
+      const mockDocs = { documents: { batchUpdate: mock.fn(async ({ requestBody }) => ({
+        data: { replies: requestBody.requests.map(() => ({})), writeControl: { requiredRevisionId: `rev${++revision}` } }
+      })) } };
+      const requests = Array.from({ length: 120 }, (_, i) => insert(i + 1));
+      const result = await executeBatchUpdate(mockDocs, 'doc123', requests, { requiredRevisionId: 'rev0', chunked: true });
+
+      const calls = mockDocs.documents.batchUpdate.mock.calls.map(call => call.arguments[0].requestBody);
+      assert.deepStrictEqual(calls.map(body => [body.requests.length, body.writeControl.requiredRevisionId]), [[50, 'rev0'], [50, 'rev1'], [20, 'rev2']]);
+      assert.strictEqual(calls[1].requests[0], requests[50]);
+      assert.deepStrictEqual(result.chunks, [
+        { chunk: 1, requestCount: 50, revisionId: 'rev1' },
+        { chunk: 2, requestCount: 50, revisionId: 'rev2' },
+        { chunk: 3, requestCount: 20, revisionId: 'rev3' }
+      ]);
+      assert.strictEqual(result.replies.length, 120);
+    });
+
+    it('should report how much was applied when a later chunk fails', async () => {
+      let call = 0;
+      const mockDocs = { documents: { batchUpdate: mock.fn(async () => {
+        if (++call === 2) throw Object.assign(new Error('Invalid requests[3]'), { code: 400 });
+        return { data: { writeControl: { requiredRevisionId: 'rev1' } } };
+      }) } };
+      await assert.rejects(
+        executeBatchUpdate(mockDocs, 'doc123', Array.from({ length: 4 }, (_, i) => insert(i + 1)), { chunked: true, chunkSize: 2 }),
+        /Chunks 1-1 of 2 \(2 of 4 requests\) were already applied/
+      );
+    });
+
+    it('should send every request in one call unless chunking is requested', async () => {
+      const mockDocs = { documents: { batchUpdate: mock.fn(async () => ({ data: {} })) } };
+      const result = await executeBatchUpdate(mockDocs, 'doc123', Array.from({ length: 120 }, (_, i) => insert(i + 1)), { chunkSize: 2 });
+      assert.strictEqual(mockDocs.documents.batchUpdate.mock.calls.length, 1);
+      assert.strictEqual(mockDocs.documents.batchUpdate.mock.calls[0].arguments[0].requestBody.requests.length, 120);
+      assert.deepStrictEqual(result.chunks.map(c => c.requestCount), [120]);
+    });
+
+    it('should do nothing for an empty request list', async () => {
+      const mockDocs = { documents: { batchUpdate: mock.fn() } };
+      assert.deepStrictEqual(await executeBatchUpdate(mockDocs, 'doc123', []), { chunks: [] });
+      assert.strictEqual(mockDocs.documents.batchUpdate.mock.calls.length, 0);
+    });
+  });
+
+  describe('sortRequestsByIndexDescending', () => {
+    it('should apply the highest indices first and keep requests without an index first', () => {
+      const style = { updateTextStyle: { range: { startIndex: 20, endIndex: 25 }, textStyle: { bold: true }, fields: 'bold' } };
+      const documentStyle = { updateDocumentStyle: { documentStyle: {}, fields: 'marginTop' } };
+      const sorted = sortRequestsByIndexDescending([insert(5, 'a'), style, documentStyle, insert(5, 'b'), { deleteContentRange: { range: { startIndex: 30, endIndex: 40 } } }]);
+      assert.deepStrictEqual(sorted.map(getRequestIndex), [undefined, 30, 20, 5, 5]);
+      assert.deepStrictEqual(sorted.slice(3).map(r => r.insertText.text), ['a', 'b']);
+    });
+
+    it('should reject a deletion that overlaps another edit', () => {
+      assert.throws(() => sortRequestsByIndexDescending([{ deleteContentRange: { range: { startIndex: 5, endIndex: 20 } } }, insert(10)]), /overlaps another edit at index 10/);
+    });
+  });
+});
+
+describe('Edit Plans', () => {
+  const paragraph = (startIndex, content) => ({
+    startIndex,
+    endIndex: startIndex + content.length,
+    paragraph: { elements: [{ startIndex, endIndex: startIndex + content.length, textRun: { content } }] }
+  });
+  // "Hello world\n" (1-13), "Second line\n" (13-25)
+  const content = [paragraph(1, 'Hello world\n'), paragraph(13, 'Second line\n')];
+
+  describe('buildEditRequests', () => {
+    it('should resolve every target against the snapshot and shift it past earlier edits', () => {
+      const { requests, summaries } = buildEditRequests(content, [
+        { type: 'insertText', at: { textToFind: 'Hello', position: 'before' }, text: 'Oh, ', style: { italic: true } },
+        { type: 'textStyle', target: { textToFind: 'world' }, style: { bold: true } },
+        { type: 'deleteText', target: { startIndex: 13, endIndex: 20 } },
+        { type: 'paragraphStyle', target: { textToFind: 'line' }, style: { alignment: 'CENTER' } },
+        { type: 'pageBreak', at: { endOfDocument: true } }
+      ]);
+      assert.deepStrictEqual(requests.map(r => Object.keys(r)[0]), ['insertText', 'updateTextStyle', 'updateTextStyle', 'deleteContentRange', 'updateParagraphStyle', 'insertPageBreak']);
+      assert.deepStrictEqual(requests[0].insertText, { location: { index: 1 }, text: 'Oh, ' });
+      assert.deepStrictEqual(requests[1].updateTextStyle.range, { startIndex: 1, endIndex: 5 });
+      assert.deepStrictEqual(requests[2].updateTextStyle.range, { startIndex: 11, endIndex: 16 });
+      assert.deepStrictEqual(requests[3].deleteContentRange.range, { startIndex: 17, endIndex: 24 });
+      assert.deepStrictEqual(requests[4].updateParagraphStyle.range, { startIndex: 17, endIndex: 21 });
+      assert.deepStrictEqual(requests[5].insertPageBreak.location, { index: 21 });
+      assert.strictEqual(summaries.length, 5);
+    });
+
+    it('should count the characters a table adds and delete every match from the last', () => {
+      const { requests } = buildEditRequests(content, [
+        { type: 'table', at: { index: 13 }, rows: 2, columns: 2 },
+        { type: 'deleteText', target: { textToFind: 'e', allMatches: true } },
+        { type: 'image', at: { textToFind: 'line' }, imageUrl: 'https://example.com/a.png' }
+      ]);
+      // A 2x2 table adds 13 characters: a newline, the table and rows, and one paragraph per cell
+      assert.deepStrictEqual(requests.slice(1, 4).map(r => r.deleteContentRange.range.startIndex), [36, 27, 2]);
+      assert.deepStrictEqual(requests[4].insertInlineImage.location, { index: 34 });
+    });
+
+    it('should rebase over several earlier edits that straddle the target', () => {
+      const inserted = buildEditRequests(content, [
+        { type: 'insertText', at: { index: 5 }, text: 'aaaaaaaaaa' },
+        { type: 'insertText', at: { index: 20 }, text: 'YY' },
+        { type: 'insertText', at: { index: 18 }, text: 'Z' }
+      ]).requests;
+      assert.deepStrictEqual(inserted.map(r => r.insertText.location.index), [5, 30, 28]);
+
+      const mixed = buildEditRequests(content, [
+        { type: 'insertText', at: { index: 2 }, text: 'aaaaaaaaaa' },
+        { type: 'deleteText', target: { startIndex: 14, endIndex: 16 } },
+        { type: 'insertText', at: { index: 12 }, text: 'x' },
+        { type: 'deleteText', target: { startIndex: 10, endIndex: 20 } },
+        { type: 'insertText', at: { index: 22 }, text: 'y' }
+      ]).requests;
+      assert.deepStrictEqual(mixed[1].deleteContentRange.range, { startIndex: 24, endIndex: 26 });
+      assert.strictEqual(mixed[2].insertText.location.index, 22);
+      // The second deletion also removes the "x" inserted inside it
+      assert.deepStrictEqual(mixed[3].deleteContentRange.range, { startIndex: 20, endIndex: 29 });
+      assert.strictEqual(mixed[4].insertText.location.index, 22);
+    });
+
+    it('should reject an edit inside text an earlier edit deleted', () => {
+      assert.throws(() => buildEditRequests(content, [
+        { type: 'deleteText', target: { textToFind: 'Hello world' } },
+        { type: 'textStyle', target: { textToFind: 'world' }, style: { bold: true } }
+      ]), /Operation 2 targets text deleted by operation 1/);
+      assert.throws(() => buildEditRequests(content, [
+        { type: 'insertText', at: { textToFind: 'missing' }, text: 'x' }
+      ]), /Operation 1: could not find instance 1 of text "missing"/);
+    });
+  });
+});
+
+describe('Named Ranges', () => {
+  const doc = { namedRanges: {
+    summary: { name: 'summary', namedRanges: [{ namedRangeId: 'kix.2', name: 'summary', ranges: [{ startIndex: 20, endIndex: 30 }] }] },
+    intro: { name: 'intro', namedRanges: [{ namedRangeId: 'kix.1', name: 'intro', ranges: [{ startIndex: 9, endIndex: 12 }, { startIndex: 1, endIndex: 5 }] }] },
+    dup: { name: 'dup', namedRanges: [
+      { namedRangeId: 'kix.3', name: 'dup', ranges: [{ startIndex: 40, endIndex: 42 }] },
+      { namedRangeId: 'kix.4', name: 'dup', ranges: [{ startIndex: 2, endIndex: 4, segmentId: 'kix.header' }] }
+    ] }
+  } };
+
+  describe('collectNamedRanges', () => {
+    it('should flatten named ranges and order them by position', () => {
+      const collected = collectNamedRanges(doc);
+      assert.deepStrictEqual(collected.map(n => n.namedRangeId), ['kix.1', 'kix.4', 'kix.2', 'kix.3']);
+      assert.deepStrictEqual(collected[0].ranges, [{ startIndex: 1, endIndex: 5 }, { startIndex: 9, endIndex: 12 }]);
+      assert.deepStrictEqual(collected[1].ranges, [{ startIndex: 2, endIndex: 4, segmentId: 'kix.header' }]);
+    });
+  });
+
+  describe('findNamedRange', () => {
+    it('should find a range by name and reject missing or duplicate names', () => {
+      assert.strictEqual(findNamedRange(doc, 'summary').namedRangeId, 'kix.2');
+      assert.throws(() => findNamedRange(doc, 'missing'), /Named range "missing" not found. Available: "intro", "dup", "summary"/);
+      assert.throws(() => findNamedRange(doc, 'dup'), /2 named ranges are called "dup" \(IDs: kix.4, kix.3\)/);
+    });
+  });
+
+  describe('resolveNamedRangeIndex', () => {
+    it('should resolve to the start or end of a body range', async () => {
+      const mockDocs = { documents: { get: mock.fn(async () => ({ data: doc })) } };
+      assert.strictEqual(await resolveNamedRangeIndex(mockDocs, 'doc123', 'intro'), 1);
+      assert.strictEqual(await resolveNamedRangeIndex(mockDocs, 'doc123', 'intro', 'end'), 12);
+      assert.deepStrictEqual(mockDocs.documents.get.mock.calls[0].arguments[0], { documentId: 'doc123', fields: 'namedRanges' });
+    });
+
+    it('should reject ranges outside the body', async () => {
+      const mockDocs = { documents: { get: mock.fn(async () => ({ data: { namedRanges: { dup: { name: 'dup', namedRanges: [doc.namedRanges.dup.namedRanges[1]] } } } })) } };
+      await assert.rejects(resolveNamedRangeIndex(mockDocs, 'doc123', 'dup'), /Named range "dup" is not in the document body/);
+    });
+
+    it('should let a paragraph target span the whole named range', async () => {
+      const mockDocs = { documents: { get: mock.fn(async () => ({ data: doc })) } };
+      assert.deepStrictEqual(await resolveParagraphTarget(mockDocs, 'doc123', { namedRange: 'intro' }), { startIndex: 1, endIndex: 12 });
+    });
+  });
+
+  describe('extractRangeText', () => {
+    it('should return the text between two indices, including table cells', () => {
+      const paragraph = (startIndex, content) => ({
+        startIndex,
+        endIndex: startIndex + content.length,
+        paragraph: { elements: [{ startIndex, endIndex: startIndex + content.length, textRun: { content } }] }
+      });
+      const content = [paragraph(1, 'Hello world\n'), { startIndex: 13, endIndex: 20, table: { tableRows: [{ tableCells: [{ content: [paragraph(16, 'Cell\n')] }] }] } }];
+      assert.strictEqual(extractRangeText(content, 7, 18), 'world\nCe');
+    });
+  });
+
+  describe('buildReplaceNamedRangeContentRequests', () => {
+    it('should replace the text and recreate the range around it', () => {
+      const header = collectNamedRanges(doc).find(n => n.namedRangeId === 'kix.4');
+      assert.deepStrictEqual(buildReplaceNamedRangeContentRequests(header, 'New'), [
+        { deleteNamedRange: { namedRangeId: 'kix.4' } },
+        { deleteContentRange: { range: { startIndex: 2, endIndex: 4, segmentId: 'kix.header' } } },
+        { insertText: { location: { index: 2, segmentId: 'kix.header' }, text: 'New' } },
+        { createNamedRange: { name: 'dup', range: { startIndex: 2, endIndex: 5, segmentId: 'kix.header' } } }
+      ]);
+      assert.throws(() => buildReplaceNamedRangeContentRequests(findNamedRange(doc, 'intro'), 'x'), /spans 2 separate ranges/);
+    });
+  });
+});
+
+describe('Headers, Footers & Footnotes', () => {
+  const segment = (...lines) => {
+    let index = 0;
+    return { content: lines.map(line => {
+      const startIndex = index;
+      index += line.length;
+      return { startIndex, endIndex: index, paragraph: { elements: [{ startIndex, endIndex: index, textRun: { content: line } }] } };
+    }) };
+  };
+  const doc = {
+    documentStyle: { defaultHeaderId: 'kix.h1', firstPageFooterId: 'kix.f1', useFirstPageHeaderFooter: true },
+    headers: { 'kix.h1': segment('Acme Corp\n', 'Confidential\n') },
+    footers: { 'kix.f1': segment('Cover\n') },
+    footnotes: { 'kix.fn2': segment(' Second.\n'), 'kix.fn1': segment(' First.\n') },
+    body: { content: [
+      { paragraph: { elements: [{ textRun: { content: 'A' } }, { footnoteReference: { footnoteId: 'kix.fn1', footnoteNumber: '1' } }, { textRun: { content: '\n' } }] } },
+      { table: { tableRows: [{ tableCells: [{ content: [{ paragraph: { elements: [{ footnoteReference: { footnoteId: 'kix.fn2', footnoteNumber: '2' } }] } }] }] }] } }
+    ] }
+  };
+
+  describe('listHeadersFooters', () => {
+    it('should list headers before footers with their text', () => {
+      assert.deepStrictEqual(listHeadersFooters(doc), [
+        { kind: 'header', variant: 'default', segmentId: 'kix.h1', text: 'Acme Corp\nConfidential' },
+        { kind: 'footer', variant: 'firstPage', segmentId: 'kix.f1', text: 'Cover' }
+      ]);
+    });
+  });
+
+  describe('collectFootnotes', () => {
+    it('should list footnotes in reference order, including table cells', () => {
+      assert.deepStrictEqual(collectFootnotes(doc), [
+        { footnoteId: 'kix.fn1', number: '1', text: 'First.' },
+        { footnoteId: 'kix.fn2', number: '2', text: 'Second.' }
+      ]);
+    });
+  });
+
+  describe('buildCreateHeaderFooterRequests', () => {
+    it('should create default headers directly and turn on the setting for variants', () => {
+      assert.deepStrictEqual(buildCreateHeaderFooterRequests('footer', 'default'), [{ createFooter: { type: 'DEFAULT' } }]);
+      assert.deepStrictEqual(buildCreateHeaderFooterRequests('header', 'evenPage'), [
+        { updateDocumentStyle: { documentStyle: { useEvenPageHeaderFooter: true }, fields: 'useEvenPageHeaderFooter' } }
+      ]);
+    });
+  });
+
+  describe('buildReplaceSegmentTextRequests', () => {
+    it('should keep the final newline of the segment', () => {
+      assert.deepStrictEqual(buildReplaceSegmentTextRequests('kix.h1', doc.headers['kix.h1'].content, 'New'), [
+        { deleteContentRange: { range: { segmentId: 'kix.h1', startIndex: 0, endIndex: 22 } } },
+        { insertText: { location: { segmentId: 'kix.h1', index: 0 }, text: 'New' } }
+      ]);
+      assert.deepStrictEqual(buildReplaceSegmentTextRequests('kix.e', segment('\n').content, ''), []);
+    });
+  });
+
+  describe('createHeaderFooter', () => {
+    it('should create a header and write its text into the new segment', async () => {
+      const mockDocs = { documents: {
+        get: mock.fn(async () => ({ data: { documentStyle: {} } })),
+        batchUpdate: mock.fn(async ({ requestBody }) => ({ data: { replies: requestBody.requests.map(r => r.createHeader ? { createHeader: { headerId: 'kix.new' } } : {}) } }))
+      } };
+      assert.strictEqual(await createHeaderFooter(mockDocs, 'doc123', 'header', 'default', 'Draft'), 'kix.new');
+      assert.deepStrictEqual(mockDocs.documents.batchUpdate.mock.calls[1].arguments[0].requestBody.requests, [
+        { insertText: { location: { segmentId: 'kix.new', index: 0 }, text: 'Draft' } }
+      ]);
+    });
+
+    it('should reject a header that already exists', async () => {
+      const mockDocs = { documents: { get: mock.fn(async () => ({ data: doc })), batchUpdate: mock.fn() } };
+      await assert.rejects(createHeaderFooter(mockDocs, 'doc123', 'footer', 'firstPage'), /already has a first page footer \(ID: kix.f1\)/);
+      assert.strictEqual(mockDocs.documents.batchUpdate.mock.calls.length, 0);
+    });
+  });
+
+  describe('formatDateText', () => {
+    it('should write ISO, short and long dates', () => {
+      const date = new Date(2024, 2, 5);
+      assert.deepStrictEqual(['iso', 'short', 'long'].map(format => formatDateText(date, format)), ['2024-03-05', '3/5/2024', 'March 5, 2024']);
+    });
+  });
+
+  describe('parseDateText', () => {
+    it('should read a YYYY-MM-DD date as that local day in any time zone', () => {
+      const originalTz = process.env.TZ;
+      try {
+        for (const tz of ['America/New_York', 'Pacific/Auckland', 'UTC']) {
+          process.env.TZ = tz;
+          assert.deepStrictEqual(['iso', 'long'].map(format => formatDateText(parseDateText('2024-03-05'), format)), ['2024-03-05', 'March 5, 2024']);
+        }
+      } finally {
+        if (originalTz === undefined) delete process.env.TZ;
+        else process.env.TZ = originalTz;
+      }
+      assert.strictEqual(formatDateText(parseDateText('March 5, 2024'), 'iso'), '2024-03-05');
+      assert.throws(() => parseDateText('someday'), /Invalid date: someday/);
+    });
+  });
+});
+
+describe('Document & Section Styles', () => {
+  describe('toPoints', () => {
+    it('should convert lengths to points', () => {
+      assert.deepStrictEqual([toPoints(2, 'cm'), toPoints(1, 'in'), toPoints(10, 'mm'), toPoints(12)], [56.69, 72, 28.35, 12]);
+    });
+  });
+
+  describe('buildUpdateDocumentStyleRequest', () => {
+    it('should set a preset page size and shared margins in the given unit', () => {
+      const { request, fields } = buildUpdateDocumentStyleRequest({ pageSize: 'A4', margins: 2, marginLeft: 2.5, unit: 'cm', backgroundColor: '#FFFFFF' });
+      assert.deepStrictEqual(fields, ['pageSize', 'marginTop', 'marginBottom', 'marginLeft', 'marginRight', 'background']);
+      assert.deepStrictEqual(request.updateDocumentStyle.documentStyle.pageSize, { width: { magnitude: 595.28, unit: 'PT' }, height: { magnitude: 841.89, unit: 'PT' } });
+      assert.deepStrictEqual(request.updateDocumentStyle.documentStyle.marginLeft, { magnitude: 70.87, unit: 'PT' });
+      assert.deepStrictEqual(request.updateDocumentStyle.documentStyle.background, { color: { color: { rgbColor: { red: 1, green: 1, blue: 1 } } } });
+      assert.strictEqual(request.updateDocumentStyle.fields, fields.join(','));
+    });
+
+    it('should turn the current page size for a new orientation', () => {
+      const { request } = buildUpdateDocumentStyleRequest({ orientation: 'LANDSCAPE', unit: 'pt' }, { width: 612, height: 792 });
+      assert.deepStrictEqual(request.updateDocumentStyle.documentStyle.pageSize, { width: { magnitude: 792, unit: 'PT' }, height: { magnitude: 612, unit: 'PT' } });
+      assert.throws(() => buildUpdateDocumentStyleRequest({ pageWidth: 500 }), /Provide pageSize, or both pageWidth and pageHeight/);
+      assert.strictEqual(buildUpdateDocumentStyleRequest({ unit: 'pt' }), null);
+    });
+  });
+
+  describe('buildUpdateSectionStyleRequest', () => {
+    it('should space every column but the last', () => {
+      const { request, fields } = buildUpdateSectionStyleRequest(1, 10, { columnCount: 2, columnSpacing: 1, columnSeparator: true, useFirstPageHeaderFooter: false, unit: 'cm' });
+      assert.deepStrictEqual(fields, ['columnProperties', 'columnSeparatorStyle', 'useFirstPageHeaderFooter']);
+      assert.deepStrictEqual(request.updateSectionStyle, {
+        range: { startIndex: 1, endIndex: 10 },
+        sectionStyle: { columnProperties: [{ paddingEnd: { magnitude: 28.35, unit: 'PT' } }, {}], columnSeparatorStyle: 'BETWEEN_EACH_COLUMN', useFirstPageHeaderFooter: false },
+        fields: 'columnProperties,columnSeparatorStyle,useFirstPageHeaderFooter'
+      });
+    });
+  });
+});
+
+describe('Paragraph Styling', () => {
+  describe('buildUpdateParagraphStyleRequest', () => {
+    it('should set spacing, indents, direction and shading with matching fields', () => {
+      const { request, fields } = buildUpdateParagraphStyleRequest(1, 10, {
+        lineSpacing: 150, indentFirstLine: 18, keepLinesTogether: true, avoidWidowAndOrphan: false, direction: 'RIGHT_TO_LEFT', shadingColor: '#F3F3F3'
+      });
+      assert.deepStrictEqual(fields, ['keepLinesTogether', 'avoidWidowAndOrphan', 'lineSpacing', 'indentFirstLine', 'direction', 'shading.backgroundColor']);
+      assert.strictEqual(request.updateParagraphStyle.fields, fields.join(','));
+      assert.deepStrictEqual(request.updateParagraphStyle.paragraphStyle, {
+        keepLinesTogether: true,
+        avoidWidowAndOrphan: false,
+        lineSpacing: 150,
+        indentFirstLine: { magnitude: 18, unit: 'PT' },
+        direction: 'RIGHT_TO_LEFT',
+        shading: { backgroundColor: { color: { rgbColor: { red: 0xF3 / 255, green: 0xF3 / 255, blue: 0xF3 / 255 } } } }
+      });
+    });
+
+    it('should fill border defaults for a divider line', () => {
+      const { request, fields } = buildUpdateParagraphStyleRequest(1, 10, { borderBottom: { width: 2, padding: 6 }, borderBetween: { width: 0 } });
+      assert.deepStrictEqual(fields, ['borderBottom', 'borderBetween']);
+      assert.deepStrictEqual(request.updateParagraphStyle.paragraphStyle.borderBottom, {
+        color: { color: { rgbColor: { red: 0, green: 0, blue: 0 } } },
+        width: { magnitude: 2, unit: 'PT' },
+        dashStyle: 'SOLID',
+        padding: { magnitude: 6, unit: 'PT' }
+      });
+      assert.deepStrictEqual(request.updateParagraphStyle.paragraphStyle.borderBetween.width, { magnitude: 0, unit: 'PT' });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+// tests/html.test.js
+import { parseHtmlBlocks, parseCssTextStyle, decodeHtmlEntities, convertDocsJsonToHtml } from '../dist/html.js';
+import { buildBlockRequests } from '../dist/markdown.js';
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+describe('HTML Import', () => {
+  describe('parseHtmlBlocks', () => {
+    it('should convert headings, paragraphs and inline formatting', () => {
+      const blocks = parseHtmlBlocks('<h2>Intro</h2>\n<p>Some <b>bold</b>, <em>italic</em> and\n  <a href="https://example.com">a <code>link</code></a>.</p>');
+      assert.strictEqual(blocks.length, 2);
+      assert.strictEqual(blocks[0].namedStyleType, 'HEADING_2');
+      assert.strictEqual(blocks[1].inline.text, 'Some bold, italic and a link.');
+      assert.deepStrictEqual(blocks[1].inline.styles, [
+        { start: 5, end: 9, style: { bold: true } },
+        { start: 11, end: 17, style: { italic: true } },
+        { start: 22, end: 28, style: { linkUrl: 'https://example.com' } },
+        { start: 24, end: 28, style: { fontFamily: 'Courier New' } }
+      ]);
+    });
+
+    it('should nest lists and collect table cells', () => {
+      const blocks = parseHtmlBlocks('<ul><li>one<ol><li>sub</li></ol></li><li>two</li></ul><table><thead><tr><th>A</th><th>B</th></tr></thead><tbody><tr><td>1</td><td><i>2</i></td></tr></tbody></table>');
+      assert.deepStrictEqual(blocks.slice(0, 3).map(b => [b.inline.text, b.ordered, b.nestingLevel]), [['one', false, 0], ['sub', true, 1], ['two', false, 0]]);
+      assert.strictEqual(blocks[3].type, 'table');
+      assert.deepStrictEqual(blocks[3].rows.map(row => row.map(cell => cell.text)), [['A', 'B'], ['1', '2']]);
+      assert.deepStrictEqual(blocks[3].rows[1][1].styles, [{ start: 0, end: 1, style: { italic: true } }]);
+    });
+
+    it('should keep pre blocks verbatim, skip scripts and apply inner styles after wrappers', () => {
+      const blocks = parseHtmlBlocks('<script>alert("x")</script><pre>line 1\n  line 2</pre><b style="font-weight:normal"><strong>Bold</strong> &amp; plain</b>');
+      assert.deepStrictEqual(blocks.map(b => b.inline.text), ['line 1', '  line 2', 'Bold & plain']);
+      assert.strictEqual(blocks[0].code, true);
+      assert.deepStrictEqual(blocks[2].inline.styles.map(s => s.style.bold), [false, true]);
+    });
+
+    it('should produce requests through the shared block writer', () => {
+      const { requests } = buildBlockRequests(parseHtmlBlocks('<h1>Title</h1><p>Body</p>'), 1);
+      assert.deepStrictEqual(requests[0], { insertText: { location: { index: 1 }, text: 'Title\nBody\n' } });
+    });
+  });
+
+  describe('parseCssTextStyle', () => {
+    it('should read text-related declarations', () => {
+      assert.deepStrictEqual(
+        parseCssTextStyle('font-weight: 700; font-style: italic; text-decoration: underline; color: rgb(255, 0, 0); background-color: #FFFF00; font-family: "Georgia", serif; font-size: 16px; margin: 0'),
+        { bold: true, italic: true, underline: true, foregroundColor: '#ff0000', backgroundColor: '#FFFF00', fontFamily: 'Georgia', fontSize: 12 }
+      );
+    });
+  });
+
+  describe('decodeHtmlEntities', () => {
+    it('should decode named and numeric entities', () => {
+      assert.strictEqual(decodeHtmlEntities('&lt;a&gt; &amp;&#39;&#x41;&nbsp;&unknown;'), '<a> &\'A &unknown;');
+    });
+  });
+});
+
+describe('HTML Export', () => {
+  const run = (content, textStyle = {}) => ({ textRun: { content, textStyle } });
+  const paragraph = (elements, extra = {}) => ({ paragraph: { elements, ...extra } });
+
+  describe('convertDocsJsonToHtml', () => {
+    it('should emit headings, styled text and escaped content', () => {
+      const doc = { body: { content: [
+        { sectionBreak: {} },
+        paragraph([run('Title\n')], { paragraphStyle: { namedStyleType: 'HEADING_1' } }),
+        paragraph([
+          run('a < b '),
+          run('red', { bold: true, foregroundColor: { color: { rgbColor: { red: 1 } } } }),
+          run(' link', { link: { url: 'https://example.com?a=1&b=2' }, underline: true }),
+          run('\n')
+        ], { paragraphStyle: { alignment: 'CENTER' } })
+      ] } };
+      assert.strictEqual(convertDocsJsonToHtml(doc), [
+        '<h1>Title</h1>',
+        '<p style="text-align: center">a &lt; b <strong><span style="color: #ff0000">red</span></strong><a href="https://example.com?a=1&amp;b=2"> link</a></p>'
+      ].join('\n'));
+    });
+
+    it('should nest lists using the lists map', () => {
+      const doc = {
+        lists: { l: { listProperties: { nestingLevels: [{ glyphSymbol: '●' }, { glyphType: 'DECIMAL' }] } } },
+        body: { content: [
+          paragraph([run('one\n')], { bullet: { listId: 'l' } }),
+          paragraph([run('sub\n')], { bullet: { listId: 'l', nestingLevel: 1 } }),
+          paragraph([run('two\n')], { bullet: { listId: 'l' } }),
+          paragraph([run('After\n')])
+        ] }
+      };
+      assert.strictEqual(convertDocsJsonToHtml(doc), '<ul>\n<li>one\n<ol>\n<li>sub\n</li></ol>\n</li>\n<li>two\n</li></ul>\n<p>After</p>');
+    });
+
+    it('should export tables, images and footnotes', () => {
+      const doc = {
+        inlineObjects: { img: { inlineObjectProperties: { embeddedObject: { description: 'Logo', imageProperties: { contentUri: 'https://img/1' } } } } },
+        footnotes: { fn: { content: [paragraph([run('Source.\n')])] } },
+        body: { content: [
+          { table: { tableRows: [
+            { tableRowStyle: { tableHeader: true }, tableCells: [{ content: [paragraph([run('H\n')])] }] },
+            { tableCells: [{ content: [paragraph([{ inlineObjectElement: { inlineObjectId: 'img' } }, run('\n')])] }] }
+          ] } },
+          paragraph([run('Note'), { footnoteReference: { footnoteId: 'fn', footnoteNumber: '1' } }, run('\n')])
+        ] }
+      };
+      assert.strictEqual(convertDocsJsonToHtml(doc), [
+        '<table>',
+        '<tr><th>H</th></tr>',
+        '<tr><td><img src="https://img/1" alt="Logo"></td></tr>',
+        '</table>',
+        '<p>Note<sup id="fnref-1"><a href="#fn-1">1</a></sup></p>',
+        '<div class="footnotes">',
+        '<p id="fn-1"><sup>1</sup> Source.</p>',
+        '</div>'
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,266 @@
+// tests/markdown.test.js
+import { parseInlineMarkdown, parseMarkdownBlocks, plainTextToBlocks, buildMarkdownRequests, convertDocsJsonToMarkdown, describeFormattingLostInMarkdown } from '../dist/markdown.js';
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+
+describe('Markdown Parsing', () => {
+  describe('parseInlineMarkdown', () => {
+    it('should strip delimiters and record styles', () => {
+      const { text, styles } = parseInlineMarkdown('A **bold** and *italic* `code` [link](https://example.com)');
+      assert.strictEqual(text, 'A bold and italic code link');
+      assert.deepStrictEqual(styles, [
+        { start: 2, end: 6, style: { bold: true } },
+        { start: 11, end: 17, style: { italic: true } },
+        { start: 18, end: 22, style: { fontFamily: 'Courier New' } },
+        { start: 23, end: 27, style: { linkUrl: 'https://example.com' } }
+      ]);
+    });
+
+    it('should parse underline tags, images and references to defined footnotes', () => {
+      const parsed = parseInlineMarkdown('<u>Under</u> ![logo](https://example.com/a.png)x[^1] [^2]', new Map([['1', 'A source.']]));
+      assert.strictEqual(parsed.text, 'Under x [^2]');
+      assert.deepStrictEqual(parsed.styles, [{ start: 0, end: 5, style: { underline: true } }]);
+      assert.deepStrictEqual(parsed.objects, [
+        { kind: 'image', offset: 6, uri: 'https://example.com/a.png' },
+        { kind: 'footnote', offset: 7, text: 'A source.' }
+      ]);
+    });
+
+    it('should handle nesting, escapes and intraword underscores', () => {
+      assert.deepStrictEqual(parseInlineMarkdown('***both***').styles, [{ start: 0, end: 4, style: { bold: true, italic: true } }]);
+      assert.strictEqual(parseInlineMarkdown('\\*not italic\\* snake_case_name 2 * 3').text, '*not italic* snake_case_name 2 * 3');
+      assert.strictEqual(parseInlineMarkdown('snake_case_name').styles.length, 0);
+    });
+  });
+
+  describe('parseMarkdownBlocks', () => {
+    it('should recognise headings, paragraphs, nested lists, code and tables', () => {
+      const blocks = parseMarkdownBlocks([
+        '# Title',
+        'First line',
+        'continues here.',
+        '',
+        '- one',
+        '  - nested',
+        '- two',
+        '1. first',
+        '```',
+        'const x = 1;',
+        '```',
+        '| A | B |',
+        '|---|---|',
+        '| 1 | 2 |'
+      ].join('\n'));
+      assert.deepStrictEqual(blocks.map(b => b.type), ['paragraph', 'paragraph', 'listItem', 'listItem', 'listItem', 'listItem', 'paragraph', 'table']);
+      assert.strictEqual(blocks[0].namedStyleType, 'HEADING_1');
+      assert.strictEqual(blocks[1].inline.text, 'First line continues here.');
+      assert.deepStrictEqual(blocks.slice(2, 6).map(b => [b.ordered, b.nestingLevel]), [[false, 0], [false, 1], [false, 0], [true, 0]]);
+      assert.strictEqual(blocks[6].code, true);
+      assert.deepStrictEqual(blocks[7].rows.map(row => row.map(cell => cell.text)), [['A', 'B'], ['1', '2']]);
+    });
+  });
+
+  describe('plainTextToBlocks', () => {
+    it('should make one unstyled paragraph per line, ignoring a trailing newline', () => {
+      assert.deepStrictEqual(plainTextToBlocks('a **b**\r\n\nc\n').map(b => [b.type, b.inline.text, b.inline.styles.length]), [['paragraph', 'a **b**', 0], ['paragraph', '', 0], ['paragraph', 'c', 0]]);
+    });
+  });
+
+  describe('buildMarkdownRequests', () => {
+    it('should insert text, style headings and create bullets in one batch', () => {
+      const { requests, blockCount } = buildMarkdownRequests('## Hi **there**\n\n- a\n- b', 5);
+      assert.strictEqual(blockCount, 3);
+      assert.deepStrictEqual(requests[0], { insertText: { location: { index: 5 }, text: 'Hi there\na\nb\n' } });
+      assert.strictEqual(requests[1].updateParagraphStyle.paragraphStyle.namedStyleType, 'NORMAL_TEXT');
+      assert.deepStrictEqual(requests[2].updateTextStyle.range, { startIndex: 8, endIndex: 13 });
+      assert.deepStrictEqual(requests[3].updateParagraphStyle.range, { startIndex: 5, endIndex: 14 });
+      assert.deepStrictEqual(requests[4].createParagraphBullets, { range: { startIndex: 14, endIndex: 18 }, bulletPreset: 'BULLET_DISC_CIRCLE_SQUARE' });
+    });
+
+    it('should emit tables before the preceding text and fill cells in descending order', () => {
+      const { requests } = buildMarkdownRequests('Intro\n\n| A | B |\n|---|---|\n| 1 | 2 |', 1);
+      assert.deepStrictEqual(requests[0], { insertTable: { rows: 2, columns: 2, location: { index: 1 } } });
+      const cellInserts = requests.filter(r => r.insertText && r.insertText.text !== 'Intro').map(r => [r.insertText.location.index, r.insertText.text]);
+      // Table starts at 2; rows are 5 indices long for two columns
+      assert.deepStrictEqual(cellInserts, [[12, '2'], [10, '1'], [7, 'B'], [5, 'A']]);
+      // The text before the table relies on the newline insertTable adds
+      assert.deepStrictEqual(requests.find(r => r.insertText?.text === 'Intro').insertText.location, { index: 1 });
+    });
+
+    it('should add images and footnotes after their text, last first, and collect the footnote text', () => {
+      const { requests, footnotes } = buildMarkdownRequests('A![](https://example.com/a.png) b[^x] c[^y]\n\n[^x]: First.\n[^y]: *Second*.', 1);
+      assert.deepStrictEqual(requests[0], { insertText: { location: { index: 1 }, text: 'A b c\n' } });
+      assert.deepStrictEqual(requests.slice(2).map(r => Object.keys(r)[0]), ['createFootnote', 'createFootnote', 'insertInlineImage']);
+      assert.deepStrictEqual(requests.slice(2).map(r => (r.createFootnote || r.insertInlineImage).location.index), [6, 4, 2]);
+      assert.deepStrictEqual(footnotes, ['Second.', 'First.']);
+    });
+
+    it('should reject markdown without content', () => {
+      assert.throws(() => buildMarkdownRequests('\n---\n', 1), /no content/);
+    });
+  });
+});
+
+// Builds the document structure that insertMarkdown produces for the given markdown
+function documentFromMarkdown(markdown) {
+  const inlineObjects = {};
+  const footnotes = {};
+  const toObjectElement = object => {
+    if (object.kind === 'image') {
+      const inlineObjectId = `img.${Object.keys(inlineObjects).length}`;
+      inlineObjects[inlineObjectId] = { inlineObjectProperties: { embeddedObject: { imageProperties: { contentUri: object.uri } } } };
+      return { inlineObjectElement: { inlineObjectId } };
+    }
+    const footnoteId = `fn.${Object.keys(footnotes).length}`;
+    footnotes[footnoteId] = { content: [{ paragraph: { elements: [{ textRun: { content: ` ${object.text}\n` } }] } }] };
+    return { footnoteReference: { footnoteId, footnoteNumber: String(Object.keys(footnotes).length) } };
+  };
+  const toElements = (inline, extraStyle = {}) => {
+    const objects = inline.objects || [];
+    const bounds = [...new Set([0, inline.text.length, ...inline.styles.flatMap(s => [s.start, s.end]), ...objects.map(o => o.offset)])].sort((a, b) => a - b);
+    const elements = [];
+    const pushObjects = offset => objects.filter(o => o.offset === offset).forEach(o => elements.push(toObjectElement(o)));
+    for (let i = 0; i < bounds.length - 1; i++) {
+      pushObjects(bounds[i]);
+      const textStyle = { ...extraStyle };
+      inline.styles.filter(s => s.start <= bounds[i] && s.end >= bounds[i + 1]).forEach(({ style }) => {
+        if (style.bold) textStyle.bold = true;
+        if (style.italic) textStyle.italic = true;
+        if (style.strikethrough) textStyle.strikethrough = true;
+        if (style.underline) textStyle.underline = true;
+        if (style.fontFamily) textStyle.weightedFontFamily = { fontFamily: style.fontFamily };
+        if (style.linkUrl) textStyle.link = { url: style.linkUrl };
+      });
+      elements.push({ textRun: { content: inline.text.slice(bounds[i], bounds[i + 1]), textStyle } });
+    }
+    pushObjects(inline.text.length);
+    elements.push({ textRun: { content: '\n', textStyle: {} } });
+    return elements;
+  };
+
+  const content = [{ startIndex: 0, endIndex: 1, sectionBreak: {} }];
+  const lists = {};
+  let listId = null;
+  parseMarkdownBlocks(markdown).forEach((block, position, blocks) => {
+    if (block.type === 'listItem') {
+      const previous = blocks[position - 1];
+      if (!(previous?.type === 'listItem' && (block.nestingLevel > 0 || lists[listId].ordered === block.ordered))) {
+        listId = `list.${Object.keys(lists).length}`;
+        const nestingLevels = Array.from({ length: 9 }, () => block.ordered ? { glyphType: 'DECIMAL' } : { glyphSymbol: '●' });
+        lists[listId] = { ordered: block.ordered, listProperties: { nestingLevels } };
+      }
+      content.push({ paragraph: { elements: toElements(block.inline), bullet: { listId, nestingLevel: block.nestingLevel } } });
+    } else if (block.type === 'table') {
+      content.push({ paragraph: { elements: [{ textRun: { content: '\n' } }] } });
+      content.push({ table: { tableRows: block.rows.map((row, r) => ({ tableCells: row.map(cell => ({ content: [{ paragraph: { elements: toElements(cell, r === 0 ? { bold: true } : {}) } }] })) })) } });
+    } else {
+      const paragraphStyle = { namedStyleType: block.namedStyleType || 'NORMAL_TEXT' };
+      if (block.quote) {
+        paragraphStyle.indentStart = { magnitude: 36, unit: 'PT' };
+        paragraphStyle.indentFirstLine = { magnitude: 36, unit: 'PT' };
+      }
+      const extraStyle = block.code ? { weightedFontFamily: { fontFamily: 'Courier New' } } : {};
+      const elements = block.inline.text || block.inline.objects ? toElements(block.inline, extraStyle) : [{ textRun: { content: '\n' } }];
+      content.push({ paragraph: { elements, paragraphStyle } });
+    }
+  });
+  return { body: { content }, lists, inlineObjects, footnotes };
+}
+
+describe('Markdown Export', () => {
+  const run = (content, textStyle = {}) => ({ textRun: { content, textStyle } });
+  const paragraph = (elements, extra = {}) => ({ paragraph: { elements, ...extra } });
+
+  describe('convertDocsJsonToMarkdown', () => {
+    it('should keep newlines outside style delimiters and merge equally styled runs', () => {
+      const doc = { body: { content: [
+        { sectionBreak: {} },
+        paragraph([run('Plain '), run('bold', { bold: true }), run(' also', { bold: true }), run(' end\n', { italic: true })])
+      ] } };
+      assert.strictEqual(convertDocsJsonToMarkdown(doc), 'Plain **bold also** *end*');
+    });
+
+    it('should use the lists map for ordered lists and nesting levels', () => {
+      const doc = {
+        lists: {
+          n: { listProperties: { nestingLevels: [{ glyphType: 'DECIMAL' }, { glyphType: 'ALPHA' }] } },
+          b: { listProperties: { nestingLevels: [{ glyphSymbol: '●' }, { glyphSymbol: '○' }] } }
+        },
+        body: { content: [
+          paragraph([run('one\n')], { bullet: { listId: 'n' } }),
+          paragraph([run('sub\n')], { bullet: { listId: 'n', nestingLevel: 1 } }),
+          paragraph([run('two\n')], { bullet: { listId: 'n' } }),
+          paragraph([run('Between\n')]),
+          paragraph([run('dot\n')], { bullet: { listId: 'b' } }),
+          paragraph([run('circle\n')], { bullet: { listId: 'b', nestingLevel: 1 } })
+        ] }
+      };
+      assert.strictEqual(convertDocsJsonToMarkdown(doc), '1. one\n    1. sub\n2. two\n\nBetween\n\n- dot\n    - circle');
+    });
+
+    it('should export images, footnotes, horizontal rules and code-font runs', () => {
+      const doc = {
+        inlineObjects: { img: { inlineObjectProperties: { embeddedObject: { imageProperties: { contentUri: 'https://img/1' } } } } },
+        footnotes: { fn: { content: [paragraph([run(' A source.\n')])] } },
+        body: { content: [
+          paragraph([run('See '), { inlineObjectElement: { inlineObjectId: 'img' } }, run(' and note'), { footnoteReference: { footnoteId: 'fn', footnoteNumber: '1' } }, run('\n')]),
+          paragraph([{ horizontalRule: {} }, run('\n')]),
+          paragraph([run('Call '), run('run()', { weightedFontFamily: { fontFamily: 'Consolas' } }), run(' now\n')])
+        ] }
+      };
+      assert.strictEqual(convertDocsJsonToMarkdown(doc), 'See ![](https://img/1) and note[^1]\n\n---\n\nCall `run()` now\n\n[^1]: A source.');
+    });
+
+    it('should escape text that would otherwise be read as markdown', () => {
+      const doc = { body: { content: [paragraph([run('1. not a list *or* _emphasis_ in snake_case\n')])] } };
+      const markdown = convertDocsJsonToMarkdown(doc);
+      // An underscore right after a word character never closes emphasis, so it stays unescaped
+      assert.strictEqual(markdown, '1\\. not a list \\*or\\* \\_emphasis_ in snake_case');
+      assert.strictEqual(parseMarkdownBlocks(markdown)[0].inline.text, '1. not a list *or* _emphasis_ in snake_case');
+    });
+  });
+
+  describe('describeFormattingLostInMarkdown', () => {
+    it('should accept content markdown can express', () => {
+      const { body } = documentFromMarkdown('## Risks\n\nSome <u>**styled**</u> `code` and [a link](https://example.com).\n\n- item\n\n> quote\n\n| **A** | **B** |\n| --- | --- |\n| 1 | 2 |');
+      assert.strictEqual(describeFormattingLostInMarkdown(body.content.slice(1)), null);
+      const link = { link: { url: 'https://example.com' }, underline: true, foregroundColor: { color: { rgbColor: { blue: 0.8 } } } };
+      assert.strictEqual(describeFormattingLostInMarkdown([paragraph([run('link', link), run('\n')], { paragraphStyle: { namedStyleType: 'NORMAL_TEXT', direction: 'LEFT_TO_RIGHT', indentStart: { unit: 'PT' } } })]), null);
+    });
+
+    it('should name the first formatting that would be lost', () => {
+      assert.strictEqual(describeFormattingLostInMarkdown([paragraph([run('red', { foregroundColor: { color: { rgbColor: { red: 1 } } } }), run('\n')])]), 'text colors');
+      assert.strictEqual(describeFormattingLostInMarkdown([paragraph([run('x\n')], { paragraphStyle: { alignment: 'CENTER' } })]), 'paragraph alignment');
+      assert.strictEqual(describeFormattingLostInMarkdown([paragraph([run('Doc\n')], { paragraphStyle: { namedStyleType: 'TITLE' } })]), 'TITLE paragraphs');
+      assert.strictEqual(describeFormattingLostInMarkdown([paragraph([run('a\vb\n')])]), 'line breaks');
+      assert.strictEqual(describeFormattingLostInMarkdown([paragraph([{ inlineObjectElement: { inlineObjectId: 'img' } }, run('\n')])]), 'images');
+      const table = rows => ({ table: { tableRows: rows.map(cells => ({ tableCells: cells.map(content => ({ content })) })) } });
+      assert.strictEqual(describeFormattingLostInMarkdown([table([[[paragraph([run('Plain\n')])]]])]), 'a table whose first row is not bold');
+      assert.strictEqual(describeFormattingLostInMarkdown([table([[[paragraph([run('A\n', { bold: true })]), paragraph([run('B\n', { bold: true })])]]])]), 'table cells with several paragraphs');
+    });
+  });
+
+  describe('round trip through insertMarkdown', () => {
+    const corpus = [
+      '# Title\n\nSome **bold**, *italic*, ***both***, ~~struck~~, `code` and [a link](https://example.com).\n\n## Section\n\nSecond paragraph.',
+      '- one\n    - nested **item**\n        - deeper\n- two\n\n1. first\n2. second\n    1. sub',
+      '```\nconst x = 1;\n\nreturn x;\n```\n\nAfter the code.',
+      '| **Name** | **Score** |\n| --- | --- |\n| Ann | *10* |\n| Bob \\| Co | 7 |',
+      '> Quoted *text*\n\nLiteral \\*stars\\* and snake_case\n\n1\\. not a list',
+      'Some <u>underlined</u> and <u>**bold underlined**</u> text, literal \\<u>tags\\</u>, an image ![](https://example.com/a.png) and a note[^1].\n\n| **Logo** | **Source** |\n| --- | --- |\n| ![](https://example.com/b.png) | Cell note[^2] |\n\n[^1]: First source.\n[^2]: Second source.',
+    ];
+
+    corpus.forEach((markdown, n) => {
+      it(`should reproduce corpus document ${n + 1}`, () => {
+        const exported = convertDocsJsonToMarkdown(documentFromMarkdown(markdown));
+        assert.strictEqual(exported, markdown);
+        assert.strictEqual(convertDocsJsonToMarkdown(documentFromMarkdown(exported)), exported);
+      });
+    });
+
+    it('should stabilise after one export for non-canonical markdown', () => {
+      const exported = convertDocsJsonToMarkdown(documentFromMarkdown('Title\n=====\n\n* a\n  * b\n\n| A | B |\n|-|-|\n| 1 | 2 |'));
+      assert.strictEqual(convertDocsJsonToMarkdown(documentFromMarkdown(exported)), exported);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+// tests/stylePresets.test.js
+import { loadStylePresets, saveStylePresets, getStylePreset, buildStylePresetRequests, resolveTheme, buildThemeRequests } from '../dist/stylePresets.js';
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+describe('Style Presets', () => {
+  const callout = { text: { italic: true, foregroundColor: '#1A73E8' }, paragraph: { indentStart: 36 } };
+
+  describe('loadStylePresets / saveStylePresets', () => {
+    it('should round-trip presets and treat a missing file as empty', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'presets-'));
+      const file = path.join(dir, 'style-presets.json');
+      try {
+        assert.deepStrictEqual(await loadStylePresets(file), {});
+        await saveStylePresets({ callout }, file);
+        assert.deepStrictEqual(await loadStylePresets(file), { callout });
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject invalid presets with the preset name', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'presets-'));
+      const file = path.join(dir, 'style-presets.json');
+      try {
+        await fs.writeFile(file, JSON.stringify({ bad: { text: { fontSize: -1 } } }));
+        await assert.rejects(loadStylePresets(file), /Style preset "bad" in .* is invalid: text.fontSize/);
+        await fs.writeFile(file, '{ not json');
+        await assert.rejects(loadStylePresets(file), /is not valid JSON/);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('getStylePreset', () => {
+    it('should list the available presets when a name is unknown', () => {
+      assert.strictEqual(getStylePreset({ callout }, 'callout'), callout);
+      assert.throws(() => getStylePreset({ callout }, 'quote'), /Style preset "quote" not found. Available: "callout"/);
+    });
+  });
+
+  describe('buildStylePresetRequests', () => {
+    it('should apply the paragraph style before the text style for each range', () => {
+      const { requests, fields } = buildStylePresetRequests([{ startIndex: 1, endIndex: 5 }, { startIndex: 10, endIndex: 12 }], callout);
+      assert.deepStrictEqual(requests.map(r => Object.keys(r)[0]), ['updateParagraphStyle', 'updateTextStyle', 'updateParagraphStyle', 'updateTextStyle']);
+      assert.deepStrictEqual(requests[3].updateTextStyle.range, { startIndex: 10, endIndex: 12 });
+      assert.deepStrictEqual(fields, ['indentStart', 'italic', 'foregroundColor']);
+    });
+  });
+
+  describe('applying themes', () => {
+    const paragraph = (startIndex, endIndex, namedStyleType) => ({ startIndex, endIndex, paragraph: { paragraphStyle: namedStyleType ? { namedStyleType } : {} } });
+    const content = [
+      paragraph(1, 10, 'HEADING_1'),
+      paragraph(10, 30),
+      { startIndex: 30, endIndex: 40, table: { tableRows: [{ tableCells: [{ content: [paragraph(33, 38, 'NORMAL_TEXT')] }] }] } },
+      paragraph(40, 50, 'HEADING_2')
+    ];
+
+    it('should resolve preset names and inline presets', () => {
+      const theme = resolveTheme({ HEADING_1: 'callout', NORMAL_TEXT: { text: { fontFamily: 'Inter' } } }, { callout });
+      assert.deepStrictEqual(theme, { HEADING_1: callout, NORMAL_TEXT: { text: { fontFamily: 'Inter' } } });
+      assert.throws(() => resolveTheme({ TITLE: 'missing' }, { callout }), /Style preset "missing" not found/);
+    });
+
+    it('should restyle paragraphs by named style, including table cells, without changing their named style', () => {
+      const { requests, counts } = buildThemeRequests(content, {
+        HEADING_1: { text: { bold: true }, paragraph: { namedStyleType: 'TITLE', spaceAbove: 12 } },
+        NORMAL_TEXT: { text: { fontFamily: 'Inter' } }
+      });
+      assert.deepStrictEqual(counts, { HEADING_1: 1, NORMAL_TEXT: 2 });
+      assert.deepStrictEqual(requests[0].updateParagraphStyle.fields, 'spaceAbove');
+      assert.deepStrictEqual(requests.slice(1).map(r => [r.updateTextStyle.range.startIndex, r.updateTextStyle.fields]), [[1, 'bold'], [10, 'weightedFontFamily'], [33, 'weightedFontFamily']]);
+    });
+  });
+});